@@ -5,7 +5,8 @@ module.exports = {
   testMatch: [
     '**/__tests__/**/*.ts',
     '**/?(*.)+(spec|test).ts',
-    '!**/__tests__/setup.ts'
+    '!**/__tests__/setup.ts',
+    '!**/__tests__/helpers.ts'
   ],
   transform: {
     '^.+\\.ts$': 'ts-jest',
@@ -0,0 +1,155 @@
+/**
+ * Tests for AbortSignal cancellation
+ */
+
+import { AISpine } from '../spine';
+import { AISpineClient } from '../client';
+import { FetchTransport, TransportError } from '../transport';
+import { AbortError, AISpineError } from '../errors';
+import { delay } from '../utils';
+import { Transport, TransportRequest } from '../types';
+import { ok } from './helpers';
+
+const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+
+describe('AbortError', () => {
+  it('should be an AISpineError with the ABORTED code', () => {
+    const error = new AbortError();
+    expect(error).toBeInstanceOf(AISpineError);
+    expect(error.code).toBe('ABORTED');
+    expect(error.name).toBe('AbortError');
+  });
+});
+
+describe('delay', () => {
+  it('should reject with AbortError when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const pending = delay(60000, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should reject immediately for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(delay(10, controller.signal)).rejects.toBeInstanceOf(AbortError);
+  });
+});
+
+describe('FetchTransport cancellation', () => {
+  it('should abort in-flight requests', async () => {
+    const fetchMock = jest.fn((_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    );
+    const transport = new FetchTransport({ fetch: fetchMock as any });
+    const controller = new AbortController();
+
+    const pending = transport.request({
+      method: 'GET',
+      baseURL: 'https://api.example.com',
+      url: '/health',
+      headers: {},
+      timeout: 30000,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    const error = await pending.catch(e => e);
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.code).toBe('ERR_CANCELED');
+  });
+});
+
+describe('AISpineClient cancellation', () => {
+  it('should pass the signal to the transport and map cancellation to AbortError', async () => {
+    const controller = new AbortController();
+    const transport: Transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        expect(request.signal).toBe(controller.signal);
+        throw new TransportError('canceled', 'ERR_CANCELED');
+      }) as any,
+    };
+    const client = new AISpineClient({ apiKey: validApiKey, transport });
+
+    await expect(client.get('/health', undefined, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(AbortError);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should interrupt the backoff sleep between retries', async () => {
+    const controller = new AbortController();
+    const transport: Transport = {
+      request: jest.fn().mockRejectedValue(new TransportError('Request failed with status code 503', 'ERR_BAD_RESPONSE', {
+        data: {},
+        status: 503,
+        statusText: 'Service Unavailable',
+        headers: {},
+      })),
+    };
+    const client = new AISpineClient({
+      apiKey: validApiKey,
+      transport,
+      retryPolicy: { baseDelay: 60000, jitter: 'none' },
+    });
+
+    const pending = client.get('/health', undefined, { signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AISpine cancellation', () => {
+  let transport: jest.Mocked<Transport>;
+  let spine: AISpine;
+
+  beforeEach(() => {
+    transport = { request: jest.fn() } as any;
+    spine = new AISpine({ apiKey: validApiKey, transport });
+  });
+
+  it('should stop waitForExecution polling', async () => {
+    transport.request.mockResolvedValue(ok({ execution_id: 'exec-1', status: 'running' }));
+    const controller = new AbortController();
+
+    const pending = spine.waitForExecution('exec-1', { interval: 60000, signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop queued executeBatch items', async () => {
+    const controller = new AbortController();
+    transport.request.mockImplementation(async (request: TransportRequest) => {
+      if (request.method === 'POST') {
+        return ok({ execution_id: `exec-${transport.request.mock.calls.length}`, status: 'pending' });
+      }
+      controller.abort();
+      return ok({ execution_id: 'exec-1', status: 'completed', output_data: {} });
+    });
+
+    const pending = spine.executeBatch([
+      { id: '1', flowId: 'my-flow', input: {} },
+      { id: '2', flowId: 'my-flow', input: {} },
+      { id: '3', flowId: 'my-flow', input: {} },
+    ], { concurrency: 1, signal: controller.signal });
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    const posts = transport.request.mock.calls.filter(([request]) => request.method === 'POST');
+    expect(posts).toHaveLength(1);
+  });
+
+  it('should reject immediately when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(spine.listFlows({ signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+});
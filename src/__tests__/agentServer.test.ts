@@ -0,0 +1,169 @@
+/**
+ * Tests for the agent server
+ */
+
+import { AgentServer, createAgentServer } from '../agentServer';
+import { ValidationError } from '../errors';
+import { AgentEnvironmentSchema, AgentHandler, AgentServerRequest, AgentServerResponse } from '../types';
+
+const environmentSchema: AgentEnvironmentSchema = {
+  API_KEY: { type: 'password', description: 'Provider key', required: true },
+  MODEL: { type: 'string', description: 'Model name', required: false, default_value: 'small' },
+};
+
+describe('AgentServer', () => {
+  let handler: jest.Mock<ReturnType<AgentHandler>, Parameters<AgentHandler>>;
+  let agent: AgentServer;
+  let url: string;
+
+  const post = async (body: any, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+      ...init,
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    handler = jest.fn(async ({ input }, { environment }) => ({ echo: input.text, model: environment.MODEL }));
+    agent = createAgentServer({ handler, environmentSchema, agentId: 'echo_agent', maxBodySize: 1024 });
+    url = await agent.listen(0, '127.0.0.1');
+  });
+
+  afterEach(async () => {
+    await agent.close();
+  });
+
+  it('should run the handler and time the call', async () => {
+    const { status, body } = await post({
+      input: { text: 'hi' },
+      config: { environment: { API_KEY: 'sk-1' } },
+      metadata: { execution_id: 'exec-1' },
+    });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ status: 'success', output: { echo: 'hi', model: 'small' }, execution_time: expect.any(Number) });
+    const [request, context] = handler.mock.calls[0];
+    expect(request.input).toEqual({ text: 'hi' });
+    expect(context.environment).toEqual({ API_KEY: 'sk-1', MODEL: 'small' });
+    expect(context.metadata).toEqual({ execution_id: 'exec-1' });
+  });
+
+  it('should reject malformed requests without calling the handler', async () => {
+    const invalid = await post({ input: 'hi', config: { timeout: -1 } });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toMatchObject({
+      status: 'error',
+      output: {},
+      error_message: 'Invalid agent request: input: input must be an object; config.timeout: timeout must be a positive number',
+    });
+    expect(invalid.body.metadata.validation_errors).toHaveLength(2);
+
+    const notJson = await post('{oops');
+    expect(notJson).toMatchObject({ status: 400, body: { error_message: 'Request body must be valid JSON' } });
+
+    const tooLarge = await post({ input: { text: 'x'.repeat(2048) } });
+    expect(tooLarge).toMatchObject({ status: 413, body: { error_message: 'Request body exceeds 1024 bytes' } });
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should check config.environment against the schema', async () => {
+    const { status, body } = await post({ input: {}, config: { environment: { MODEL: 3 } } });
+
+    expect(status).toBe(400);
+    expect(body.error_message).toBe(
+      'Invalid agent environment: config.environment.API_KEY: API_KEY is required; config.environment.MODEL: MODEL must be a string'
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should enforce config.timeout and abort the handler', async () => {
+    let signal: AbortSignal | undefined;
+    handler.mockImplementation((_request, context) => {
+      signal = context.signal;
+      return new Promise(() => undefined);
+    });
+
+    const { status, body } = await post({ input: {}, config: { timeout: 20, environment: { API_KEY: 'k' } } });
+
+    expect(status).toBe(504);
+    expect(body).toMatchObject({ status: 'error', output: {}, error_message: 'Agent timed out after 20ms' });
+    expect(body.execution_time).toBeGreaterThanOrEqual(15);
+    expect(signal!.aborted).toBe(true);
+  });
+
+  it('should map thrown errors to error responses', async () => {
+    handler.mockRejectedValueOnce(new Error('Provider unavailable'));
+    const failed = await post({ input: {}, config: { environment: { API_KEY: 'k' } } });
+    expect(failed.status).toBe(500);
+    expect(failed.body).toEqual({
+      status: 'error',
+      output: {},
+      error_message: 'Provider unavailable',
+      execution_time: expect.any(Number),
+    });
+
+    handler.mockRejectedValueOnce(new ValidationError('text is too long'));
+    const rejected = await post({ input: {}, config: { environment: { API_KEY: 'k' } } });
+    expect(rejected).toMatchObject({ status: 400, body: { status: 'error', error_message: 'text is too long' } });
+
+    handler.mockResolvedValueOnce('not an object' as any);
+    const invalidOutput = await post({ input: {}, config: { environment: { API_KEY: 'k' } } });
+    expect(invalidOutput).toMatchObject({ status: 500, body: { error_message: 'Agent handler must return an object' } });
+  });
+
+  it('should serve health checks and reject unknown routes and methods', async () => {
+    const health = await fetch(url.replace(/\/$/, '/health'));
+    expect(health.status).toBe(200);
+    expect(await health.json()).toEqual({
+      status: 'healthy',
+      agent_id: 'echo_agent',
+      environment_schema: environmentSchema,
+      timestamp: expect.any(String),
+    });
+
+    expect((await fetch(url)).status).toBe(200);
+    expect((await fetch(url.replace(/\/$/, '/nope'))).status).toBe(404);
+    const put = await post({ input: {} }, { method: 'PUT' });
+    expect(put.status).toBe(405);
+  });
+
+  it('should use a body already parsed by a framework', async () => {
+    const respond = (req: Partial<AgentServerRequest>) => new Promise<{ status: number; body: any }>(resolve => {
+      let status = 0;
+      const res: AgentServerResponse = {
+        writableEnded: false,
+        destroyed: false,
+        setHeader: jest.fn(),
+        writeHead: code => {
+          status = code;
+        },
+        end: chunk => resolve({ status, body: JSON.parse(chunk) }),
+        on: jest.fn(),
+      };
+      agent.handle({ method: 'POST', url: '/', on: jest.fn(), readableEnded: true, ...req }, res);
+    });
+
+    const parsed = await respond({ body: { input: { text: 'parsed' }, config: { environment: { API_KEY: 'k' } } } });
+    expect(parsed).toMatchObject({ status: 200, body: { output: { echo: 'parsed' } } });
+
+    const raw = await respond({ body: '{"input":{"text":"raw"},"config":{"environment":{"API_KEY":"k"}}}' });
+    expect(raw.body.output).toEqual({ echo: 'raw', model: 'small' });
+
+    const consumed = await respond({});
+    expect(consumed).toMatchObject({ status: 400, body: { error_message: 'Request body was already read without setting req.body' } });
+  });
+
+  it('should execute requests without HTTP', async () => {
+    const response = await agent.execute({ input: { text: 'direct' }, config: { environment: { API_KEY: 'k' } } });
+
+    expect(response).toMatchObject({ status: 'success', output: { echo: 'direct', model: 'small' } });
+  });
+
+  it('should require a handler', () => {
+    expect(() => createAgentServer({} as any)).toThrow(ValidationError);
+  });
+});
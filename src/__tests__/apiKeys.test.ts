@@ -2,27 +2,19 @@
  * Tests for API Key Management methods
  */
 
-import axios from 'axios';
 import { AISpine } from '../spine';
-import { AISpineClient } from '../client';
-
-jest.mock('axios');
-const mockedAxios = axios as jest.Mocked<typeof axios>;
+import { TransportError } from '../transport';
+import { Transport } from '../types';
 
 describe('API Key Management', () => {
   const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
   const userId = '123e4567-e89b-12d3-a456-426614174000';
   let spine: AISpine;
-  let client: AISpineClient;
+  let transport: jest.Mocked<Transport>;
 
   beforeEach(() => {
-    jest.clearAllMocks();
-    
-    // Mock axios.create to return a mocked axios instance
-    (mockedAxios.create as jest.Mock).mockReturnValue(mockedAxios);
-    
-    spine = new AISpine(validApiKey);
-    client = new AISpineClient(validApiKey);
+    transport = { request: jest.fn() };
+    spine = new AISpine({ apiKey: validApiKey, transport });
   });
 
   describe('checkUserApiKey', () => {
@@ -38,25 +30,21 @@ describe('API Key Management', () => {
         },
         status: 200,
         statusText: 'OK',
-        headers: {},
-        config: {}
+        headers: {}
       };
 
-      mockedAxios.get.mockResolvedValueOnce(mockResponse);
+      transport.request.mockResolvedValueOnce(mockResponse);
 
       const result = await spine.checkUserApiKey(userId);
 
-      expect(mockedAxios.get).toHaveBeenCalledWith(
-        'https://ai-spine-api.up.railway.app/api/v1/user/keys/my-key',
-        {
-          params: { user_id: userId },
-          timeout: 30000,
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          }
-        }
-      );
+      expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'GET',
+        baseURL: 'https://ai-spine-api.up.railway.app',
+        url: '/api/v1/user/keys/my-key',
+        params: { user_id: userId },
+        timeout: 30000,
+      }));
+      expect(transport.request.mock.calls[0][0].headers).not.toHaveProperty('Authorization');
 
       expect(result).toEqual(mockResponse.data);
       expect(result.has_api_key).toBe(true);
@@ -72,11 +60,10 @@ describe('API Key Management', () => {
         },
         status: 200,
         statusText: 'OK',
-        headers: {},
-        config: {}
+        headers: {}
       };
 
-      mockedAxios.get.mockResolvedValueOnce(mockResponse);
+      transport.request.mockResolvedValueOnce(mockResponse);
 
       const result = await spine.checkUserApiKey(userId);
 
@@ -95,25 +82,20 @@ describe('API Key Management', () => {
         },
         status: 201,
         statusText: 'Created',
-        headers: {},
-        config: {}
+        headers: {}
       };
 
-      mockedAxios.post.mockResolvedValueOnce(mockResponse);
+      transport.request.mockResolvedValueOnce(mockResponse);
 
       const result = await spine.generateUserApiKey(userId);
 
-      expect(mockedAxios.post).toHaveBeenCalledWith(
-        'https://ai-spine-api.up.railway.app/api/v1/user/keys/generate',
-        { user_id: userId },
-        {
-          timeout: 30000,
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          }
-        }
-      );
+      expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'POST',
+        url: '/api/v1/user/keys/generate',
+        data: { user_id: userId },
+        timeout: 30000,
+      }));
+      expect(transport.request.mock.calls[0][0].headers).not.toHaveProperty('Authorization');
 
       expect(result).toEqual(mockResponse.data);
       expect(result.action).toBe('created');
@@ -129,11 +111,10 @@ describe('API Key Management', () => {
         },
         status: 200,
         statusText: 'OK',
-        headers: {},
-        config: {}
+        headers: {}
       };
 
-      mockedAxios.post.mockResolvedValueOnce(mockResponse);
+      transport.request.mockResolvedValueOnce(mockResponse);
 
       const result = await spine.generateUserApiKey(userId);
 
@@ -151,35 +132,50 @@ describe('API Key Management', () => {
         },
         status: 200,
         statusText: 'OK',
-        headers: {},
-        config: {}
+        headers: {}
       };
 
-      mockedAxios.delete.mockResolvedValueOnce(mockResponse);
+      transport.request.mockResolvedValueOnce(mockResponse);
 
       const result = await spine.revokeUserApiKey(userId);
 
-      expect(mockedAxios.delete).toHaveBeenCalledWith(
-        'https://ai-spine-api.up.railway.app/api/v1/user/keys/revoke',
-        {
-          data: { user_id: userId },
-          timeout: 30000,
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-          }
-        }
-      );
+      expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+        method: 'DELETE',
+        url: '/api/v1/user/keys/revoke',
+        data: { user_id: userId },
+        timeout: 30000,
+      }));
+      expect(transport.request.mock.calls[0][0].headers).not.toHaveProperty('Authorization');
 
       expect(result).toEqual(mockResponse.data);
       expect(result.status).toBe('revoked');
     });
   });
 
+  describe('Request pipeline', () => {
+    it('should run middleware and retry failed requests', async () => {
+      const seen: string[] = [];
+      spine.use((request, next) => {
+        seen.push(`${request.method} ${request.url}`);
+        return next(request);
+      });
+      transport.request
+        .mockRejectedValueOnce(new TransportError('Request failed with status code 503', 'ERR_BAD_RESPONSE', {
+          data: { message: 'Unavailable' }, status: 503, statusText: 'Service Unavailable', headers: {},
+        }))
+        .mockResolvedValueOnce({ data: { has_api_key: false, api_key: null }, status: 200, statusText: 'OK', headers: {} });
+
+      const status = await spine.checkUserApiKey(userId, { retryPolicy: { baseDelay: 1, jitter: 'none' } });
+
+      expect(status.has_api_key).toBe(false);
+      expect(seen).toEqual(['GET /api/v1/user/keys/my-key', 'GET /api/v1/user/keys/my-key']);
+    });
+  });
+
   describe('Integration workflow', () => {
     it('should handle complete API key lifecycle', async () => {
       // 1. Check - no key
-      mockedAxios.get.mockResolvedValueOnce({
+      transport.request.mockResolvedValueOnce({
         data: {
           has_api_key: false,
           api_key: null,
@@ -187,15 +183,14 @@ describe('API Key Management', () => {
         },
         status: 200,
         statusText: 'OK',
-        headers: {},
-        config: {}
+        headers: {}
       });
 
       let status = await spine.checkUserApiKey(userId);
       expect(status.has_api_key).toBe(false);
 
       // 2. Generate new key
-      mockedAxios.post.mockResolvedValueOnce({
+      transport.request.mockResolvedValueOnce({
         data: {
           message: 'API key created successfully',
           api_key: 'sk_user_new_key',
@@ -203,8 +198,7 @@ describe('API Key Management', () => {
         },
         status: 201,
         statusText: 'Created',
-        headers: {},
-        config: {}
+        headers: {}
       });
 
       const generated = await spine.generateUserApiKey(userId);
@@ -212,7 +206,7 @@ describe('API Key Management', () => {
       expect(generated.api_key).toBe('sk_user_new_key');
 
       // 3. Check - has key
-      mockedAxios.get.mockResolvedValueOnce({
+      transport.request.mockResolvedValueOnce({
         data: {
           has_api_key: true,
           api_key: 'sk_user_new_key',
@@ -223,8 +217,7 @@ describe('API Key Management', () => {
         },
         status: 200,
         statusText: 'OK',
-        headers: {},
-        config: {}
+        headers: {}
       });
 
       status = await spine.checkUserApiKey(userId);
@@ -232,7 +225,7 @@ describe('API Key Management', () => {
       expect(status.api_key).toBe('sk_user_new_key');
 
       // 4. Regenerate key
-      mockedAxios.post.mockResolvedValueOnce({
+      transport.request.mockResolvedValueOnce({
         data: {
           message: 'API key regenerated successfully',
           api_key: 'sk_user_regenerated_key',
@@ -240,8 +233,7 @@ describe('API Key Management', () => {
         },
         status: 200,
         statusText: 'OK',
-        headers: {},
-        config: {}
+        headers: {}
       });
 
       const regenerated = await spine.generateUserApiKey(userId);
@@ -249,15 +241,14 @@ describe('API Key Management', () => {
       expect(regenerated.api_key).toBe('sk_user_regenerated_key');
 
       // 5. Revoke key
-      mockedAxios.delete.mockResolvedValueOnce({
+      transport.request.mockResolvedValueOnce({
         data: {
           message: 'API key revoked successfully',
           status: 'revoked' as const
         },
         status: 200,
         statusText: 'OK',
-        headers: {},
-        config: {}
+        headers: {}
       });
 
       const revoked = await spine.revokeUserApiKey(userId);
@@ -0,0 +1,123 @@
+/**
+ * Tests for FlowBuilder
+ */
+
+import { FlowBuilder } from '../builder';
+import { ValidationError } from '../errors';
+
+const meta = { name: 'Customer Sentiment', description: 'Analyze customer feedback' };
+
+describe('FlowBuilder', () => {
+  it('should build a sequential flow with entry and exit points', () => {
+    const flow = new FlowBuilder('customer-sentiment', meta)
+      .agent('sentiment-analyzer', { agent_id: 'sentiment_agent', config: { timeout: 30000 } })
+      .agent('insight-generator', { agent_id: 'insight_agent' })
+      .input()
+      .then('sentiment-analyzer')
+      .then('insight-generator')
+      .output()
+      .build();
+
+    expect(flow).toEqual({
+      flow_id: 'customer-sentiment',
+      name: 'Customer Sentiment',
+      description: 'Analyze customer feedback',
+      nodes: [
+        { id: 'input', type: 'input' },
+        {
+          id: 'sentiment-analyzer',
+          type: 'processor',
+          agent_id: 'sentiment_agent',
+          config: { timeout: 30000 },
+          depends_on: ['input'],
+        },
+        { id: 'insight-generator', type: 'processor', agent_id: 'insight_agent', depends_on: ['sentiment-analyzer'] },
+        { id: 'output', type: 'output', depends_on: ['insight-generator'] },
+      ],
+      entry_point: 'input',
+      exit_points: ['output'],
+    });
+  });
+
+  it('should fan out with parallel() and merge with join()', () => {
+    const flow = new FlowBuilder('research', meta)
+      .agent('web', { agent_id: 'web_agent' })
+      .agent('papers', { agent_id: 'papers_agent' })
+      .agent('summary', { agent_id: 'summary_agent' })
+      .input('question', { agent_id: 'conversational_ai' })
+      .parallel('web', 'papers')
+      .join('summary')
+      .output('answer')
+      .build();
+
+    const dependsOn = Object.fromEntries(flow.nodes.map(node => [node.id, node.depends_on]));
+    expect(dependsOn).toEqual({
+      question: undefined,
+      web: ['question'],
+      papers: ['question'],
+      summary: ['web', 'papers'],
+      answer: ['summary'],
+    });
+    expect(flow.nodes[0]).toEqual({ id: 'question', type: 'input', agent_id: 'conversational_ai' });
+    expect(flow.entry_point).toBe('question');
+    expect(flow.exit_points).toEqual(['answer']);
+  });
+
+  it('should let output() merge parallel branches', () => {
+    const flow = new FlowBuilder('fan-out', meta)
+      .agent('a', { agent_id: 'agent_a' })
+      .agent('b', { agent_id: 'agent_b' })
+      .input()
+      .parallel('a', 'b')
+      .output()
+      .build();
+
+    expect(flow.nodes.find(node => node.id === 'output')!.depends_on).toEqual(['a', 'b']);
+  });
+
+  it('should require join() to continue parallel branches', () => {
+    const builder = new FlowBuilder('fan-out', meta)
+      .agent('a', { agent_id: 'agent_a' })
+      .agent('b', { agent_id: 'agent_b' })
+      .agent('c', { agent_id: 'agent_c' })
+      .input()
+      .parallel('a', 'b');
+
+    expect(() => builder.then('c')).toThrow('use join() to merge them');
+  });
+
+  it('should reject duplicate and undeclared nodes', () => {
+    const builder = new FlowBuilder('flow', meta).agent('a', { agent_id: 'agent_a' });
+
+    expect(() => builder.agent('a', { agent_id: 'other' })).toThrow('Node "a" is already defined');
+    // @ts-expect-error 'missing' was never declared
+    expect(() => builder.input().then('missing')).toThrow(ValidationError);
+  });
+
+  it('should run the graph validator on build()', () => {
+    const builder = new FlowBuilder('flow', meta)
+      .agent('used', { agent_id: 'agent_a' })
+      .agent('forgotten', { agent_id: 'agent_b' })
+      .input()
+      .then('used')
+      .output();
+
+    const error = (() => {
+      try {
+        builder.build();
+      } catch (e) {
+        return e as ValidationError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error!.validationErrors).toEqual([
+      expect.objectContaining({ code: 'orphan_node', field: 'nodes[3]', value: 'forgotten' }),
+    ]);
+  });
+
+  it('should require an input node', () => {
+    expect(() => new FlowBuilder('flow', meta).agent('a', { agent_id: 'agent_a' }).build())
+      .toThrow('Flow needs an input node');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for the agent capability registry
+ */
+
+import { AISpine } from '../spine';
+import { BUILT_IN_AGENT_CAPABILITIES, CapabilityRegistry } from '../capabilities';
+import { NotFoundError, ValidationError } from '../errors';
+import { TransportError } from '../transport';
+import { AgentConfig, TransportRequest } from '../types';
+import { ok } from './helpers';
+
+const agentConfig: AgentConfig = {
+  agent_id: 'booking_agent',
+  name: 'Booking Agent',
+  description: 'Books tables',
+  endpoint: 'https://agents.example.com/booking',
+  capabilities: ['conversation', 'restaurant_booking'],
+};
+
+describe('CapabilityRegistry', () => {
+  it('should be seeded with the built-in capabilities', () => {
+    const registry = new CapabilityRegistry({ custom: ['translation'] });
+
+    expect(registry.list()).toEqual([...BUILT_IN_AGENT_CAPABILITIES, 'translation']);
+    expect(registry.has('decision_making')).toBe(true);
+    expect(registry.unknown(['translation', 'booking', 'conversation'])).toEqual(['booking']);
+  });
+
+  it('should register capabilities once and reject invalid names', () => {
+    const registry = new CapabilityRegistry();
+    registry.register('text-processing', 'text-processing', 'conversation');
+
+    expect(registry.list().slice(BUILT_IN_AGENT_CAPABILITIES.length)).toEqual(['text-processing']);
+    expect(() => registry.register('has space')).toThrow('Invalid capability names: "has space"');
+    expect(() => new CapabilityRegistry({ custom: [''] })).toThrow(ValidationError);
+  });
+});
+
+describe('AISpine capabilities', () => {
+  let transport: any;
+  let capabilitiesResponse: any;
+
+  const createSpine = (capabilities?: { custom?: string[]; refresh?: boolean }) => new AISpine({
+    apiKey: 'sk_test_1234567890abcdef1234567890abcdef',
+    transport,
+    retries: 0,
+    capabilities,
+  });
+  const requests = (url: string) => transport.request.mock.calls.filter(([request]: [TransportRequest]) => request.url === url);
+
+  beforeEach(() => {
+    capabilitiesResponse = ok({ capabilities: ['restaurant_booking', 'translation'] });
+    transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        if (request.url === '/api/v1/agents/capabilities') {
+          if (capabilitiesResponse.status === 404) {
+            throw new TransportError('Request failed with status code 404', 'ERR_BAD_REQUEST', capabilitiesResponse);
+          }
+          return capabilitiesResponse;
+        }
+        return ok({ ...request.data, status: 'active' });
+      }),
+    };
+  });
+
+  it('should reject capabilities missing from the registry', async () => {
+    const spine = createSpine();
+
+    await expect(spine.registerAgent(agentConfig)).rejects.toThrow(
+      `Invalid capabilities: restaurant_booking. Valid values are: ${BUILT_IN_AGENT_CAPABILITIES.join(', ')}`
+    );
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+
+  it('should accept capabilities from the config and registerCapability()', async () => {
+    const configured = createSpine({ custom: ['restaurant_booking'] });
+    await expect(configured.registerAgent(agentConfig)).resolves.toMatchObject({ agent_id: 'booking_agent' });
+
+    const registered = createSpine();
+    registered.registerCapability('restaurant_booking');
+    await registered.registerAgent(agentConfig);
+
+    expect(registered.listCapabilities()).toEqual([...BUILT_IN_AGENT_CAPABILITIES, 'restaurant_booking']);
+    expect(requests('/api/v1/agents')).toHaveLength(2);
+  });
+
+  it('should refresh capabilities from the server', async () => {
+    const spine = createSpine();
+
+    await expect(spine.refreshCapabilities()).resolves.toEqual([
+      ...BUILT_IN_AGENT_CAPABILITIES,
+      'restaurant_booking',
+      'translation',
+    ]);
+
+    capabilitiesResponse = ok(['summarization']);
+    await spine.refreshCapabilities();
+    expect(spine.listCapabilities()).toContain('summarization');
+
+    capabilitiesResponse = ok({ items: [] });
+    await expect(spine.refreshCapabilities()).rejects.toThrow('Unexpected capabilities response from the server');
+  });
+
+  it('should refresh once before rejecting unknown capabilities when enabled', async () => {
+    const spine = createSpine({ refresh: true });
+
+    await spine.registerAgent(agentConfig);
+    await expect(spine.registerAgent({ ...agentConfig, capabilities: ['unknown_skill'] })).rejects.toThrow(ValidationError);
+
+    expect(requests('/api/v1/agents/capabilities')).toHaveLength(1);
+    expect(requests('/api/v1/agents')).toHaveLength(1);
+  });
+
+  it('should retry a failed refresh on the next registration', async () => {
+    const spine = createSpine({ refresh: true });
+    capabilitiesResponse = { data: { message: 'Not found' }, status: 404, statusText: 'Not Found', headers: {} };
+
+    await expect(spine.registerAgent(agentConfig)).rejects.toThrow(NotFoundError);
+
+    capabilitiesResponse = ok(['restaurant_booking']);
+    await expect(spine.registerAgent(agentConfig)).resolves.toMatchObject({ agent_id: 'booking_agent' });
+    expect(requests('/api/v1/agents/capabilities')).toHaveLength(2);
+  });
+});
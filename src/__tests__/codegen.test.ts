@@ -0,0 +1,205 @@
+/**
+ * Tests for TypeScript code generation
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AISpine } from '../spine';
+import { generateTypeDefinitions } from '../codegen';
+import { TransportError } from '../transport';
+import { Agent, Flow, Transport, TransportRequest } from '../types';
+import { ok } from './helpers';
+
+const flows: Flow[] = [
+  {
+    flow_id: 'text-analysis',
+    name: 'Text Analysis',
+    description: 'Analyze text',
+    nodes: [{ id: 'analyze', type: 'processor', agent_id: 'nlp_agent' }],
+  },
+  {
+    flow_id: 'booking',
+    name: 'Booking',
+    description: 'Book a table',
+    nodes: [{ id: 'book', type: 'processor', agent_id: 'restaurant_agent' }],
+  },
+];
+
+const agents: Agent[] = [
+  {
+    agent_id: 'restaurant_agent',
+    name: 'Restaurant Agent',
+    description: 'Books tables',
+    endpoint: 'https://agents.example.com/restaurant',
+    capabilities: ['conversation'],
+    agent_type: 'processor',
+    status: 'active',
+    environment_schema: {
+      API_KEY: { type: 'password', description: 'Reservation API key', required: true, default_value: 'secret' },
+      TIMEOUT: { type: 'number', description: 'Timeout in seconds', required: false, default_value: 30 },
+      'booking-enabled': { type: 'boolean', description: 'Allow bookings', required: true },
+    },
+  },
+  {
+    agent_id: 'nlp_agent',
+    name: 'NLP Agent',
+    description: 'Analyzes text',
+    endpoint: 'https://agents.example.com/nlp',
+    capabilities: ['document_processing'],
+    agent_type: 'processor',
+    status: 'active',
+  },
+];
+
+describe('generateTypeDefinitions', () => {
+  it('should emit sorted flow and agent id unions', () => {
+    const source = generateTypeDefinitions({ flows, agents });
+
+    expect(source).toMatch(/^\/\/ Generated by ai-spine-sdk generateTypes\(\); do not edit by hand\./);
+    expect(source).toContain("import type { AISpine, ExecuteFlowOptions, ExecutionHandle } from 'ai-spine-sdk';");
+    expect(source).toContain("export type FlowId =\n  | 'booking'\n  | 'text-analysis';");
+    expect(source).toContain("export type AgentId =\n  | 'nlp_agent'\n  | 'restaurant_agent';");
+  });
+
+  it('should map environment schemas to interfaces', () => {
+    const source = generateTypeDefinitions({ flows, agents });
+
+    expect(source).toContain([
+      '/** Environment variables of Restaurant Agent (restaurant_agent) */',
+      'export interface RestaurantAgentEnvironment {',
+      '  /** Reservation API key */',
+      '  API_KEY: string;',
+      '  /**',
+      '   * Timeout in seconds',
+      '   * @default 30',
+      '   */',
+      '  TIMEOUT?: number;',
+      '  /** Allow bookings */',
+      "  'booking-enabled': boolean;",
+      '}',
+    ].join('\n'));
+    expect(source).toContain('export interface NlpAgentEnvironment {\n}');
+    expect(source).toContain([
+      'export interface AgentEnvironments {',
+      '  nlp_agent: NlpAgentEnvironment;',
+      '  restaurant_agent: RestaurantAgentEnvironment;',
+      '}',
+    ].join('\n'));
+    expect(source).not.toContain('secret');
+  });
+
+  it('should emit flow input and output maps and a typed executeFlow', () => {
+    const source = generateTypeDefinitions({ flows, agents }, { importPath: '@acme/ai-spine' });
+
+    expect(source).toContain("from '@acme/ai-spine';");
+    expect(source).toContain([
+      '/** input_data of each flow */',
+      'export interface FlowInputs {',
+      '  /**',
+      '   * Booking',
+      '   * Agents: restaurant_agent',
+      '   */',
+      '  booking: Record<string, any>;',
+    ].join('\n'));
+    expect(source).toContain("  'text-analysis': Record<string, any>;");
+    expect(source).toContain('export interface FlowOutputs {');
+    expect(source).toContain([
+      "export type TypedAISpine = Omit<AISpine, 'executeFlow'> & {",
+      '  executeFlow<F extends FlowId>(',
+      '    flowId: F,',
+      '    input: FlowInputs[F],',
+      '    options?: ExecuteFlowOptions',
+      '  ): Promise<ExecutionHandle<FlowInputs[F], FlowOutputs[F]>>;',
+    ].join('\n'));
+  });
+
+  it('should give colliding agent ids distinct interface names', () => {
+    const source = generateTypeDefinitions({
+      flows: [],
+      agents: [
+        { agent_id: 'nlp-agent', name: 'NLP' },
+        { agent_id: 'nlp_agent', name: 'NLP 2' },
+        { agent_id: '2fa', name: '2FA' },
+      ],
+    });
+
+    expect(source).toContain('export type FlowId = never;');
+    expect(source).toContain('export interface Agent2faEnvironment {');
+    expect(source).toContain('export interface NlpAgentEnvironment {');
+    expect(source).toContain('export interface NlpAgentEnvironment2 {');
+    expect(source).toContain('  nlp_agent: NlpAgentEnvironment2;');
+  });
+});
+
+describe('AISpine.generateTypes', () => {
+  let transport: jest.Mocked<Transport>;
+  let spine: AISpine;
+
+  beforeEach(() => {
+    transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        if (request.url === '/api/v1/flows') {
+          return ok(flows);
+        }
+        if (request.url === '/api/v1/agents') {
+          return ok(agents.map(agent => ({ ...agent })));
+        }
+        return ok({ ...agents[1], environment_schema: { MODEL: { type: 'string', description: 'Model name', required: true } } });
+      }),
+    } as any;
+    spine = new AISpine({ apiKey: 'sk_test_1234567890abcdef1234567890abcdef', transport, retries: 0 });
+  });
+
+  it('should read flows and agents from the API and fetch missing schemas', async () => {
+    const source = await spine.generateTypes();
+
+    expect(source).toContain("  | 'text-analysis';");
+    expect(source).toContain('export interface NlpAgentEnvironment {\n  /** Model name */\n  MODEL: string;\n}');
+    expect(transport.request.mock.calls.map(([request]) => request.url)).toContain('/api/v1/agents/nlp_agent');
+  });
+
+  it('should only treat missing agents as having no schema', async () => {
+    let status = 404;
+    const request = transport.request.getMockImplementation()!;
+    transport.request.mockImplementation(async (req: TransportRequest) => {
+      if (req.url === '/api/v1/agents/nlp_agent') {
+        throw new TransportError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', {
+          data: { message: 'Agent lookup failed' }, status, statusText: 'Error', headers: {},
+        });
+      }
+      return request(req);
+    });
+
+    await expect(spine.generateTypes()).resolves.toContain('export interface NlpAgentEnvironment {\n}');
+
+    status = 500;
+    await expect(spine.generateTypes()).rejects.toMatchObject({ status: 500 });
+  });
+
+  it('should read flows from a directory without resolving references', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-spine-codegen-'));
+    try {
+      await fs.writeFile(path.join(dir, 'support.yaml'), [
+        'format: ai-spine-flow/v1',
+        'flow_id: support',
+        'name: Support',
+        'description: Answer tickets',
+        'nodes:',
+        '  - id: reply',
+        '    type: processor',
+        '    agent_id: nlp_agent',
+        '    config:',
+        '      environment:',
+        '        API_KEY: ${SUPPORT_API_KEY}',
+      ].join('\n'));
+
+      const source = await spine.generateTypes({ flowsDir: dir });
+
+      expect(source).toContain("export type FlowId =\n  | 'support';");
+      expect(transport.request.mock.calls.map(([request]) => request.url)).not.toContain('/api/v1/flows');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for agent contract verification
+ */
+
+import { verifyAgentContract, formatAgentContractReport } from '../contract';
+import { createAgentServer } from '../agentServer';
+import { ValidationError } from '../errors';
+import { AgentContractFixtures, AgentEnvironmentSchema } from '../types';
+import { createServer, Server } from 'http';
+
+const environmentSchema: AgentEnvironmentSchema = {
+  API_KEY: { type: 'password', description: 'Provider key', required: true },
+  RETRIES: { type: 'number', description: 'Retries', required: false },
+};
+
+const fixtures: AgentContractFixtures = {
+  input: { text: 'hi' },
+  environment: { API_KEY: 'sk-1' },
+  environmentSchema,
+  slowInput: { text: 'slow' },
+  timeout: 30,
+  payloadSize: 4096,
+};
+
+const compliantAgent = () => createAgentServer({
+  environmentSchema,
+  maxBodySize: 1024,
+  handler: async ({ input }, { signal }) => {
+    if (input.text === 'slow') {
+      await new Promise(resolve => {
+        const timer = setTimeout(resolve, 1000);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          resolve(undefined);
+        });
+      });
+    }
+    return { echo: input.text };
+  },
+});
+
+describe('verifyAgentContract', () => {
+  it('should pass a compliant agent server', async () => {
+    const agent = compliantAgent();
+    const report = await verifyAgentContract(agent, fixtures);
+
+    expect(report.results.map(result => [result.case, result.status, result.http_status])).toEqual([
+      ['minimal-input', 'passed', 200],
+      ['missing-required-environment', 'passed', 400],
+      ['wrong-environment-types', 'passed', 400],
+      ['oversized-payload', 'passed', 413],
+      ['timeout', 'passed', 504],
+    ]);
+    expect(report).toMatchObject({ passed: true, passedCount: 5, failedCount: 0, skippedCount: 0 });
+    expect(report.endpoint).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/$/);
+    expect(agent.server).toBeUndefined();
+  });
+
+  it('should report agents that break the protocol', async () => {
+    const bodies: any[] = [];
+    const server: Server = createServer((req, res) => {
+      let text = '';
+      req.on('data', chunk => (text += chunk));
+      req.on('end', () => {
+        bodies.push(JSON.parse(text));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', result: 'done', error_message: '' }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+
+    try {
+      const report = await verifyAgentContract(`http://127.0.0.1:${port}/run`, fixtures, {
+        transport: 'fetch',
+        cases: ['minimal-input', 'wrong-environment-types'],
+        headers: { Authorization: 'Bearer agent-token' },
+      });
+
+      expect(report.passed).toBe(false);
+      expect(report.failedCount).toBe(2);
+      expect(report.results[0].messages).toEqual([
+        'status must be \'success\' or \'error\', got "ok"',
+        'output must be an object',
+      ]);
+      expect(bodies[1].config.environment).toEqual({ API_KEY: 12345, RETRIES: 'not-a-number' });
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should fail agents that accept invalid requests', async () => {
+    const agent = createAgentServer({ handler: async () => ({ ok: true }), maxBodySize: 1024 * 1024 });
+    await agent.listen(0, '127.0.0.1');
+
+    try {
+      const report = await verifyAgentContract(agent, {
+        input: {},
+        environmentSchema: { TOKEN: { type: 'string', description: 'Token', required: true } },
+        payloadSize: 2048,
+      });
+
+      expect(report.results.map(result => result.status)).toEqual(['passed', 'failed', 'failed', 'failed', 'passed']);
+      expect(report.results[1].messages).toEqual([
+        "Expected status 'error' when a required environment variable is missing, got 'success'",
+      ]);
+      expect(agent.server).toBeDefined();
+    } finally {
+      await agent.close();
+    }
+  });
+
+  it('should skip environment cases without a schema and fail on network errors', async () => {
+    const report = await verifyAgentContract('http://127.0.0.1:1/', { input: {} }, { requestTimeout: 1000 });
+
+    expect(report.results.map(result => result.status)).toEqual(['failed', 'skipped', 'skipped', 'failed', 'failed']);
+    expect(report.results[0].messages[0]).toMatch(/^Request failed: /);
+    expect(report.results[1].messages).toEqual(['No required environment field in environmentSchema']);
+  });
+
+  it('should validate fixtures and cases', async () => {
+    await expect(verifyAgentContract('http://127.0.0.1:1/', {} as any)).rejects.toThrow(ValidationError);
+    await expect(verifyAgentContract('http://127.0.0.1:1/', { input: {} }, { cases: ['nope' as any] }))
+      .rejects.toThrow('Unknown contract cases: nope');
+  });
+});
+
+describe('formatAgentContractReport', () => {
+  it('should format a text report', () => {
+    const report = formatAgentContractReport({
+      endpoint: 'http://localhost:8080/',
+      passed: false,
+      passedCount: 1,
+      failedCount: 1,
+      skippedCount: 1,
+      results: [
+        { case: 'minimal-input', status: 'passed', messages: [], http_status: 200, duration: 5 },
+        { case: 'timeout', status: 'failed', messages: ['Expected status \'error\''], http_status: 200, duration: 90 },
+        { case: 'wrong-environment-types', status: 'skipped', messages: ['No environmentSchema fixture'], duration: 0 },
+      ],
+    });
+
+    expect(report.split('\n')).toEqual([
+      'http://localhost:8080/',
+      '  PASS  minimal-input            HTTP 200',
+      '  FAIL  timeout                  HTTP 200',
+      '        Expected status \'error\'',
+      '  SKIP  wrong-environment-types',
+      '        No environmentSchema fixture',
+      '',
+      'Failed: 1 passed, 1 failed, 1 skipped',
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for flow diffs
+ */
+
+import { diffFlows, diffText, formatFlowDiff } from '../diff';
+import { Flow } from '../types';
+
+const v1: Flow = {
+  flow_id: 'support',
+  name: 'Support',
+  description: 'Answer tickets',
+  version: 1,
+  entry_point: 'input',
+  exit_points: ['reply'],
+  nodes: [
+    { id: 'input', type: 'input' },
+    {
+      id: 'triage',
+      type: 'processor',
+      agent_id: 'triage_agent',
+      depends_on: ['input'],
+      config: {
+        system_prompt: 'You triage tickets.\nBe brief.\nUse English.',
+        timeout: 30000,
+        environment: { api_key: 'secret-1' },
+      },
+    },
+    { id: 'legacy', type: 'processor', agent_id: 'legacy_agent', depends_on: ['triage'] },
+    { id: 'reply', type: 'output', depends_on: ['legacy'] },
+  ],
+};
+
+const v2: Flow = {
+  ...v1,
+  description: 'Answer and route tickets',
+  version: 2,
+  exit_points: ['reply', 'escalate'],
+  nodes: [
+    { id: 'input', type: 'input' },
+    {
+      id: 'triage',
+      type: 'processor',
+      agent_id: 'triage_agent_v2',
+      depends_on: ['input'],
+      config: {
+        system_prompt: 'You triage tickets.\nBe kind.\nUse English.',
+        timeout: 60000,
+        environment: { api_key: 'secret-2' },
+      },
+    },
+    { id: 'reply', type: 'output', depends_on: ['triage'] },
+    { id: 'escalate', type: 'output', depends_on: ['triage'] },
+  ],
+};
+
+describe('diffFlows', () => {
+  it('should report node, edge, config and exit point changes', () => {
+    const diff = diffFlows(v1, v2);
+
+    expect(diff.changed).toBe(true);
+    expect(diff.from).toEqual({ flow_id: 'support', version: 1 });
+    expect(diff.to).toEqual({ flow_id: 'support', version: 2 });
+    expect(diff.fields).toEqual([
+      { path: 'description', before: 'Answer tickets', after: 'Answer and route tickets' },
+    ]);
+    expect(diff.nodesAdded.map(node => node.id)).toEqual(['escalate']);
+    expect(diff.nodesRemoved.map(node => node.id)).toEqual(['legacy']);
+    expect(diff.edgesAdded).toEqual([{ from: 'triage', to: 'reply' }, { from: 'triage', to: 'escalate' }]);
+    expect(diff.edgesRemoved).toEqual([{ from: 'triage', to: 'legacy' }, { from: 'legacy', to: 'reply' }]);
+    expect(diff.exitPointsAdded).toEqual(['escalate']);
+    expect(diff.exitPointsRemoved).toEqual([]);
+    expect(diff.entryPoint).toBeUndefined();
+
+    expect(diff.nodesModified).toEqual([{
+      id: 'triage',
+      changes: [
+        { path: 'agent_id', before: 'triage_agent', after: 'triage_agent_v2' },
+        { path: 'config.timeout', before: 30000, after: 60000 },
+        { path: 'config.environment.api_key', before: '***', after: '***' },
+      ],
+      systemPrompt: [
+        { type: 'unchanged', text: 'You triage tickets.' },
+        { type: 'removed', text: 'Be brief.' },
+        { type: 'added', text: 'Be kind.' },
+        { type: 'unchanged', text: 'Use English.' },
+      ],
+    }]);
+  });
+
+  it('should ignore node order and empty fields', () => {
+    const reordered: Flow = {
+      ...v1,
+      metadata: {},
+      nodes: [...v1.nodes].reverse().map(node => ({ ...node, depends_on: node.depends_on || [] })),
+    };
+
+    const diff = diffFlows(v1, reordered);
+
+    expect(diff.changed).toBe(false);
+    expect(formatFlowDiff(diff)).toBe('Flow support@v1 -> support@v1\nNo changes');
+  });
+
+  it('should report entry point changes', () => {
+    const diff = diffFlows(v1, { ...v1, entry_point: 'triage' });
+
+    expect(diff.entryPoint).toEqual({ before: 'input', after: 'triage' });
+  });
+
+  it('should mask the environment of added and removed nodes', () => {
+    const withoutTriage = { ...v1, nodes: v1.nodes.filter(node => node.id !== 'triage') };
+
+    expect(diffFlows(withoutTriage, v1).nodesAdded[0].config).toEqual({ ...v1.nodes[1].config, environment: { api_key: '***' } });
+    expect(diffFlows(v1, withoutTriage).nodesRemoved[0].config!.environment).toEqual({ api_key: '***' });
+    expect(v1.nodes[1].config!.environment).toEqual({ api_key: 'secret-1' });
+  });
+});
+
+describe('diffText', () => {
+  it('should produce a minimal line diff', () => {
+    expect(diffText('a\nb\nc', 'a\nc\nd')).toEqual([
+      { type: 'unchanged', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'unchanged', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+    expect(diffText('', 'new')).toEqual([{ type: 'added', text: 'new' }]);
+  });
+});
+
+describe('formatFlowDiff', () => {
+  it('should render text', () => {
+    const text = formatFlowDiff(diffFlows(v1, v2));
+
+    expect(text).toContain('Flow support@v1 -> support@v2');
+    expect(text).toContain('Exit points: +escalate');
+    expect(text).toContain('  + escalate (output)');
+    expect(text).toContain('  - legacy (processor, legacy_agent)');
+    expect(text).toContain('      config.timeout: 30000 -> 60000');
+    expect(text).toContain('        - Be brief.\n        + Be kind.');
+    expect(text).toContain('  - legacy -> reply');
+    expect(text).not.toContain('secret');
+  });
+
+  it('should render markdown for pull requests', () => {
+    const markdown = formatFlowDiff(diffFlows(v1, v2), 'markdown');
+
+    expect(markdown).toContain('### Flow `support@v1` → `support@v2`');
+    expect(markdown).toContain('| added | `escalate` | output |  |');
+    expect(markdown).toContain('| removed | `legacy` | processor | `legacy_agent` |');
+    expect(markdown).toContain('- added `triage` → `escalate`');
+    expect(markdown).toContain('#### Changes to `triage`');
+    expect(markdown).toContain('```diff\n You triage tickets.\n-Be brief.\n+Be kind.\n Use English.\n```');
+    expect(markdown).not.toContain('secret');
+  });
+
+  it('should escape backticks in markdown', () => {
+    const diff = diffFlows(v1, {
+      ...v2,
+      description: 'Use `tickets`',
+      nodes: v2.nodes.map(node => node.id === 'triage'
+        ? { ...node, config: { ...node.config, system_prompt: 'Reply in:\n```json\n{}\n```' } }
+        : node),
+    });
+    const markdown = formatFlowDiff(diff, 'markdown');
+
+    expect(markdown).toContain('**description:** `"Answer tickets"` → ``"Use `tickets`"``');
+    expect(markdown).toContain('````diff\n-You triage tickets.');
+    expect(markdown).toContain('+```\n````');
+  });
+});
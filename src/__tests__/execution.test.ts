@@ -0,0 +1,213 @@
+/**
+ * Tests for ExecutionHandle
+ */
+
+import { AISpine } from '../spine';
+import { ExecutionHandle } from '../execution';
+import { ExecutionError, ValidationError } from '../errors';
+import { ExecutionContext, NodeTransitionEvent, Transport, TransportRequest } from '../types';
+import { execution, node, notFound, ok } from './helpers';
+
+const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+
+describe('ExecutionHandle', () => {
+  let transport: jest.Mocked<Transport>;
+  let spine: AISpine;
+  let snapshots: ExecutionContext[];
+
+  beforeEach(() => {
+    snapshots = [];
+    transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        if (request.url === '/api/v1/flows/execute') {
+          return ok({ execution_id: 'exec-1', status: 'pending', message: 'Queued' });
+        }
+        if (request.url === '/api/v1/executions/exec-1/cancel') {
+          return ok(execution('cancelled', [node('input', 'completed'), node('process', 'cancelled')]));
+        }
+        if (request.url === '/api/v1/executions/exec-1/stream') {
+          throw notFound();
+        }
+        if (request.url === '/api/v1/executions/exec-1') {
+          return ok(snapshots.length > 1 ? snapshots.shift() : snapshots[0]);
+        }
+        if (request.url === '/api/v1/flows/my-flow') {
+          return ok({
+            flow_id: 'my-flow',
+            name: 'My flow',
+            description: '',
+            nodes: [
+              { id: 'input', type: 'input' },
+              { id: 'research', type: 'processor', depends_on: ['input'] },
+              { id: 'summarize', type: 'processor', depends_on: ['research'] },
+              { id: 'translate', type: 'processor', depends_on: ['summarize'] },
+              { id: 'output', type: 'output', depends_on: ['translate'] },
+            ],
+          });
+        }
+        throw new Error(`Unexpected request ${request.method} ${request.url}`);
+      }),
+    } as any;
+    spine = new AISpine({ apiKey: validApiKey, transport });
+  });
+
+  it('should be returned by executeFlow and keep the ExecutionResponse fields', async () => {
+    const handle = await spine.executeFlow('my-flow', { text: 'hi' });
+
+    expect(handle).toBeInstanceOf(ExecutionHandle);
+    expect(handle.execution_id).toBe('exec-1');
+    expect(handle.status).toBe('pending');
+    expect(handle.message).toBe('Queued');
+    expect(handle.flow_id).toBe('my-flow');
+  });
+
+  it('should refresh and wait through the executions endpoint', async () => {
+    snapshots = [
+      execution('running', [node('input', 'running')]),
+      execution('completed', [node('input', 'completed')], { output_data: { answer: 42 } }),
+    ];
+    const handle = await spine.executeFlow('my-flow', {});
+
+    await expect(handle.refresh()).resolves.toMatchObject({ status: 'running' });
+    expect(handle.status).toBe('running');
+
+    const result = await handle.wait({ interval: 1 });
+    expect(result.status).toBe('completed');
+    expect(handle.execution).toBe(result);
+  });
+
+  it('should return typed output once completed', async () => {
+    snapshots = [execution('completed', [], { output_data: { answer: 42 } })];
+    const handle = await spine.executeFlow('my-flow', {});
+
+    const output = await handle.output<{ answer: number }>({ interval: 1 });
+    expect(output.answer).toBe(42);
+  });
+
+  it('should throw ExecutionError from output() when the execution failed', async () => {
+    snapshots = [execution('failed', [], { error_message: 'Agent crashed' })];
+    const handle = await spine.executeFlow('my-flow', {});
+
+    const error = await handle.output().catch(e => e);
+    expect(error).toBeInstanceOf(ExecutionError);
+    expect(error.message).toBe('Agent crashed');
+    expect(error.executionId).toBe('exec-1');
+  });
+
+  it('should list node results', async () => {
+    snapshots = [execution('running', [node('input', 'completed'), node('process', 'running')])];
+    const handle = await spine.executeFlow('my-flow', {});
+
+    const nodes = await handle.nodes();
+    expect(nodes.map(n => n.node_id)).toEqual(['input', 'process']);
+  });
+
+  it('should cancel the execution', async () => {
+    const handle = await spine.executeFlow('my-flow', {});
+
+    await handle.cancel();
+
+    expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'POST',
+      url: '/api/v1/executions/exec-1/cancel',
+    }));
+    expect(handle.status).toBe('cancelled');
+    await expect(handle.output()).rejects.toThrow('Execution exec-1 cancelled');
+  });
+
+  it('should emit node events while listeners are registered', async () => {
+    snapshots = [
+      execution('running', [node('input', 'running')]),
+      execution('running', [node('input', 'completed'), node('process', 'failed')]),
+      execution('failed', [node('input', 'completed'), node('process', 'failed')]),
+    ];
+    const handle = await spine.executeFlow('my-flow', {});
+    const completed: string[] = [];
+    const started: string[] = [];
+
+    let offFailed!: () => void;
+    const finished = new Promise<NodeTransitionEvent>(resolve => { offFailed = handle.on('node.failed', resolve); });
+    const offCompleted = handle.on('node.completed', ({ node }) => completed.push(node.node_id));
+    const offStarted = handle.on('node.started', ({ node }) => started.push(node.node_id));
+
+    const failed = await finished;
+    offFailed();
+    offCompleted();
+    offStarted();
+
+    expect(failed.node.node_id).toBe('process');
+    expect(started).toEqual(['input']);
+    expect(completed).toEqual(['input']);
+  });
+
+  describe('rerun', () => {
+    const executeBody = () => transport.request.mock.calls
+      .map(([request]) => request)
+      .find(request => request.url === '/api/v1/flows/execute' && request.data?.metadata?.rerun_of)!.data;
+
+    beforeEach(() => {
+      snapshots = [execution('failed', [
+        node('input', 'completed'),
+        node('research', 'completed'),
+        node('summarize', 'completed'),
+        node('translate', 'failed'),
+      ], { input_data: { topic: 'ai', tone: 'casual' } })];
+    });
+
+    it('should reuse completed node results and the stored input', async () => {
+      const rerun = await spine.rerunExecution('exec-1');
+
+      expect(rerun).toBeInstanceOf(ExecutionHandle);
+      expect(rerun.flow_id).toBe('my-flow');
+      const body = executeBody();
+      expect(body.flow_id).toBe('my-flow');
+      expect(body.input_data).toEqual({ topic: 'ai', tone: 'casual' });
+      expect(Object.keys(body.node_results)).toEqual(['input', 'research', 'summarize']);
+      expect(body.metadata).toEqual({ rerun_of: 'exec-1' });
+    });
+
+    it('should run fromNode and its downstream nodes again with input overrides', async () => {
+      const handle = await spine.executeFlow('my-flow', {});
+      await handle.rerun({ fromNode: 'summarize', inputOverrides: { tone: 'formal' } });
+
+      const body = executeBody();
+      expect(body.input_data).toEqual({ topic: 'ai', tone: 'formal' });
+      expect(Object.keys(body.node_results)).toEqual(['input', 'research']);
+      expect(body.metadata).toEqual({ rerun_of: 'exec-1', from_node: 'summarize' });
+    });
+
+    it('should reject unknown nodes', async () => {
+      await expect(spine.rerunExecution('exec-1', { fromNode: 'missing' })).rejects.toThrow(ValidationError);
+    });
+
+    it('should refuse to re-run an execution that is still running', async () => {
+      snapshots = [execution('running')];
+      await expect(spine.rerunExecution('exec-1')).rejects.toBeInstanceOf(ExecutionError);
+    });
+  });
+
+  it('should round-trip through toJSON and fromJSON', async () => {
+    snapshots = [execution('completed', [], { output_data: { answer: 42 } })];
+    const handle = await spine.executeFlow('my-flow', {});
+
+    const serialized = JSON.stringify(handle);
+    expect(JSON.parse(serialized)).toEqual({
+      execution_id: 'exec-1',
+      flow_id: 'my-flow',
+      status: 'pending',
+      message: 'Queued',
+    });
+
+    const resumed = ExecutionHandle.fromJSON(spine, serialized);
+    expect(resumed.execution_id).toBe('exec-1');
+    await expect(resumed.output({ interval: 1 })).resolves.toEqual({ answer: 42 });
+  });
+
+  it('should reject invalid serialized handles', () => {
+    expect(() => ExecutionHandle.fromJSON(spine, { execution_id: '', status: 'pending' }))
+      .toThrow(ValidationError);
+    expect(() => ExecutionHandle.fromJSON(spine, '{"execution_id": "exec-1"'))
+      .toThrow(ValidationError);
+    expect(() => ExecutionHandle.fromJSON(spine, 'null')).toThrow('missing or invalid execution_id');
+  });
+});
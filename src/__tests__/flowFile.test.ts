@@ -0,0 +1,265 @@
+/**
+ * Tests for flow import/export
+ */
+
+import { AISpine } from '../spine';
+import { ValidationError } from '../errors';
+import { FLOW_FILE_FORMAT, parseFlowFile, serializeFlowFile, toFlowFile } from '../flowFile';
+import { parseYaml, stringifyYaml } from '../yaml';
+import { Flow, Transport, TransportRequest } from '../types';
+import { notFound, ok } from './helpers';
+
+const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+
+const bookingFlow: Flow = {
+  flow_id: 'restaurant-booking',
+  name: 'Restaurant Booking',
+  description: 'Find and book a table',
+  nodes: [
+    { id: 'input', type: 'input' },
+    {
+      id: 'book',
+      type: 'processor',
+      agent_id: 'booking_agent',
+      depends_on: ['input'],
+      config: {
+        system_prompt: 'You book tables.\nAlways confirm the time: 7pm or later.\n',
+        timeout: 30000,
+        max_turns: 5,
+        environment: {
+          opentable_api_key: 'ot_live_secret',
+          default_city: 'Mexico City',
+          max_party_size: 8,
+        },
+      },
+    },
+    { id: 'output', type: 'output', depends_on: ['book'] },
+  ],
+  entry_point: 'input',
+  exit_points: ['output'],
+  metadata: { owner: 'growth-team', tags: ['booking', 'beta'] },
+  version: 3,
+  created_at: '2025-01-15T10:00:00Z',
+  is_active: true,
+};
+
+const bookingSchema = {
+  opentable_api_key: { type: 'password', description: 'OpenTable key', required: true },
+  default_city: { type: 'string', description: 'City', required: false },
+  max_party_size: { type: 'number', description: 'Party size', required: false },
+};
+
+describe('YAML subset', () => {
+  it('should round-trip nested mappings, sequences and multi-line strings', () => {
+    const value = {
+      name: 'Flow: "quoted"',
+      count: 3,
+      enabled: false,
+      empty: [],
+      none: null,
+      numeric_string: '42',
+      prompt: 'line one\n  indented line\n\nlast line',
+      items: [{ id: 'a', tags: ['x', 'y z'] }, { id: 'b', nested: { deep: true } }, 'plain'],
+    };
+
+    expect(parseYaml(stringifyYaml(value))).toEqual(value);
+  });
+
+  it('should read hand-written YAML with comments, flow collections and block scalars', () => {
+    const text = [
+      '# A hand-written file',
+      'flow_id: demo   # trailing comment',
+      "title: 'It''s here'",
+      'tags: [a, "b, c"]',
+      'config: { timeout: 100, retry: true }',
+      'nodes:',
+      '- id: first',
+      '  depends_on:',
+      '  - zero',
+      'folded: >',
+      '  one',
+      '  two',
+      '',
+      '  three',
+      'literal: |-',
+      '  keep',
+      '    this',
+    ].join('\n');
+
+    expect(parseYaml(text)).toEqual({
+      flow_id: 'demo',
+      title: 'It\'s here',
+      tags: ['a', 'b, c'],
+      config: { timeout: 100, retry: true },
+      nodes: [{ id: 'first', depends_on: ['zero'] }],
+      folded: 'one two\nthree\n',
+      literal: 'keep\n  this',
+    });
+  });
+
+  it('should report the line of a syntax error', () => {
+    expect(() => parseYaml('a: 1\n  b: 2')).toThrow('Invalid YAML at line 2');
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('duplicate key "a"');
+    expect(() => parseYaml('a: *anchor')).toThrow(ValidationError);
+  });
+});
+
+describe('flow files', () => {
+  it('should drop server-managed fields and reference unknown environment values', () => {
+    const file = toFlowFile(bookingFlow);
+
+    expect(file).not.toHaveProperty('version');
+    expect(file).not.toHaveProperty('created_at');
+    expect(file.format).toBe(FLOW_FILE_FORMAT);
+    expect(file.nodes[1].config!.environment).toEqual({
+      opentable_api_key: '${BOOK_OPENTABLE_API_KEY}',
+      default_city: '${BOOK_DEFAULT_CITY}',
+      max_party_size: '${BOOK_MAX_PARTY_SIZE}',
+    });
+  });
+
+  it('should namespace references by node so shared keys never collide', () => {
+    const file = toFlowFile({
+      ...bookingFlow,
+      nodes: [
+        { id: 'search', type: 'processor', config: { environment: { api_key: 'sk-search' } } },
+        { id: 'book', type: 'processor', config: { environment: { api_key: 'sk-book', 'api-key': 'sk-other' } } },
+        { id: 'notify', type: 'output', config: { environment: { token: '${BOOK_API_KEY}' } } },
+      ],
+    });
+
+    expect(file.nodes.map(node => node.config!.environment)).toEqual([
+      { api_key: '${SEARCH_API_KEY}' },
+      { api_key: '${BOOK_API_KEY_2}', 'api-key': '${BOOK_API_KEY_3}' },
+      { token: '${BOOK_API_KEY}' },
+    ]);
+  });
+
+  it('should parse both serialized formats back to the same file', () => {
+    const file = toFlowFile(bookingFlow, { booking_agent: bookingSchema as any });
+
+    expect(parseFlowFile(serializeFlowFile(file, 'yaml'))).toEqual(file);
+    expect(parseFlowFile(serializeFlowFile(file, 'json'))).toEqual(file);
+  });
+
+  it.each([
+    ['an indented first line', '  indented first line\nsecond'],
+    ['a blank first line', '\n  indented after a blank line'],
+    ['two trailing newlines', 'a\n\n'],
+    ['three trailing newlines', 'a\n\n\n'],
+    ['only a newline', '\n'],
+  ])('should round-trip a system prompt with %s through YAML', (_, prompt) => {
+    const [input, book, output] = bookingFlow.nodes;
+    const flow = { ...bookingFlow, nodes: [input, { ...book, config: { system_prompt: prompt } }, output] };
+    const file = toFlowFile(flow, { booking_agent: bookingSchema as any });
+
+    expect(parseFlowFile(serializeFlowFile(file, 'yaml'))).toEqual(file);
+    expect(file.nodes[1].config?.system_prompt).toBe(prompt);
+  });
+
+  it('should reject files without the format marker or required fields', () => {
+    const error = (() => {
+      try {
+        parseFlowFile('flow_id: demo\nnodes: []\n');
+      } catch (e) {
+        return e as ValidationError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error!.validationErrors.map(e => e.field)).toEqual(['format', 'name', 'description']);
+  });
+});
+
+describe('exportFlow and importFlow', () => {
+  let transport: jest.Mocked<Transport>;
+  let spine: AISpine;
+  let existing: boolean;
+
+  beforeEach(() => {
+    existing = true;
+    transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        if (request.url === '/api/v1/flows/restaurant-booking' && request.method === 'GET') {
+          if (!existing) {
+            throw notFound('Flow not found');
+          }
+          return ok(bookingFlow);
+        }
+        if (request.url === '/api/v1/agents/booking_agent') {
+          return ok({ agent_id: 'booking_agent', environment_schema: bookingSchema });
+        }
+        return ok({ ...request.data, flow_id: 'restaurant-booking' });
+      }),
+    } as any;
+    spine = new AISpine({ apiKey: validApiKey, supabaseToken: 'supabase-token', transport, retries: 0 });
+  });
+
+  it('should export YAML with secrets as references', async () => {
+    const yaml = await spine.exportFlow('restaurant-booking');
+
+    expect(yaml).toContain('format: ai-spine-flow/v1\n');
+    expect(yaml).toContain('opentable_api_key: "${BOOK_OPENTABLE_API_KEY}"');
+    expect(yaml).toContain('default_city: Mexico City');
+    expect(yaml).toContain('max_party_size: 8');
+    expect(yaml).toContain('system_prompt: |\n        You book tables.\n');
+    expect(yaml).not.toContain('ot_live_secret');
+  });
+
+  it('should reference every value when the agent schema is unavailable', async () => {
+    transport.request.mockImplementation(async (request: TransportRequest) => {
+      if (request.url.startsWith('/api/v1/agents/')) {
+        throw notFound('Flow not found');
+      }
+      return ok(bookingFlow);
+    });
+
+    const json = JSON.parse(await spine.exportFlow('restaurant-booking', 'json'));
+
+    expect(json.nodes[1].config.environment).toEqual({
+      opentable_api_key: '${BOOK_OPENTABLE_API_KEY}',
+      default_city: '${BOOK_DEFAULT_CITY}',
+      max_party_size: '${BOOK_MAX_PARTY_SIZE}',
+    });
+  });
+
+  it('should update an existing flow with resolved references', async () => {
+    const yaml = await spine.exportFlow('restaurant-booking');
+    transport.request.mockClear();
+
+    await spine.importFlow(yaml, { env: { BOOK_OPENTABLE_API_KEY: 'ot_from_env' } });
+
+    const update = transport.request.mock.calls.find(([request]) => request.method === 'PUT')![0];
+    expect(update.url).toBe('/api/v1/flows/restaurant-booking');
+    expect(update.headers!['Authorization']).toBe('Bearer supabase-token');
+    expect(update.data.nodes[1].config.environment).toEqual({
+      opentable_api_key: 'ot_from_env',
+      default_city: 'Mexico City',
+      max_party_size: 8,
+    });
+    expect(update.data).not.toHaveProperty('flow_id');
+  });
+
+  it('should create the flow when it does not exist', async () => {
+    existing = false;
+    const file = toFlowFile(bookingFlow, { booking_agent: bookingSchema as any });
+
+    await spine.importFlow(file, { env: { BOOK_OPENTABLE_API_KEY: 'ot_from_env' } });
+
+    const create = transport.request.mock.calls.find(([request]) => request.method === 'POST')![0];
+    expect(create.url).toBe('/api/v1/flows');
+    expect(create.data).toMatchObject({ flow_id: 'restaurant-booking', entry_point: 'input' });
+  });
+
+  it('should list missing references before calling the API', async () => {
+    const yaml = await spine.exportFlow('restaurant-booking');
+    transport.request.mockClear();
+
+    await expect(spine.importFlow(yaml, { env: {} })).rejects.toMatchObject({
+      validationErrors: [
+        expect.objectContaining({ field: 'nodes[1].config.environment.opentable_api_key', value: 'BOOK_OPENTABLE_API_KEY' }),
+      ],
+    });
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+});
@@ -158,6 +158,26 @@ describe('Flow CRUD Operations', () => {
         entry_point: 'input'
       })).rejects.toThrow('flow_id, name, nodes, and entry_point are required');
     });
+
+    it('should reject invalid flow graphs before sending them', async () => {
+      const error = await spine.createFlow({
+        flow_id: 'test',
+        name: 'Test',
+        description: 'Test',
+        nodes: [
+          { id: 'input', type: 'input' },
+          { id: 'processor', type: 'processor', depends_on: ['input', 'missing'] },
+        ],
+        entry_point: 'input',
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toBe('Flow definition validation failed');
+      expect(error.validationErrors).toEqual([
+        expect.objectContaining({ field: 'nodes[1].depends_on[1]', code: 'missing_node' }),
+      ]);
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
   });
 
   describe('getMyFlows', () => {
@@ -238,6 +258,16 @@ describe('Flow CRUD Operations', () => {
   });
 
   describe('updateFlow', () => {
+    it('should validate updated nodes', async () => {
+      await expect(spine.updateFlow('test-flow', {
+        nodes: [
+          { id: 'a', type: 'processor', depends_on: ['b'] },
+          { id: 'b', type: 'processor', depends_on: ['a'] },
+        ],
+      })).rejects.toThrow('Flow definition validation failed');
+      expect(mockClient.put).not.toHaveBeenCalled();
+    });
+
     it('should update an existing flow', async () => {
       const updates = {
         name: 'Updated Flow Name',
@@ -0,0 +1,52 @@
+/**
+ * Shared test helpers
+ */
+
+import { TransportError } from '../transport';
+import { ExecutionContext, NodeExecutionResult, TransportResponse } from '../types';
+
+/**
+ * Successful transport response with the given body
+ */
+export function ok<T>(data: T): TransportResponse<T> {
+  return { data, status: 200, statusText: 'OK', headers: {} };
+}
+
+/**
+ * Transport failure for a 404 response
+ */
+export function notFound(message = 'Not found'): TransportError {
+  return new TransportError('Request failed with status code 404', 'ERR_BAD_RESPONSE', {
+    data: { message },
+    status: 404,
+    statusText: 'Not Found',
+    headers: {},
+  });
+}
+
+/**
+ * Result of a node in execution exec-1
+ */
+export function node(nodeId: string, status: NodeExecutionResult['status']): NodeExecutionResult {
+  return { node_id: nodeId, execution_id: 'exec-1', status, input_data: {}, started_at: '2025-01-15T10:00:00Z' };
+}
+
+/**
+ * Execution exec-1 of my-flow with the given node results
+ */
+export function execution(
+  status: ExecutionContext['status'],
+  nodes: NodeExecutionResult[] = [],
+  extra: Partial<ExecutionContext> = {}
+): ExecutionContext {
+  return {
+    execution_id: 'exec-1',
+    flow_id: 'my-flow',
+    status,
+    input_data: {},
+    node_results: Object.fromEntries(nodes.map(n => [n.node_id, n])),
+    started_at: '2025-01-15T10:00:00Z',
+    created_at: '2025-01-15T10:00:00Z',
+    ...extra,
+  };
+}
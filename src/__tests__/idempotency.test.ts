@@ -0,0 +1,209 @@
+/**
+ * Tests for idempotency keys and the in-process idempotency cache
+ */
+
+import { AISpine } from '../spine';
+import { IdempotencyCache } from '../idempotency';
+import { TransportError } from '../transport';
+import { generateIdempotencyKey } from '../utils';
+import { ServerError } from '../errors';
+import { Transport } from '../types';
+
+describe('IdempotencyCache', () => {
+  it('should share the first result for the same key', async () => {
+    const cache = new IdempotencyCache();
+    const fn = jest.fn().mockResolvedValue('first');
+
+    await expect(cache.run('key', fn)).resolves.toBe('first');
+    await expect(cache.run('key', jest.fn().mockResolvedValue('second'))).resolves.toBe('first');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share in-flight requests', async () => {
+    const cache = new IdempotencyCache();
+    let resolve!: (value: string) => void;
+    const fn = jest.fn(() => new Promise<string>(r => { resolve = r; }));
+
+    const first = cache.run('key', fn);
+    const second = cache.run('key', fn);
+    resolve('done');
+
+    await expect(Promise.all([first, second])).resolves.toEqual(['done', 'done']);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run again for callers sharing a request the first caller aborted', async () => {
+    const cache = new IdempotencyCache();
+    const controller = new AbortController();
+    const aborted = jest.fn(() => new Promise<string>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+
+    const first = cache.run('key', aborted, controller.signal);
+    const second = cache.run('key', () => Promise.resolve('second'));
+    controller.abort();
+
+    await expect(first).rejects.toThrow('aborted');
+    await expect(second).resolves.toBe('second');
+    await expect(cache.run('key', () => Promise.resolve('third'))).resolves.toBe('second');
+    expect(aborted).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not share a request that was aborted before it settled', async () => {
+    const cache = new IdempotencyCache();
+    const controller = new AbortController();
+
+    void cache.run('key', () => new Promise(() => undefined), controller.signal);
+    controller.abort();
+
+    await expect(cache.run('key', () => Promise.resolve('fresh'))).resolves.toBe('fresh');
+  });
+
+  it('should evict failed requests so they can be retried', async () => {
+    const cache = new IdempotencyCache();
+
+    await expect(cache.run('key', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(cache.has('key')).toBe(false);
+    await expect(cache.run('key', () => Promise.resolve('ok'))).resolves.toBe('ok');
+  });
+
+  it('should expire entries after the ttl', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    try {
+      const cache = new IdempotencyCache({ ttl: 100 });
+      await cache.run('key', () => Promise.resolve('first'));
+
+      now.mockReturnValue(1101);
+      await expect(cache.run('key', () => Promise.resolve('second'))).resolves.toBe('second');
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('should cap the number of entries', async () => {
+    const cache = new IdempotencyCache({ maxEntries: 2 });
+    await cache.run('a', () => Promise.resolve(1));
+    await cache.run('b', () => Promise.resolve(2));
+    await cache.run('c', () => Promise.resolve(3));
+
+    expect(cache.size).toBe(2);
+    expect(cache.has('a')).toBe(false);
+  });
+});
+
+describe('generateIdempotencyKey', () => {
+  it('should generate unique UUIDs', () => {
+    const key = generateIdempotencyKey();
+    expect(key).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(generateIdempotencyKey()).not.toBe(key);
+  });
+});
+
+describe('Idempotency keys on AISpine methods', () => {
+  const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+  let transport: jest.Mocked<Transport>;
+  let spine: AISpine;
+
+  beforeEach(() => {
+    transport = {
+      request: jest.fn().mockResolvedValue({
+        data: { execution_id: 'exec-1', status: 'pending' },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      }),
+    } as any;
+    spine = new AISpine({
+      apiKey: validApiKey,
+      supabaseToken: 'test-supabase-token',
+      transport,
+      retryPolicy: { baseDelay: 0 },
+    });
+  });
+
+  function sentHeaders(call: number = 0): Record<string, string> {
+    return transport.request.mock.calls[call][0].headers;
+  }
+
+  it('should send the idempotency key header for executeFlow', async () => {
+    await spine.executeFlow('my-flow', { text: 'hi' }, { idempotencyKey: 'job-42' });
+    expect(sentHeaders()['Idempotency-Key']).toBe('job-42');
+  });
+
+  it('should auto-generate a key and reuse it across retries', async () => {
+    const failure = new TransportError('Request failed with status code 503', 'ERR_BAD_RESPONSE', {
+      data: {},
+      status: 503,
+      statusText: 'Service Unavailable',
+      headers: {},
+    });
+    transport.request.mockRejectedValueOnce(failure).mockRejectedValueOnce(failure);
+
+    await spine.executeFlow('my-flow', { text: 'hi' }, { idempotencyKey: true });
+
+    expect(transport.request).toHaveBeenCalledTimes(3);
+    const key = sentHeaders(0)['Idempotency-Key'];
+    expect(key).toBeTruthy();
+    expect(sentHeaders(1)['Idempotency-Key']).toBe(key);
+    expect(sentHeaders(2)['Idempotency-Key']).toBe(key);
+  });
+
+  it('should return the first result when the same key is submitted again', async () => {
+    const first = await spine.executeFlow('my-flow', { text: 'hi' }, { idempotencyKey: 'job-42' });
+    const second = await spine.executeFlow('my-flow', { text: 'hi' }, { idempotencyKey: 'job-42' });
+
+    expect(second).toEqual(first);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send the request again after the cache is cleared', async () => {
+    await spine.executeFlow('my-flow', { text: 'hi' }, { idempotencyKey: 'job-42' });
+    spine.clearIdempotencyCache();
+    await spine.executeFlow('my-flow', { text: 'hi' }, { idempotencyKey: 'job-42' });
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache failed submissions', async () => {
+    transport.request.mockRejectedValueOnce(new TransportError('Request failed with status code 500', 'ERR_BAD_RESPONSE', {
+      data: {},
+      status: 500,
+      statusText: 'Internal Server Error',
+      headers: {},
+    }));
+
+    await expect(spine.executeFlow('my-flow', {}, { idempotencyKey: 'job-1', retries: 0 }))
+      .rejects.toBeInstanceOf(ServerError);
+    await expect(spine.executeFlow('my-flow', {}, { idempotencyKey: 'job-1' })).resolves.toBeDefined();
+  });
+
+  it('should support idempotency keys on createFlow and registerAgent', async () => {
+    await spine.createFlow({
+      flow_id: 'my-flow',
+      name: 'My Flow',
+      description: 'Test',
+      nodes: [{ id: 'input', type: 'input' }],
+      entry_point: 'input',
+    }, { idempotencyKey: 'create-my-flow' });
+    expect(sentHeaders(0)['Idempotency-Key']).toBe('create-my-flow');
+    expect(sentHeaders(0)['Authorization']).toBe('Bearer test-supabase-token');
+
+    await spine.registerAgent({
+      agent_id: 'my-agent',
+      name: 'My Agent',
+      description: 'Test',
+      endpoint: 'https://agent.example.com',
+      capabilities: ['conversation'],
+    }, { idempotencyKey: 'register-my-agent' });
+    expect(sentHeaders(1)['Idempotency-Key']).toBe('register-my-agent');
+  });
+
+  it('should allow disabling the cache', async () => {
+    spine = new AISpine({ apiKey: validApiKey, transport, idempotencyCache: false });
+
+    await spine.executeFlow('my-flow', {}, { idempotencyKey: 'job-42' });
+    await spine.executeFlow('my-flow', {}, { idempotencyKey: 'job-42' });
+
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+});
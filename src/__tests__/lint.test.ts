@@ -0,0 +1,176 @@
+/**
+ * Tests for the flow linter
+ */
+
+import { lintFlow, formatFlowLintReport } from '../lint';
+import { ValidationError } from '../errors';
+import { Flow, FlowLintOptions } from '../types';
+
+const flow: Flow = {
+  flow_id: 'support',
+  name: 'Support',
+  description: 'Answer tickets',
+  entry_point: 'input',
+  exit_points: ['output'],
+  metadata: { timeout: 60000 },
+  nodes: [
+    { id: 'input', type: 'input' },
+    {
+      id: 'chat',
+      type: 'processor',
+      agent_id: 'chat_agent',
+      depends_on: ['input'],
+      config: {
+        system_prompt: 'You are a helpful assistant',
+        timeout: 120000,
+        environment: { API_KEY: 'sk-live-123', MODEL: 'gpt-4o', MAX_TOKENS: 500, TOKEN: '${TOKEN}' },
+      },
+    },
+    { id: 'triage', type: 'processor', agent_id: 'triage_agent', depends_on: ['input'] },
+    {
+      id: 'reply',
+      type: 'processor',
+      agent_id: 'reply_agent',
+      depends_on: ['chat'],
+      config: { system_prompt: ' You are a helpful assistant ' },
+    },
+    { id: 'output', type: 'output', depends_on: ['reply'] },
+  ],
+};
+
+const agents: FlowLintOptions['agents'] = [
+  { agent_id: 'chat_agent', capabilities: ['conversation'] },
+  { agent_id: 'reply_agent', capabilities: ['conversation'], environment_schema: {} },
+];
+
+describe('lintFlow', () => {
+  it('should report problems in node order with default severities', () => {
+    const result = lintFlow(flow, {}, { agents });
+
+    expect(result.messages.map(({ node_id, rule, severity }) => [node_id, rule, severity])).toEqual([
+      ['chat', 'timeout-budget', 'error'],
+      ['chat', 'conversation-max-turns', 'warning'],
+      ['chat', 'no-hardcoded-secrets', 'error'],
+      ['triage', 'processor-system-prompt', 'warning'],
+      ['triage', 'unused-agent', 'warning'],
+      ['reply', 'conversation-max-turns', 'warning'],
+      ['reply', 'duplicate-prompt', 'warning'],
+    ]);
+    expect(result.messages[0]).toEqual({
+      rule: 'timeout-budget',
+      severity: 'error',
+      message: 'Node timeout of 2m exceeds the flow budget of 1m',
+      node_id: 'chat',
+      path: 'nodes.chat.config.timeout',
+      fixable: true,
+    });
+    expect(result.messages[2].message).toBe('Hardcoded secret in environment.API_KEY; use a ${CHAT_API_KEY} reference');
+    expect(result.messages[6].message).toBe('Same system_prompt as node chat');
+    expect(result).toMatchObject({ flow_id: 'support', errorCount: 2, warningCount: 5, fixableCount: 4 });
+    expect(result.output).toBeUndefined();
+  });
+
+  it('should apply rule settings and options', () => {
+    const result = lintFlow(flow, {
+      'processor-system-prompt': 'off',
+      'unused-agent': 'error',
+      'timeout-budget': ['warning', { budget: 300000 }],
+      'no-hardcoded-secrets': ['error', { pattern: /model/i }],
+    });
+
+    expect(result.messages.map(({ rule, severity }) => [rule, severity])).toEqual([
+      ['no-hardcoded-secrets', 'error'],
+      ['unused-agent', 'error'],
+      ['duplicate-prompt', 'warning'],
+    ]);
+    expect(result.messages[0].path).toBe('nodes.chat.config.environment.MODEL');
+  });
+
+  it('should use agent environment schemas to find secrets', () => {
+    const result = lintFlow(flow, { 'no-hardcoded-secrets': 'error' }, {
+      agents: [{
+        agent_id: 'chat_agent',
+        capabilities: [],
+        environment_schema: {
+          API_KEY: { type: 'string', description: 'Public key', required: true },
+          MODEL: { type: 'string', description: 'Model', required: true, sensitive: true },
+        },
+      }],
+    });
+
+    expect(result.messages.filter(message => message.rule === 'no-hardcoded-secrets').map(message => message.path))
+      .toEqual(['nodes.chat.config.environment.MODEL']);
+  });
+
+  it('should fix what it can and leave the input untouched', () => {
+    const result = lintFlow(flow, { 'conversation-max-turns': ['warning', { maxTurns: 5 }] }, { agents, fix: true });
+
+    expect(result.messages.map(message => message.rule)).toEqual([
+      'processor-system-prompt',
+      'unused-agent',
+      'duplicate-prompt',
+    ]);
+    expect(result.fixableCount).toBe(0);
+    expect(result.output!.nodes[1].config).toMatchObject({
+      timeout: 60000,
+      max_turns: 5,
+      environment: { API_KEY: '${CHAT_API_KEY}', MODEL: 'gpt-4o', MAX_TOKENS: 500, TOKEN: '${TOKEN}' },
+    });
+    expect(result.output!.nodes[3].config!.max_turns).toBe(5);
+    expect(flow.nodes[1].config!.timeout).toBe(120000);
+  });
+
+  it('should fix secrets of nodes sharing a key with distinct references', () => {
+    const result = lintFlow({
+      ...flow,
+      nodes: [
+        { id: 'search', type: 'processor', config: { environment: { api_key: 'sk-search' } } },
+        { id: 'book', type: 'processor', config: { environment: { api_key: 'sk-book', 'api-key': 'sk-other' } } },
+      ],
+    }, { 'no-hardcoded-secrets': 'error' }, { fix: true });
+
+    expect(result.output!.nodes.map(node => node.config!.environment)).toEqual([
+      { api_key: '${SEARCH_API_KEY}' },
+      { api_key: '${BOOK_API_KEY}', 'api-key': '${BOOK_API_KEY_2}' },
+    ]);
+  });
+
+  it('should reject unknown rules and severities', () => {
+    expect(() => lintFlow(flow, { 'no-such-rule': 'error' } as any)).toThrow(ValidationError);
+    expect(() => lintFlow(flow, { 'unused-agent': 'fatal' as any })).toThrow(ValidationError);
+  });
+});
+
+describe('formatFlowLintReport', () => {
+  it('should format a text report', () => {
+    const report = formatFlowLintReport(lintFlow(flow, { 'conversation-max-turns': 'off', 'duplicate-prompt': 'off' }));
+
+    expect(report.split('\n')).toEqual([
+      'support',
+      '  chat    error    Node timeout of 2m exceeds the flow budget of 1m  timeout-budget',
+      '  chat    error    Hardcoded secret in environment.API_KEY; use a ${CHAT_API_KEY} reference  no-hardcoded-secrets',
+      '  triage  warning  Processor node has no system_prompt  processor-system-prompt',
+      '  triage  warning  Output of agent triage_agent is never used: no node depends on it and it is not an exit point  unused-agent',
+      '',
+      '4 problems (2 errors, 2 warnings)',
+      '2 problems fixable with `fix: true`',
+    ]);
+    expect(formatFlowLintReport([])).toBe('No problems found');
+  });
+
+  it('should format a JSON report without fixed flows', () => {
+    const result = lintFlow(flow, {}, { fix: true });
+    const report = JSON.parse(formatFlowLintReport([result, result], 'json'));
+
+    expect(report.errorCount).toBe(result.errorCount * 2);
+    expect(report.warningCount).toBe(result.warningCount * 2);
+    expect(report.fixableCount).toBe(0);
+    expect(report.results[0]).toEqual({
+      flow_id: 'support',
+      messages: result.messages,
+      errorCount: result.errorCount,
+      warningCount: result.warningCount,
+      fixableCount: 0,
+    });
+  });
+});
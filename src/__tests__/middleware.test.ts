@@ -0,0 +1,112 @@
+/**
+ * Tests for the request/response middleware pipeline
+ */
+
+import { AISpineClient } from '../client';
+import { AISpine } from '../spine';
+import { TransportError } from '../transport';
+import { NotFoundError, AISpineError } from '../errors';
+import { Transport, TransportResponse } from '../types';
+
+describe('Middleware', () => {
+  const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+  const okResponse: TransportResponse = { data: { ok: true }, status: 200, statusText: 'OK', headers: {} };
+  let transport: jest.Mocked<Transport>;
+  let client: AISpineClient;
+
+  beforeEach(() => {
+    transport = { request: jest.fn().mockResolvedValue(okResponse) } as any;
+    client = new AISpineClient({ apiKey: validApiKey, transport });
+  });
+
+  it('should let middleware rewrite outgoing requests', async () => {
+    client.use(async (request, next) => {
+      request.headers['X-Tenant-Id'] = 'tenant-123';
+      return next({ ...request, url: `${request.url}?traced=1` });
+    });
+
+    await client.get('/api/v1/flows');
+
+    expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+      url: '/api/v1/flows?traced=1',
+      headers: expect.objectContaining({ 'X-Tenant-Id': 'tenant-123' }),
+    }));
+  });
+
+  it('should run middleware in registration order', async () => {
+    const calls: string[] = [];
+    client.use(async (request, next) => {
+      calls.push('first:before');
+      const response = await next(request);
+      calls.push('first:after');
+      return response;
+    });
+    client.use(async (request, next) => {
+      calls.push('second:before');
+      const response = await next(request);
+      calls.push('second:after');
+      return response;
+    });
+
+    await client.get('/health');
+
+    expect(calls).toEqual(['first:before', 'second:before', 'second:after', 'first:after']);
+  });
+
+  it('should let middleware short-circuit with a synthetic response', async () => {
+    client.use(async () => ({ data: { stubbed: true }, status: 200, statusText: 'OK', headers: {} }));
+
+    const response = await client.get('/api/v1/flows');
+
+    expect(response.data).toEqual({ stubbed: true });
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+
+  it('should expose mapped AISpineErrors to middleware', async () => {
+    transport.request.mockRejectedValue(new TransportError('Request failed with status code 404', 'ERR_BAD_RESPONSE', {
+      data: {},
+      status: 404,
+      statusText: 'Not Found',
+      headers: {},
+    }));
+    const seen: unknown[] = [];
+    client.use(async (request, next) => {
+      try {
+        return await next(request);
+      } catch (error) {
+        seen.push(error);
+        throw error;
+      }
+    });
+
+    await expect(client.get('/api/v1/flows/missing')).rejects.toBeInstanceOf(NotFoundError);
+    expect(seen[0]).toBeInstanceOf(NotFoundError);
+  });
+
+  it('should wrap errors thrown by middleware in AISpineError', async () => {
+    client.use(async () => {
+      throw new Error('boom');
+    });
+
+    await expect(client.get('/health', undefined, { retries: 0 })).rejects.toBeInstanceOf(AISpineError);
+  });
+
+  it('should remove middleware with the returned function', async () => {
+    const middleware = jest.fn((request, next) => next(request));
+    const remove = client.use(middleware);
+    remove();
+
+    await client.get('/health');
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  it('should be available on the AISpine class', async () => {
+    const spine = new AISpine({ apiKey: validApiKey, transport });
+    spine.use(async () => ({ data: [{ flow_id: 'stub' }], status: 200, statusText: 'OK', headers: {} }));
+
+    const flows = await spine.listFlows();
+
+    expect(flows).toEqual([{ flow_id: 'stub' }]);
+  });
+});
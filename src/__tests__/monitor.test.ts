@@ -0,0 +1,173 @@
+/**
+ * Tests for the agent health monitor
+ */
+
+import { AISpine } from '../spine';
+import { AgentMonitor } from '../monitor';
+import { NotFoundError, ValidationError } from '../errors';
+import { AgentMonitorEvent, TransportRequest } from '../types';
+import { TransportError } from '../transport';
+import { ok } from './helpers';
+
+describe('AgentMonitor', () => {
+  let transport: any;
+  let spine: AISpine;
+  let agentStatus: Record<string, string>;
+  let connected: Record<string, boolean>;
+  let delays: Record<string, number>;
+  let events: AgentMonitorEvent[];
+
+  const endpointOf = (agentId: string) => `https://agents.example.com/${agentId}`;
+
+  beforeEach(() => {
+    agentStatus = { sentiment_agent: 'active', booking_agent: 'active' };
+    connected = { sentiment_agent: true, booking_agent: true };
+    delays = {};
+    events = [];
+    transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        if (request.url === '/api/v1/agents/test') {
+          const agentId = request.data.endpoint.split('/').pop();
+          await new Promise(resolve => setTimeout(resolve, delays[agentId] || 0));
+          return ok(connected[agentId] ? { connected: true } : { connected: false, message: 'Connection refused' });
+        }
+        const agentId = request.url.split('/').pop()!;
+        if (!agentStatus[agentId]) {
+          throw new TransportError('Request failed with status code 404', 'ERR_BAD_REQUEST', {
+            data: { message: 'Agent not found' }, status: 404, statusText: 'Not Found', headers: {},
+          });
+        }
+        return ok({ agent_id: agentId, endpoint: endpointOf(agentId), status: agentStatus[agentId] });
+      }),
+    };
+    spine = new AISpine({ apiKey: 'sk_test_1234567890abcdef1234567890abcdef', transport, retries: 0 });
+  });
+
+  const createMonitor = (options = {}) => {
+    const monitor = spine.monitorAgents(['sentiment_agent', 'booking_agent'], { degradedLatency: 40, ...options });
+    monitor.on('*', event => {
+      events.push(event);
+    });
+    return monitor;
+  };
+
+  it('should check agents and their endpoints', async () => {
+    const monitor = createMonitor();
+
+    const checks = await monitor.check();
+
+    expect(checks).toEqual([
+      { agent_id: 'sentiment_agent', timestamp: expect.any(String), available: true, latency: expect.any(Number), agent_status: 'active' },
+      { agent_id: 'booking_agent', timestamp: expect.any(String), available: true, latency: expect.any(Number), agent_status: 'active' },
+    ]);
+    const test = transport.request.mock.calls.find(([request]: [TransportRequest]) => request.url === '/api/v1/agents/test');
+    expect(test[0].data).toEqual({ endpoint: endpointOf('sentiment_agent') });
+    expect(monitor.getState('sentiment_agent')).toBe('up');
+    expect(events).toEqual([]);
+  });
+
+  it('should emit down, degraded and recovered events on state changes', async () => {
+    const monitor = createMonitor();
+    await monitor.check();
+
+    connected.sentiment_agent = false;
+    agentStatus.booking_agent = 'error';
+    await monitor.check();
+    expect(events.map(({ event, agent_id, previous, current }) => [event, agent_id, previous, current])).toEqual([
+      ['agent.down', 'sentiment_agent', 'up', 'down'],
+      ['agent.down', 'booking_agent', 'up', 'down'],
+    ]);
+    expect(events[0].check.message).toBe('Connection refused');
+    expect(events[1].check).toMatchObject({ available: false, agent_status: 'error', message: 'Agent status is error' });
+
+    events = [];
+    connected.sentiment_agent = true;
+    delays.sentiment_agent = 60;
+    agentStatus.booking_agent = 'active';
+    await monitor.check();
+    expect(events.map(({ event, agent_id, current }) => [event, agent_id, current])).toEqual([
+      ['agent.recovered', 'sentiment_agent', 'degraded'],
+      ['agent.degraded', 'sentiment_agent', 'degraded'],
+      ['agent.recovered', 'booking_agent', 'up'],
+    ]);
+
+    events = [];
+    delays.sentiment_agent = 0;
+    await monitor.check();
+    await monitor.check();
+    expect(events.map(({ event, previous }) => [event, previous])).toEqual([['agent.recovered', 'degraded']]);
+  });
+
+  it('should wait for failureThreshold consecutive failures', async () => {
+    const monitor = createMonitor({ failureThreshold: 2, probe: 'agent' });
+    delete agentStatus.booking_agent;
+
+    await monitor.check();
+    expect(monitor.getState('booking_agent')).toBe('unknown');
+    expect(monitor.getHistory('booking_agent')[0]).toMatchObject({ available: false, message: expect.stringContaining('404') });
+
+    await monitor.check();
+    expect(monitor.getState('booking_agent')).toBe('down');
+    expect(events.map(event => event.event)).toEqual(['agent.down']);
+    expect(transport.request.mock.calls.some(([request]: [TransportRequest]) => request.url === '/api/v1/agents/test'))
+      .toBe(false);
+  });
+
+  it('should summarize uptime and latency over the history', async () => {
+    const monitor = createMonitor({ historySize: 3 });
+    expect(monitor.getUptime('sentiment_agent')).toEqual({ agent_id: 'sentiment_agent', state: 'unknown', checks: 0, uptime: 0 });
+
+    await monitor.check();
+    connected.sentiment_agent = false;
+    await monitor.check();
+    await monitor.check();
+    connected.sentiment_agent = true;
+    await monitor.check();
+
+    const uptime = monitor.getUptime('sentiment_agent');
+    expect(uptime).toMatchObject({ agent_id: 'sentiment_agent', state: 'up', checks: 3, uptime: 1 / 3 });
+    expect(uptime.average_latency).toEqual(expect.any(Number));
+    expect(uptime.last_available).toBe(uptime.last_check);
+    expect(uptime.since).toBe(uptime.last_check);
+    expect(monitor.getUptimeSummary().map(summary => [summary.agent_id, summary.uptime])).toEqual([
+      ['sentiment_agent', 1 / 3],
+      ['booking_agent', 1],
+    ]);
+  });
+
+  it('should check periodically until stopped', async () => {
+    const monitor = createMonitor({ interval: 10, probe: 'agent' });
+
+    monitor.start();
+    monitor.start();
+    expect(monitor.running).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    monitor.stop();
+
+    const checks = monitor.getHistory('sentiment_agent').length;
+    expect(checks).toBeGreaterThanOrEqual(2);
+    expect(monitor.running).toBe(false);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(monitor.getHistory('sentiment_agent')).toHaveLength(checks);
+  });
+
+  it('should add and remove agents and isolate handler errors', async () => {
+    const monitor = new AgentMonitor(spine, [], { probe: 'agent' });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const handler = jest.fn(() => {
+      throw new Error('handler failed');
+    });
+    monitor.on('agent.down', handler);
+
+    monitor.add('missing_agent');
+    await monitor.check();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+
+    monitor.off('agent.down', handler);
+    monitor.remove('missing_agent');
+    expect(() => monitor.getState('missing_agent')).toThrow(NotFoundError);
+    expect(() => monitor.add('not a valid id!')).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests for waitForExecution polling strategies
+ */
+
+import { AISpine } from '../spine';
+import {
+  exponentialPolling,
+  fixedPolling,
+  hasExecutionChanged,
+  nodeAwarePolling,
+  rateLimitedDelay,
+  resolvePollingStrategy,
+} from '../polling';
+import { TransportError } from '../transport';
+import { ExecutionContext, Flow, PollingContext, Transport, TransportRequest } from '../types';
+import { execution, node, ok } from './helpers';
+
+const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+
+const flow: Flow = {
+  flow_id: 'my-flow',
+  name: 'My flow',
+  description: '',
+  nodes: [
+    { id: 'fast', type: 'processor', config: { timeout: 20000 } },
+    { id: 'slow', type: 'processor', config: { timeout: 600000 } },
+    { id: 'unhinted', type: 'processor' },
+  ],
+};
+
+function context(overrides: Partial<PollingContext> = {}): PollingContext {
+  return { polls: 1, elapsed: 0, execution: execution('running'), changed: false, ...overrides };
+}
+
+describe('Polling strategies', () => {
+  it('should poll at a fixed interval', () => {
+    const strategy = fixedPolling(1500);
+    expect(strategy.nextDelay(context({ polls: 1 }))).toBe(1500);
+    expect(strategy.nextDelay(context({ polls: 10 }))).toBe(1500);
+  });
+
+  it('should back off exponentially up to the cap', () => {
+    const strategy = exponentialPolling({ interval: 500, factor: 2, maxInterval: 3000 });
+    expect([1, 2, 3, 4, 5].map(polls => strategy.nextDelay(context({ polls }))))
+      .toEqual([500, 1000, 2000, 3000, 3000]);
+  });
+
+  it('should use the timeout hints of running nodes', () => {
+    const strategy = nodeAwarePolling({ interval: 500, maxInterval: 10000 });
+    expect(strategy.needsFlow).toBe(true);
+
+    const running = (...ids: string[]) => execution('running', ids.map(id => node(id, 'running')));
+    expect(strategy.nextDelay(context({ flow, execution: running('fast') }))).toBe(2000);
+    expect(strategy.nextDelay(context({ flow, execution: running('slow') }))).toBe(10000);
+    expect(strategy.nextDelay(context({ flow, execution: running('fast', 'slow') }))).toBe(2000);
+    expect(strategy.nextDelay(context({ flow, execution: running('fast'), changed: true }))).toBe(500);
+  });
+
+  it('should fall back to exponential polling without hints', () => {
+    const strategy = nodeAwarePolling({ interval: 500 });
+    const running = execution('running', [node('unhinted', 'running')]);
+    expect(strategy.nextDelay(context({ flow, execution: running, polls: 3 }))).toBe(2000);
+    expect(strategy.nextDelay(context({ execution: running, polls: 1 }))).toBe(500);
+  });
+
+  it('should resolve strategies from options', () => {
+    const custom = { nextDelay: () => 42 };
+    expect(resolvePollingStrategy({ strategy: custom })).toBe(custom);
+    expect(resolvePollingStrategy().nextDelay(context())).toBe(2000);
+    expect(resolvePollingStrategy({ interval: 100 }).nextDelay(context())).toBe(100);
+    expect(resolvePollingStrategy({ strategy: 'exponential', interval: 100 }).nextDelay(context({ polls: 3 }))).toBe(400);
+  });
+
+  it('should back off rate limited checks within the max interval and remaining time', () => {
+    const strategy = exponentialPolling({ interval: 100, maxInterval: 3000 });
+    expect(rateLimitedDelay(undefined, 1000, strategy, 60000)).toBe(2000);
+    expect(rateLimitedDelay(undefined, 2000, strategy, 60000)).toBe(3000);
+    expect(rateLimitedDelay(30, 1000, strategy, 60000)).toBe(3000);
+    expect(rateLimitedDelay(30, 1000, { nextDelay: () => 1 }, 500)).toBe(500);
+    expect(rateLimitedDelay(1, 1000, fixedPolling(2000), -10)).toBe(0);
+  });
+
+  it('should detect execution and node status changes', () => {
+    const before = execution('running', [node('a', 'running')]);
+    expect(hasExecutionChanged(undefined, before)).toBe(true);
+    expect(hasExecutionChanged(before, execution('running', [node('a', 'running')]))).toBe(false);
+    expect(hasExecutionChanged(before, execution('running', [node('a', 'completed')]))).toBe(true);
+    expect(hasExecutionChanged(before, execution('running', [node('a', 'running'), node('b', 'pending')]))).toBe(true);
+    expect(hasExecutionChanged(before, execution('completed', [node('a', 'running')]))).toBe(true);
+  });
+});
+
+describe('waitForExecution polling', () => {
+  let transport: jest.Mocked<Transport>;
+  let responses: Array<ExecutionContext | TransportError>;
+
+  const executionCalls = () => transport.request.mock.calls
+    .filter(([request]) => request.url === '/api/v1/executions/exec-1');
+
+  beforeEach(() => {
+    responses = [];
+    transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        if (request.url === '/api/v1/flows/my-flow') {
+          return ok(flow);
+        }
+        const next = responses.length > 1 ? responses.shift()! : responses[0];
+        if (next instanceof TransportError) {
+          throw next;
+        }
+        return ok(next);
+      }),
+    } as any;
+  });
+
+  it('should use the polling strategy from AISpineConfig', async () => {
+    const strategy = { nextDelay: jest.fn(() => 1) };
+    const spine = new AISpine({ apiKey: validApiKey, transport, polling: { strategy } });
+    responses = [
+      execution('running', [node('a', 'running')]),
+      execution('running', [node('a', 'running')]),
+      execution('running', [node('a', 'completed')]),
+      execution('completed', [node('a', 'completed')]),
+    ];
+
+    await spine.waitForExecution('exec-1');
+
+    expect(strategy.nextDelay.mock.calls.map(([ctx]) => [ctx.polls, ctx.changed]))
+      .toEqual([[1, true], [2, false], [3, true]]);
+  });
+
+  it('should let per-call options override the global strategy', async () => {
+    const global = { nextDelay: jest.fn(() => 1) };
+    const perCall = { nextDelay: jest.fn(() => 1) };
+    const spine = new AISpine({ apiKey: validApiKey, transport, polling: { strategy: global } });
+    responses = [execution('running'), execution('completed')];
+
+    await spine.waitForExecution('exec-1', { polling: { strategy: perCall } });
+
+    expect(perCall.nextDelay).toHaveBeenCalledTimes(1);
+    expect(global.nextDelay).not.toHaveBeenCalled();
+  });
+
+  it('should load the flow once for node-aware strategies', async () => {
+    const nextDelay = jest.fn((_context: PollingContext) => 1);
+    const spine = new AISpine({ apiKey: validApiKey, transport, polling: { strategy: { needsFlow: true, nextDelay } } });
+    responses = [execution('running'), execution('running'), execution('completed')];
+
+    await spine.waitForExecution('exec-1');
+
+    const flowCalls = transport.request.mock.calls.filter(([request]) => request.url === '/api/v1/flows/my-flow');
+    expect(flowCalls).toHaveLength(1);
+    expect(nextDelay.mock.calls[1][0].flow).toEqual(flow);
+  });
+
+  it('should wait for retryAfter when status checks are rate limited', async () => {
+    const spine = new AISpine({ apiKey: validApiKey, transport, retries: 0 });
+    responses = [
+      new TransportError('Request failed with status code 429', 'ERR_BAD_RESPONSE', {
+        data: { message: 'Too many requests', retry_after: 0.05 },
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: {},
+      }),
+      execution('completed'),
+    ];
+
+    const start = Date.now();
+    await expect(spine.waitForExecution('exec-1', { interval: 100 })).resolves.toMatchObject({ status: 'completed' });
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    expect(executionCalls()).toHaveLength(2);
+  });
+
+  it('should cap rate limit waits at the max interval and the remaining timeout', async () => {
+    const spine = new AISpine({ apiKey: validApiKey, transport, retries: 0 });
+    const rateLimited = () => new TransportError('Request failed with status code 429', 'ERR_BAD_RESPONSE', {
+      data: { message: 'Too many requests', retry_after: 600 },
+      status: 429,
+      statusText: 'Too Many Requests',
+      headers: {},
+    });
+    responses = [rateLimited(), execution('completed')];
+
+    const start = Date.now();
+    await expect(spine.waitForExecution('exec-1', { polling: { strategy: 'exponential', interval: 1, maxInterval: 20 } }))
+      .resolves.toMatchObject({ status: 'completed' });
+    expect(Date.now() - start).toBeLessThan(1000);
+
+    responses = [rateLimited()];
+    const error = await spine.waitForExecution('exec-1', { timeout: 50, polling: { strategy: { nextDelay: () => 1 } } })
+      .catch(e => e);
+    expect(error.code).toBe('EXECUTION_TIMEOUT');
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should report the poll count when timing out', async () => {
+    const spine = new AISpine({ apiKey: validApiKey, transport });
+    responses = [execution('running')];
+
+    const error = await spine.waitForExecution('exec-1', { timeout: 50, interval: 20 }).catch(e => e);
+
+    expect(error.code).toBe('EXECUTION_TIMEOUT');
+    expect(error.details.polls).toBe(executionCalls().length);
+    expect(error.details.polls).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for flow preflight checks
+ */
+
+import { AISpine } from '../spine';
+import { ValidationError } from '../errors';
+import { Agent, Flow, TransportRequest } from '../types';
+import { notFound, ok } from './helpers';
+
+const flow: Flow = {
+  flow_id: 'booking',
+  name: 'Booking',
+  description: 'Book a table',
+  nodes: [
+    { id: 'input', type: 'input' },
+    {
+      id: 'search',
+      type: 'processor',
+      agent_id: 'restaurant_agent',
+      depends_on: ['input'],
+      config: { environment: { partner_id: 'p-1', max_results: '10' } },
+    },
+    { id: 'book', type: 'processor', agent_id: 'restaurant_agent', depends_on: ['search'] },
+    { id: 'notify', type: 'output', agent_id: 'sms_agent', depends_on: ['book'] },
+  ],
+};
+
+const agents: Record<string, Partial<Agent>> = {
+  restaurant_agent: {
+    agent_id: 'restaurant_agent',
+    environment_schema: {
+      api_key: { type: 'password', description: 'API key', required: true },
+      partner_id: { type: 'string', description: 'Partner', required: true },
+      max_results: { type: 'number', description: 'Results', required: false, default_value: 5 },
+    },
+  },
+};
+
+describe('preflightFlow', () => {
+  let transport: any;
+  let spine: AISpine;
+
+  beforeEach(() => {
+    transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        if (request.url === '/api/v1/flows/booking') {
+          return ok(flow);
+        }
+        if (request.url === '/api/v1/flows/execute') {
+          return ok({ execution_id: 'exec-1', status: 'pending' });
+        }
+        const agent = agents[request.url.split('/').pop()!];
+        if (!agent) {
+          throw notFound('Agent not found');
+        }
+        return ok(agent);
+      }),
+    };
+    spine = new AISpine({ apiKey: 'sk_test_1234567890abcdef1234567890abcdef', transport, retries: 0 });
+  });
+
+  const urls = () => transport.request.mock.calls.map(([request]: [TransportRequest]) => request.url);
+
+  it('should report missing and mistyped variables per node', async () => {
+    const result = await spine.preflightFlow('booking');
+
+    expect(result.flow_id).toBe('booking');
+    expect(result.valid).toBe(false);
+    expect(result.nodes.map(node => [node.node_id, node.errors.map(error => error.message)])).toEqual([
+      ['search', ['api_key is required', 'max_results must be a number']],
+      ['book', ['api_key is required', 'partner_id is required']],
+      ['notify', ['Agent sms_agent not found']],
+    ]);
+    expect(result.nodes[2].errors[0]).toEqual({
+      field: 'agent_id',
+      message: 'Agent sms_agent not found',
+      code: 'invalid_value',
+      value: 'sms_agent',
+    });
+    expect(urls().filter((url: string) => url === '/api/v1/agents/restaurant_agent')).toHaveLength(1);
+  });
+
+  it('should merge schema defaults, node environment and overrides', async () => {
+    agents.sms_agent = { agent_id: 'sms_agent' };
+    try {
+      const result = await spine.preflightFlow('booking', {
+        environment: { api_key: 'sk-live' },
+        nodes: { search: { max_results: 20 }, book: { partner_id: 'p-2' } },
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.nodes.map(node => node.valid)).toEqual([true, true, true]);
+    } finally {
+      delete agents.sms_agent;
+    }
+  });
+
+  it('should run before executeFlow with preflight: true', async () => {
+    const error = await spine.executeFlow('booking', { party: 2 }, { preflight: true }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Preflight check failed for flow booking');
+    expect(error.validationErrors.map((item: any) => item.field)).toEqual([
+      'nodes.search.config.environment.api_key',
+      'nodes.search.config.environment.max_results',
+      'nodes.book.config.environment.api_key',
+      'nodes.book.config.environment.partner_id',
+      'nodes.notify.agent_id',
+    ]);
+    expect(error.details.preflight.valid).toBe(false);
+    expect(urls()).not.toContain('/api/v1/flows/execute');
+  });
+
+  it('should execute once the preflight passes, without forwarding the option', async () => {
+    const restaurantAgent = agents.restaurant_agent;
+    agents.restaurant_agent = { agent_id: 'restaurant_agent' };
+    agents.sms_agent = { agent_id: 'sms_agent' };
+    try {
+      const execution = await spine.executeFlow('booking', { party: 2 }, {
+        preflight: true,
+        idempotencyKey: 'booking-1',
+      });
+
+      expect(execution.execution_id).toBe('exec-1');
+      const requests = transport.request.mock.calls.map(([request]: [TransportRequest]) => request);
+      expect(requests.filter((request: TransportRequest) => request.headers['Idempotency-Key'])
+        .map((request: TransportRequest) => request.url)).toEqual(['/api/v1/flows/execute']);
+      expect(requests[requests.length - 1].data).toEqual({ flow_id: 'booking', input_data: { party: 2 } });
+    } finally {
+      agents.restaurant_agent = restaurantAgent;
+      delete agents.sms_agent;
+    }
+
+    transport.request.mockClear();
+    await spine.executeFlow('booking', { party: 2 });
+    expect(urls()).toEqual(['/api/v1/flows/execute']);
+  });
+
+  it('should reject preflight overrides that would never reach the execution', async () => {
+    const error = await spine.executeFlow('booking', { party: 2 }, {
+      preflight: { environment: { api_key: 'k' } },
+    } as any).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.validationErrors).toEqual([expect.objectContaining({ field: 'preflight', code: 'invalid_type' })]);
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+});
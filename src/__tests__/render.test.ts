@@ -0,0 +1,89 @@
+/**
+ * Tests for flow diagrams
+ */
+
+import { renderFlow } from '../render';
+import { ValidationError } from '../errors';
+import { ExecutionContext, Flow } from '../types';
+
+const flow: Flow = {
+  flow_id: 'support',
+  name: 'Support',
+  description: 'Answer tickets',
+  entry_point: 'input',
+  exit_points: ['end'],
+  nodes: [
+    { id: 'input', type: 'input' },
+    { id: 'triage', type: 'processor', agent_id: 'triage_agent', depends_on: ['input'] },
+    { id: 'say "hi"', type: 'processor', agent_id: 'greeter', depends_on: ['input'] },
+    { id: 'end', type: 'output', depends_on: ['triage', 'say "hi"'] },
+  ],
+};
+
+const execution: ExecutionContext = {
+  execution_id: 'exec-1',
+  flow_id: 'support',
+  status: 'failed',
+  input_data: {},
+  started_at: '2025-01-15T10:00:00Z',
+  created_at: '2025-01-15T10:00:00Z',
+  node_results: {
+    input: {
+      node_id: 'input', execution_id: 'exec-1', status: 'completed', input_data: {}, started_at: '2025-01-15T10:00:00Z', duration: 120,
+    },
+    triage: {
+      node_id: 'triage', execution_id: 'exec-1', status: 'failed', input_data: {},
+      started_at: '2025-01-15T10:00:00Z', completed_at: '2025-01-15T10:00:02.500Z',
+    },
+  },
+};
+
+describe('renderFlow', () => {
+  it('should render a Mermaid flowchart with typed shapes, edges and markers', () => {
+    const mermaid = renderFlow(flow);
+
+    expect(mermaid.split('\n').slice(0, 9)).toEqual([
+      'flowchart TB',
+      '  n0(["input"])',
+      '  n1["triage<br/>triage_agent"]',
+      '  n2["say #quot;hi#quot;<br/>greeter"]',
+      '  n3[["end"]]',
+      '  n0 --> n1',
+      '  n0 --> n2',
+      '  n1 --> n3',
+      '  n2 --> n3',
+    ]);
+    expect(mermaid).toContain('  class n0 input');
+    expect(mermaid).toContain('  class n1,n2 processor');
+    expect(mermaid).toContain('  class n0 entry');
+    expect(mermaid).toContain('  class n3 exit');
+    expect(mermaid).toContain('  classDef output fill:#ede7f6,stroke:#5e35b1');
+  });
+
+  it('should color Mermaid nodes by execution status and show durations', () => {
+    const mermaid = renderFlow(flow, { execution, direction: 'LR' });
+
+    expect(mermaid).toMatch(/^flowchart LR/);
+    expect(mermaid).toContain('  n0(["input<br/>completed · 120ms"])');
+    expect(mermaid).toContain('  n1["triage<br/>triage_agent<br/>failed · 2s"]');
+    expect(mermaid).toContain('  class n0 completed');
+    expect(mermaid).toContain('  class n1 failed');
+    expect(mermaid).toContain('  class n2 processor');
+  });
+
+  it('should render a Graphviz DOT graph', () => {
+    const dot = renderFlow(flow, { format: 'dot', execution });
+
+    expect(dot).toMatch(/^digraph "support" \{\n {2}rankdir=TB;/);
+    expect(dot).toContain('  "input" [label="input\\ncompleted · 120ms", shape=oval, fillcolor="#e8f5e9", color="#2e7d32", style="filled", penwidth=3];');
+    expect(dot).toContain('  "triage" [label="triage\\ntriage_agent\\nfailed · 2s", shape=box, fillcolor="#ffebee", color="#c62828", style="filled,rounded"];');
+    expect(dot).toContain('  "say \\"hi\\"" [label="say \\"hi\\"\\ngreeter", shape=box');
+    expect(dot).toContain('peripheries=2];');
+    expect(dot).toContain('  "say \\"hi\\"" -> "end";');
+    expect(dot.endsWith('}')).toBe(true);
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => renderFlow(flow, { format: 'svg' as any })).toThrow(ValidationError);
+  });
+});
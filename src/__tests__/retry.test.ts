@@ -0,0 +1,210 @@
+/**
+ * Tests for the configurable retry policy
+ */
+
+import { AISpineClient } from '../client';
+import { TransportError } from '../transport';
+import {
+  computeRetryDelay,
+  isIdempotentRequest,
+  isRetryableError,
+  resolveRetryPolicy,
+} from '../retry';
+import {
+  AISpineError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+  createErrorFromResponse,
+} from '../errors';
+import { Transport } from '../types';
+
+function serverError(status: number = 503, headers: Record<string, string> = {}) {
+  return new TransportError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', {
+    data: {},
+    status,
+    statusText: 'Error',
+    headers,
+  });
+}
+
+describe('Retry policy helpers', () => {
+  describe('isRetryableError', () => {
+    it('should retry network, timeout, rate limit and server errors', () => {
+      expect(isRetryableError(new NetworkError())).toBe(true);
+      expect(isRetryableError(new RateLimitError())).toBe(true);
+      expect(isRetryableError(new ServerError('down', 503))).toBe(true);
+      expect(isRetryableError(new AISpineError('timeout', 'TIMEOUT_ERROR', 408))).toBe(true);
+    });
+
+    it('should not retry client errors', () => {
+      expect(isRetryableError(new ValidationError('bad'))).toBe(false);
+      expect(isRetryableError(new AISpineError('conflict', 'UNKNOWN_ERROR', 409))).toBe(false);
+    });
+  });
+
+  describe('isIdempotentRequest', () => {
+    it('should treat GET, PUT and DELETE as idempotent by default', () => {
+      expect(isIdempotentRequest('GET')).toBe(true);
+      expect(isIdempotentRequest('PUT')).toBe(true);
+      expect(isIdempotentRequest('DELETE')).toBe(true);
+      expect(isIdempotentRequest('POST')).toBe(false);
+      expect(isIdempotentRequest('PATCH')).toBe(false);
+    });
+
+    it('should treat requests with an idempotency key as idempotent', () => {
+      expect(isIdempotentRequest('POST', { 'Idempotency-Key': 'key-1' })).toBe(true);
+      expect(isIdempotentRequest('POST', { 'idempotency-key': 'key-1' })).toBe(true);
+    });
+
+    it('should honor custom method rules', () => {
+      expect(isIdempotentRequest('POST', {}, { retryMethods: ['POST'] })).toBe(true);
+      expect(isIdempotentRequest('GET', {}, { retryMethods: [] })).toBe(false);
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    afterEach(() => {
+      jest.spyOn(Math, 'random').mockRestore();
+    });
+
+    it('should use capped exponential backoff without jitter', () => {
+      const policy = resolveRetryPolicy({ jitter: 'none', baseDelay: 100, maxDelay: 500 });
+      expect(computeRetryDelay(policy, 0, 0)).toBe(100);
+      expect(computeRetryDelay(policy, 2, 0)).toBe(400);
+      expect(computeRetryDelay(policy, 5, 0)).toBe(500);
+    });
+
+    it('should apply full jitter', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const policy = resolveRetryPolicy({ jitter: 'full', baseDelay: 100 });
+      expect(computeRetryDelay(policy, 2, 0)).toBe(200);
+    });
+
+    it('should apply decorrelated jitter based on the previous delay', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      const policy = resolveRetryPolicy({ jitter: 'decorrelated', baseDelay: 100, maxDelay: 10000 });
+      expect(computeRetryDelay(policy, 0, 0)).toBe(300);
+      expect(computeRetryDelay(policy, 1, 300)).toBe(900);
+      expect(computeRetryDelay(policy, 2, 9000)).toBe(10000);
+    });
+
+    it('should follow Retry-After for rate limit errors', () => {
+      const policy = resolveRetryPolicy({ jitter: 'none' });
+      expect(computeRetryDelay(policy, 0, 0, new RateLimitError('slow down', 7))).toBe(7000);
+
+      const ignoring = resolveRetryPolicy({ jitter: 'none', respectRetryAfter: false });
+      expect(computeRetryDelay(ignoring, 0, 0, new RateLimitError('slow down', 7))).toBe(1000);
+    });
+  });
+
+  it('should read Retry-After headers into RateLimitError', () => {
+    const error = createErrorFromResponse(429, {}, 'Too many requests', { 'retry-after': '12' });
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfter).toBe(12);
+  });
+});
+
+describe('AISpineClient retries', () => {
+  const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+  let transport: jest.Mocked<Transport>;
+
+  beforeEach(() => {
+    transport = { request: jest.fn() } as any;
+  });
+
+  function createClient(retryPolicy = {}) {
+    return new AISpineClient({
+      apiKey: validApiKey,
+      transport,
+      retries: 2,
+      retryPolicy: { baseDelay: 0, jitter: 'none', ...retryPolicy },
+    });
+  }
+
+  it('should retry idempotent requests on server errors', async () => {
+    transport.request
+      .mockRejectedValueOnce(serverError())
+      .mockResolvedValueOnce({ data: { ok: true }, status: 200, statusText: 'OK', headers: {} });
+
+    const response = await createClient().get('/health');
+
+    expect(response.data).toEqual({ ok: true });
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry POST requests without an idempotency key', async () => {
+    transport.request.mockRejectedValue(serverError());
+
+    await expect(createClient().post('/api/v1/flows/execute', {})).rejects.toBeInstanceOf(ServerError);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry POST requests that carry an idempotency key', async () => {
+    transport.request.mockRejectedValue(serverError());
+
+    await expect(createClient().post('/api/v1/flows/execute', {}, {
+      headers: { 'Idempotency-Key': 'key-1' },
+    })).rejects.toBeInstanceOf(ServerError);
+    expect(transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should use a custom retryable-error predicate', async () => {
+    transport.request.mockRejectedValue(serverError(502));
+    const retryOn = jest.fn().mockReturnValue(false);
+
+    await expect(createClient({ retryOn }).get('/health')).rejects.toBeInstanceOf(ServerError);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+    expect(retryOn).toHaveBeenCalledWith(expect.any(ServerError), expect.objectContaining({
+      attempt: 0,
+      method: 'GET',
+      url: '/health',
+      idempotent: true,
+    }));
+  });
+
+  it('should let per-request policies override the client policy', async () => {
+    transport.request.mockRejectedValue(serverError());
+
+    await expect(createClient().post('/api/v1/agents', {}, {
+      retryPolicy: { retryMethods: ['POST'] },
+    })).rejects.toBeInstanceOf(ServerError);
+    expect(transport.request).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop retrying once the elapsed time budget is spent', async () => {
+    transport.request.mockRejectedValue(serverError());
+    const client = createClient({ baseDelay: 1000, maxElapsedTime: 500 });
+
+    await expect(client.get('/health')).rejects.toBeInstanceOf(ServerError);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for Retry-After before retrying rate limited requests', async () => {
+    jest.useFakeTimers();
+    try {
+      transport.request
+        .mockRejectedValueOnce(serverError(429, { 'retry-after': '2' }))
+        .mockResolvedValueOnce({ data: { ok: true }, status: 200, statusText: 'OK', headers: {} });
+
+      const pending = createClient().get('/health');
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(transport.request).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(pending).resolves.toEqual(expect.objectContaining({ data: { ok: true } }));
+      expect(transport.request).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should disable retries when retries is 0', async () => {
+    transport.request.mockRejectedValue(serverError());
+    const client = new AISpineClient({ apiKey: validApiKey, transport, retries: 0 });
+
+    await expect(client.get('/health')).rejects.toBeInstanceOf(ServerError);
+    expect(transport.request).toHaveBeenCalledTimes(1);
+  });
+});
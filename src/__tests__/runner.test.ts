@@ -0,0 +1,159 @@
+/**
+ * Tests for LocalFlowRunner
+ */
+
+import { LocalFlowRunner } from '../runner';
+import { AbortError, ValidationError } from '../errors';
+import { Flow, LocalAgentHandler } from '../types';
+
+const flow: Flow = {
+  flow_id: 'sentiment',
+  name: 'Sentiment',
+  description: 'Analyze feedback',
+  entry_point: 'input',
+  exit_points: ['output'],
+  nodes: [
+    { id: 'input', type: 'input' },
+    { id: 'sentiment', type: 'processor', agent_id: 'sentiment_agent', depends_on: ['input'] },
+    { id: 'topics', type: 'processor', agent_id: 'topic_agent', depends_on: ['input'], config: { max_turns: 2 } },
+    { id: 'insights', type: 'processor', agent_id: 'insight_agent', depends_on: ['sentiment', 'topics'] },
+    { id: 'output', type: 'output', depends_on: ['insights'] },
+  ],
+};
+
+const agents: Record<string, LocalAgentHandler> = {
+  sentiment_agent: ({ input }) => ({ status: 'success', output: { sentiment: input.text.includes('great') ? 'positive' : 'negative' } }),
+  topic_agent: async () => ({ status: 'success', output: { topics: ['service'] } }),
+  insight_agent: ({ input }) => ({
+    status: 'success',
+    output: { summary: `${input.sentiment.sentiment} about ${input.topics.topics.join(', ')}` },
+  }),
+};
+
+describe('LocalFlowRunner', () => {
+  it('should run nodes in dependency order and build an ExecutionContext', async () => {
+    const execution = await new LocalFlowRunner(flow, agents).run({ text: 'great service' }, { metadata: { test: true } });
+
+    expect(execution).toMatchObject({
+      flow_id: 'sentiment',
+      status: 'completed',
+      input_data: { text: 'great service' },
+      output_data: { summary: 'positive about service' },
+      metadata: { test: true },
+    });
+    expect(execution.execution_id).toMatch(/^local-/);
+    expect(Object.keys(execution.node_results)).toEqual(
+      expect.arrayContaining(['input', 'sentiment', 'topics', 'insights', 'output'])
+    );
+    expect(execution.node_results.insights).toEqual({
+      node_id: 'insights',
+      execution_id: execution.execution_id,
+      status: 'completed',
+      input_data: { sentiment: { sentiment: 'positive' }, topics: { topics: ['service'] } },
+      output_data: { summary: 'positive about service' },
+      started_at: expect.any(String),
+      completed_at: expect.any(String),
+      duration: expect.any(Number),
+    });
+  });
+
+  it('should pass node config and execution metadata to handlers', async () => {
+    const topicAgent = jest.fn(agents.topic_agent);
+
+    await new LocalFlowRunner(flow, { ...agents, topic_agent: topicAgent }).run({ text: 'great' });
+
+    const [request, context] = topicAgent.mock.calls[0];
+    expect(request).toEqual({
+      input: { text: 'great' },
+      config: { max_turns: 2 },
+      metadata: { execution_id: context.execution_id, flow_id: 'sentiment', node_id: 'topics' },
+    });
+    expect(context.node.id).toBe('topics');
+  });
+
+  it('should run independent branches concurrently', async () => {
+    const events: string[] = [];
+    const slow = (name: string): LocalAgentHandler => async () => {
+      events.push(`${name}:start`);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      events.push(`${name}:end`);
+      return { status: 'success', output: { sentiment: name, topics: [name] } };
+    };
+
+    await new LocalFlowRunner(flow, { ...agents, sentiment_agent: slow('sentiment'), topic_agent: slow('topics') }).run({ text: '' });
+
+    expect(events.slice(0, 2)).toEqual(['sentiment:start', 'topics:start']);
+  });
+
+  it('should fail the execution and skip downstream nodes when a node fails', async () => {
+    const insightAgent = jest.fn(agents.insight_agent);
+    const execution = await new LocalFlowRunner(flow, {
+      ...agents,
+      topic_agent: () => ({ status: 'error', output: {}, error_message: 'Quota exceeded' }),
+      insight_agent: insightAgent,
+    }).run({ text: 'great' });
+
+    expect(execution.status).toBe('failed');
+    expect(execution.error_message).toBe('Node topics failed: Quota exceeded');
+    expect(execution.output_data).toBeUndefined();
+    expect(execution.node_results.topics).toMatchObject({ status: 'failed', error_message: 'Quota exceeded' });
+    expect(execution.node_results.insights).toBeUndefined();
+    expect(insightAgent).not.toHaveBeenCalled();
+  });
+
+  it('should report thrown errors and missing handlers as node failures', async () => {
+    const thrown = await new LocalFlowRunner(flow, {
+      ...agents,
+      sentiment_agent: () => {
+        throw new Error('boom');
+      },
+    }).run({ text: 'great' });
+    expect(thrown.node_results.sentiment).toMatchObject({ status: 'failed', error_message: 'boom' });
+
+    const withoutTopics = { ...agents };
+    delete withoutTopics.topic_agent;
+    const missing = await new LocalFlowRunner(flow, withoutTopics).run({ text: 'great' });
+    expect(missing.node_results.topics).toMatchObject({
+      status: 'failed',
+      error_message: 'No handler registered for agent "topic_agent"',
+    });
+  });
+
+  it('should honor per-node timeouts', async () => {
+    const timed: Flow = {
+      ...flow,
+      nodes: flow.nodes.map(node => (node.id === 'topics' ? { ...node, config: { timeout: 20 } } : node)),
+    };
+    let signal: AbortSignal | undefined;
+
+    const execution = await new LocalFlowRunner(timed, {
+      ...agents,
+      topic_agent: (_request, context) => {
+        signal = context.signal;
+        return new Promise(() => undefined);
+      },
+    }).run({ text: 'great' });
+
+    expect(execution.node_results.topics).toMatchObject({ status: 'failed', error_message: 'Node timed out after 20ms' });
+    expect(signal!.aborted).toBe(true);
+  });
+
+  it('should reject with AbortError when the run is aborted', async () => {
+    const controller = new AbortController();
+    const run = new LocalFlowRunner(flow, {
+      ...agents,
+      topic_agent: () => new Promise(() => undefined),
+    }).run({ text: 'great' }, { signal: controller.signal });
+
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(run).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should validate the flow graph', () => {
+    expect(() => new LocalFlowRunner({
+      ...flow,
+      nodes: [...flow.nodes, { id: 'loop', type: 'processor', agent_id: 'x', depends_on: ['loop'] }],
+    }, agents)).toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Tests for execution streaming over Server-Sent Events
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AISpine } from '../spine';
+import { parseSSE } from '../sse';
+import { AbortError } from '../errors';
+import { ExecutionContext, ExecutionStreamEvent, StreamProgress } from '../types';
+import { execution, node } from './helpers';
+
+const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+async function* chunks(...parts: string[]): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  for (const part of parts) {
+    yield encoder.encode(part);
+  }
+}
+
+describe('parseSSE', () => {
+  it('should parse events split across chunks', async () => {
+    const messages = await collect(parseSSE(chunks(
+      'event: node\ndata: {"node_id":',
+      '"a"}\n\n: heartbeat\n\nid: 7\nretry: 1000\ndata: line1\r\n',
+      'data: line2\r\n\r\n'
+    )));
+
+    expect(messages).toEqual([
+      { event: 'node', data: '{"node_id":"a"}', id: undefined, retry: undefined },
+      { event: 'message', data: 'line1\nline2', id: '7', retry: 1000 },
+    ]);
+  });
+
+  it('should flush a final event without a trailing blank line', async () => {
+    const messages = await collect(parseSSE(chunks('data: last')));
+    expect(messages).toEqual([{ event: 'message', data: 'last', id: undefined, retry: undefined }]);
+  });
+});
+
+describe('Execution streaming', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let pollResponses: ExecutionContext[];
+  let pollCount: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/api/v1/executions/exec-1/stream' && req.headers['x-stream'] === 'sse') {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+        const events = [
+          `event: execution\ndata: ${JSON.stringify(execution('running', [node('input', 'completed')]))}\n\n`,
+          `: keep-alive\n\n`,
+          `event: node\ndata: ${JSON.stringify(node('process', 'running'))}\n\n`,
+          `event: node\ndata: ${JSON.stringify(node('process', 'running'))}\n\n`,
+          `event: node\ndata: ${JSON.stringify(node('process', 'completed'))}\n\n`,
+          `event: execution\ndata: ${JSON.stringify(execution('completed', [node('input', 'completed'), node('process', 'completed')], { output_data: { answer: 42 } }))}\n\n`,
+        ];
+        let index = 0;
+        const timer = setInterval(() => {
+          if (index < events.length) {
+            res.write(events[index++]);
+          } else {
+            clearInterval(timer);
+            res.end();
+          }
+        }, 5);
+        req.on('close', () => clearInterval(timer));
+        return;
+      }
+
+      if (req.url === '/api/v1/executions/exec-1/stream' && req.headers['x-stream'] === 'hang') {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(': connected\n\n');
+        return;
+      }
+
+      if (req.url === '/api/v1/executions/exec-1/stream') {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Not found' }));
+        return;
+      }
+
+      if (req.url === '/api/v1/executions/exec-1') {
+        const body = pollResponses[Math.min(pollCount++, pollResponses.length - 1)];
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+        return;
+      }
+
+      res.writeHead(404);
+      res.end();
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    pollCount = 0;
+    pollResponses = [
+      execution('running', [node('input', 'completed'), node('process', 'running')]),
+      execution('running', [node('input', 'completed'), node('process', 'running')]),
+      execution('completed', [node('input', 'completed'), node('process', 'completed')], { output_data: { answer: 42 } }),
+    ];
+  });
+
+  function createSpine(transport: 'fetch' | 'axios', stream: string) {
+    const spine = new AISpine({ apiKey: validApiKey, baseURL, transport });
+    spine.use((request, next) => next({ ...request, headers: { ...request.headers, 'X-Stream': stream } }));
+    return spine;
+  }
+
+  function transitions(events: ExecutionStreamEvent[]): string[] {
+    return events.map(event => event.type === 'node'
+      ? `${event.node.node_id}:${event.previous_status || 'new'}->${event.node.status}`
+      : `execution:${event.execution.status}`);
+  }
+
+  it.each(['fetch', 'axios'] as const)('should stream node transitions over SSE (%s transport)', async transport => {
+    const spine = createSpine(transport, 'sse');
+
+    const events = await collect(spine.streamExecutionEvents('exec-1'));
+
+    expect(transitions(events)).toEqual([
+      'input:new->completed',
+      'execution:running',
+      'process:new->running',
+      'process:running->completed',
+      'execution:completed',
+    ]);
+    expect(pollCount).toBe(0);
+  });
+
+  it('should fall back to polling when streaming is not available', async () => {
+    const spine = createSpine('fetch', 'none');
+
+    const events = await collect(spine.streamExecutionEvents('exec-1', { pollInterval: 5 }));
+
+    expect(transitions(events)).toEqual([
+      'input:new->completed',
+      'process:new->running',
+      'execution:running',
+      'process:running->completed',
+      'execution:completed',
+    ]);
+    expect(pollCount).toBe(3);
+  });
+
+  it('should fail instead of polling in sse mode', async () => {
+    const spine = createSpine('fetch', 'none');
+
+    await expect(collect(spine.streamExecutionEvents('exec-1', { mode: 'sse' })))
+      .rejects.toMatchObject({ code: 'STREAMING_NOT_SUPPORTED' });
+  });
+
+  it('should deliver events through StreamOptions callbacks', async () => {
+    const spine = createSpine('fetch', 'sse');
+    const onData = jest.fn();
+    const progress: StreamProgress[] = [];
+    const onComplete = jest.fn();
+
+    const result = await spine.streamExecution('exec-1', {
+      onData,
+      onProgress: p => progress.push(p),
+      onComplete,
+    });
+
+    expect(result.status).toBe('completed');
+    expect(result.output_data).toEqual({ answer: 42 });
+    expect(onData).toHaveBeenCalledTimes(5);
+    expect(progress.map(p => p.percentage)).toEqual([100, 100, 50, 100, 100]);
+    expect(onComplete).toHaveBeenCalledWith(result);
+  });
+
+  it('should stop streaming when aborted', async () => {
+    const spine = createSpine('fetch', 'hang');
+    const controller = new AbortController();
+    const onError = jest.fn();
+
+    const pending = spine.streamExecution('exec-1', { signal: controller.signal, onError });
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(onError).toHaveBeenCalledWith(expect.any(AbortError));
+  });
+
+  it('should time out silent streams', async () => {
+    const spine = createSpine('fetch', 'hang');
+
+    await expect(spine.streamExecution('exec-1', { timeout: 50 }))
+      .rejects.toMatchObject({ code: 'EXECUTION_TIMEOUT' });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for flow sync
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AISpine } from '../spine';
+import { ValidationError } from '../errors';
+import { formatFlowSyncPlan } from '../sync';
+import { FlowDefinition, Transport, TransportRequest } from '../types';
+import { ok } from './helpers';
+
+const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+
+function flow(flowId: string, overrides: Partial<FlowDefinition> = {}): FlowDefinition {
+  return {
+    flow_id: flowId,
+    name: flowId,
+    description: `The ${flowId} flow`,
+    nodes: [
+      { id: 'input', type: 'input' },
+      { id: 'work', type: 'processor', agent_id: 'worker', depends_on: ['input'], config: { timeout: 30000 } },
+      { id: 'output', type: 'output', depends_on: ['work'] },
+    ],
+    entry_point: 'input',
+    exit_points: ['output'],
+    created_by: 'user-1',
+    version: 1,
+    ...overrides,
+  };
+}
+
+function writeFlowFile(dir: string, name: string, definition: FlowDefinition) {
+  const file = { format: 'ai-spine-flow/v1', ...definition };
+  delete file.version;
+  delete file.created_by;
+  writeFileSync(join(dir, name), JSON.stringify(file));
+}
+
+describe('syncFlows', () => {
+  let dir: string;
+  let transport: jest.Mocked<Transport>;
+  let spine: AISpine;
+  let myFlows: FlowDefinition[];
+  let publicFlows: FlowDefinition[];
+
+  const writes = () => transport.request.mock.calls
+    .map(([request]) => request)
+    .filter(request => request.method !== 'GET')
+    .map(request => `${request.method} ${request.url}`);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ai-spine-sync-'));
+    myFlows = [flow('kept'), flow('changed'), flow('stale')];
+    publicFlows = [flow('credit_analysis', { created_by: undefined }), flow('shared', { created_by: 'user-2' })];
+
+    transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        if (request.url === '/api/v1/flows/my-flows') {
+          return ok({ flows: myFlows, count: myFlows.length, user_id: 'user-1' });
+        }
+        if (request.url === '/api/v1/flows') {
+          return request.method === 'GET' ? ok([...myFlows, ...publicFlows]) : ok(request.data);
+        }
+        return ok(request.method === 'DELETE' ? { message: 'Flow deleted successfully', status: 'deleted' } : request.data);
+      }),
+    } as any;
+    spine = new AISpine({ apiKey: validApiKey, supabaseToken: 'supabase-token', transport, retries: 0 });
+
+    writeFlowFile(dir, 'kept.json', flow('kept'));
+    writeFlowFile(dir, 'changed.json', flow('changed', {
+      description: 'Updated description',
+      nodes: [
+        { id: 'input', type: 'input' },
+        { id: 'work', type: 'processor', agent_id: 'worker', depends_on: ['input'], config: { timeout: 60000 } },
+        { id: 'output', type: 'output', depends_on: ['work'] },
+      ],
+    }));
+    writeFlowFile(dir, 'new.json', flow('new'));
+    writeFileSync(join(dir, 'README.md'), '# not a flow file');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should plan creates, updates and deletes with field diffs', async () => {
+    const log = jest.fn();
+    const result = await spine.syncFlows(dir, { dryRun: true, prune: true, log });
+
+    expect(result.plan.map(change => [change.action, change.flow_id])).toEqual([
+      ['update', 'changed'],
+      ['unchanged', 'kept'],
+      ['create', 'new'],
+      ['delete', 'stale'],
+    ]);
+    expect(result.plan[0].changes).toEqual([
+      { path: 'description', before: 'The changed flow', after: 'Updated description' },
+      { path: 'nodes.work.config.timeout', before: 30000, after: 60000 },
+    ]);
+    expect(result.applied).toEqual([]);
+    expect(writes()).toEqual([]);
+    expect(log.mock.calls[0][0]).toContain('Plan: 1 to create, 1 to update, 1 to delete, 1 unchanged, 0 protected');
+  });
+
+  it('should apply the plan through the flow CRUD endpoints', async () => {
+    const result = await spine.syncFlows(dir, { prune: true });
+
+    expect(writes()).toEqual([
+      'PUT /api/v1/flows/changed',
+      'POST /api/v1/flows',
+      'DELETE /api/v1/flows/stale',
+    ]);
+    expect(result.applied.map(change => change.flow_id)).toEqual(['changed', 'new', 'stale']);
+  });
+
+  it('should send each change with its own idempotency key', async () => {
+    writeFlowFile(dir, 'other.json', flow('other'));
+
+    const result = await spine.syncFlows(dir, { prune: true }, { idempotencyKey: 'sync-1' });
+
+    expect(result.applied.map(change => change.flow_id)).toEqual(['changed', 'new', 'other', 'stale']);
+    expect(transport.request.mock.calls
+      .map(([request]) => request)
+      .filter(request => request.method !== 'GET')
+      .map(request => request.headers['Idempotency-Key'])).toEqual([
+      'sync-1:update:changed',
+      'sync-1:create:new',
+      'sync-1:create:other',
+      'sync-1:delete:stale',
+    ]);
+  });
+
+  it('should keep remote flows without a file unless prune is set', async () => {
+    const result = await spine.syncFlows(dir);
+
+    expect(result.plan.map(change => change.flow_id)).not.toContain('stale');
+    expect(writes()).not.toContain('DELETE /api/v1/flows/stale');
+  });
+
+  it('should never touch system flows or flows of other users', async () => {
+    writeFlowFile(dir, 'credit.json', flow('credit_analysis', { name: 'Mine now' }));
+    writeFlowFile(dir, 'shared.json', flow('shared', { name: 'Mine now' }));
+    myFlows.push(flow('borrowed', { created_by: 'user-3' }));
+
+    const result = await spine.syncFlows(dir, { prune: true });
+
+    expect(result.plan.filter(change => change.action === 'protected')).toEqual([
+      expect.objectContaining({ flow_id: 'credit_analysis', reason: 'system flow' }),
+      expect.objectContaining({ flow_id: 'shared', reason: 'owned by user-2' }),
+      expect.objectContaining({ flow_id: 'borrowed', reason: 'owned by user-3' }),
+    ]);
+    expect(writes().filter(write => /credit_analysis|shared|borrowed/.test(write))).toEqual([]);
+    expect(writes().filter(write => write === 'POST /api/v1/flows')).toHaveLength(1);
+  });
+
+  it('should mask environment values in diffs', async () => {
+    myFlows = [flow('changed', {
+      nodes: [{ id: 'input', type: 'input', config: { environment: { api_key: 'old-secret' } } }],
+    })];
+
+    const result = await spine.syncFlows(dir, { dryRun: true });
+    const text = formatFlowSyncPlan(result.plan);
+
+    expect(text).not.toContain('old-secret');
+    expect(result.plan[0].changes).toContainEqual({ path: 'nodes.input.config.environment.api_key', before: '***' });
+  });
+
+  it('should name the file that fails to parse', async () => {
+    writeFileSync(join(dir, 'broken.yaml'), 'format: ai-spine-flow/v1\nname: [unterminated\n');
+
+    await expect(spine.syncFlows(dir, { dryRun: true })).rejects.toThrow(ValidationError);
+    await expect(spine.syncFlows(dir, { dryRun: true })).rejects.toThrow(join(dir, 'broken.yaml'));
+  });
+});
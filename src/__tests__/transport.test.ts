@@ -0,0 +1,223 @@
+/**
+ * Tests for the pluggable HTTP transport layer
+ */
+
+import { AISpineClient } from '../client';
+import { FetchTransport, TransportError, buildUrl, createTransport, AxiosTransport } from '../transport';
+import { NotFoundError, NetworkError, TimeoutError, ServerError } from '../errors';
+import { Transport, TransportRequest, TransportResponse } from '../types';
+
+function jsonResponse(body: any, status: number = 200, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : 'Error',
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+describe('buildUrl', () => {
+  it('should join base URL and path', () => {
+    expect(buildUrl({ baseURL: 'https://api.example.com/', url: '/api/v1/flows' }))
+      .toBe('https://api.example.com/api/v1/flows');
+  });
+
+  it('should serialize query parameters and skip undefined values', () => {
+    expect(buildUrl({
+      baseURL: 'https://api.example.com',
+      url: '/api/v1/executions',
+      params: { flow_id: 'my-flow', status: undefined, limit: 10 },
+    })).toBe('https://api.example.com/api/v1/executions?flow_id=my-flow&limit=10');
+  });
+});
+
+describe('createTransport', () => {
+  it('should resolve built-in transports by name', () => {
+    expect(createTransport('fetch')).toBeInstanceOf(FetchTransport);
+    expect(createTransport('axios')).toBeInstanceOf(AxiosTransport);
+  });
+
+  it('should return custom transports unchanged', () => {
+    const custom: Transport = { request: jest.fn() };
+    expect(createTransport(custom)).toBe(custom);
+  });
+});
+
+describe('FetchTransport', () => {
+  const baseRequest: TransportRequest = {
+    method: 'POST',
+    baseURL: 'https://api.example.com',
+    url: '/api/v1/flows/execute',
+    data: { flow_id: 'my-flow', input_data: {} },
+    headers: { 'Content-Type': 'application/json' },
+    timeout: 1000,
+  };
+
+  it('should send JSON bodies and parse JSON responses', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse({ execution_id: 'exec-1' }));
+    const transport = new FetchTransport({ fetch: fetchMock });
+
+    const response = await transport.request(baseRequest);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.example.com/api/v1/flows/execute',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify(baseRequest.data),
+        headers: baseRequest.headers,
+      })
+    );
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ execution_id: 'exec-1' });
+    expect(response.headers['content-type']).toBe('application/json');
+  });
+
+  it('should reject non-2xx responses with the response attached', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(jsonResponse({ message: 'Not found' }, 404));
+    const transport = new FetchTransport({ fetch: fetchMock });
+
+    const error = await transport.request(baseRequest).catch(e => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.response.status).toBe(404);
+    expect(error.response.data).toEqual({ message: 'Not found' });
+  });
+
+  it('should reject network failures without a response', async () => {
+    const fetchMock = jest.fn().mockRejectedValue(new TypeError('fetch failed'));
+    const transport = new FetchTransport({ fetch: fetchMock });
+
+    const error = await transport.request(baseRequest).catch(e => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.code).toBe('ERR_NETWORK');
+    expect(error.response).toBeUndefined();
+  });
+
+  it('should abort requests that exceed the timeout', async () => {
+    const fetchMock = jest.fn().mockImplementation((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    );
+    const transport = new FetchTransport({ fetch: fetchMock });
+
+    const error = await transport.request({ ...baseRequest, timeout: 10 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.code).toBe('ECONNABORTED');
+  });
+
+  it('should stream response bodies and handle responses without one', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(new Response('data: 1\n\n', { status: 200 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+    const transport = new FetchTransport({ fetch: fetchMock });
+    const request: TransportRequest = { ...baseRequest, method: 'GET', data: undefined, responseType: 'stream' };
+
+    const chunks: string[] = [];
+    const streamed = await transport.request<AsyncIterable<Uint8Array>>(request);
+    for await (const chunk of streamed.data) {
+      chunks.push(new TextDecoder().decode(chunk));
+    }
+    expect(chunks.join('')).toBe('data: 1\n\n');
+
+    const empty = await transport.request(request);
+    expect(empty.data).toBe('');
+  });
+});
+
+describe('AISpineClient with a custom transport', () => {
+  const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+
+  function createClient(handler: (request: TransportRequest) => Promise<TransportResponse>) {
+    const transport: Transport = { request: jest.fn(handler) as any };
+    const client = new AISpineClient({ apiKey: validApiKey, transport });
+    return { client, transport };
+  }
+
+  it('should route requests through the transport with default headers', async () => {
+    const { client, transport } = createClient(async () => ({
+      data: { status: 'healthy' },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+    }));
+
+    const response = await client.get('/health', { verbose: true }, { headers: { 'X-Trace': 'abc' }, retries: 0 });
+
+    expect(response.data).toEqual({ status: 'healthy' });
+    expect(transport.request).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'GET',
+      baseURL: 'https://ai-spine-api.up.railway.app',
+      url: '/health',
+      params: { verbose: true },
+      timeout: 30000,
+      headers: expect.objectContaining({
+        'Authorization': `Bearer ${validApiKey}`,
+        'X-Trace': 'abc',
+      }),
+    }));
+  });
+
+  it('should map HTTP error responses to AISpineError subclasses', async () => {
+    const { client } = createClient(async () => {
+      throw new TransportError('Request failed with status code 404', 'ERR_BAD_RESPONSE', {
+        data: { message: 'Flow not found' },
+        status: 404,
+        statusText: 'Not Found',
+        headers: {},
+      });
+    });
+
+    await expect(client.get('/api/v1/flows/missing', undefined, { retries: 0 })).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should map timeouts and network failures', async () => {
+    const timeoutClient = createClient(async () => {
+      throw new TransportError('timeout of 30000ms exceeded', 'ECONNABORTED');
+    }).client;
+    await expect(timeoutClient.get('/health', undefined, { retries: 0 })).rejects.toBeInstanceOf(TimeoutError);
+
+    const networkClient = createClient(async () => {
+      throw new TransportError('fetch failed', 'ERR_NETWORK');
+    }).client;
+    await expect(networkClient.get('/health', undefined, { retries: 0 })).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('should retry server errors on any transport', async () => {
+    const transport: Transport = {
+      request: jest.fn()
+        .mockRejectedValueOnce(new TransportError('Request failed with status code 503', 'ERR_BAD_RESPONSE', {
+          data: {},
+          status: 503,
+          statusText: 'Service Unavailable',
+          headers: {},
+        }))
+        .mockResolvedValueOnce({ data: { ok: true }, status: 200, statusText: 'OK', headers: {} }),
+    };
+    const client = new AISpineClient({ apiKey: validApiKey, transport, retries: 1 });
+
+    jest.useFakeTimers();
+    try {
+      const pending = client.get('/health');
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(pending).resolves.toEqual(expect.objectContaining({ data: { ok: true } }));
+    } finally {
+      jest.useRealTimers();
+    }
+    expect(transport.request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should surface server errors after retries are exhausted', async () => {
+    const { client } = createClient(async () => {
+      throw new TransportError('Request failed with status code 500', 'ERR_BAD_RESPONSE', {
+        data: {},
+        status: 500,
+        statusText: 'Internal Server Error',
+        headers: {},
+      });
+    });
+
+    await expect(client.post('/api/v1/agents', {}, { retries: 0 })).rejects.toBeInstanceOf(ServerError);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for typed flows
+ */
+
+import { AISpine } from '../spine';
+import { ExecutionHandle } from '../execution';
+import { ValidationError } from '../errors';
+import { Transport, TransportRequest } from '../types';
+import { execution, ok } from './helpers';
+
+interface Ticket {
+  message: string;
+}
+
+interface Reply {
+  reply: string;
+}
+
+const isTicket = (value: unknown): value is Ticket => typeof (value as Ticket)?.message === 'string';
+
+const replySchema = {
+  parse(value: unknown): Reply {
+    if (typeof (value as Reply)?.reply !== 'string') {
+      throw new Error('reply must be a string');
+    }
+    return { reply: (value as Reply).reply.trim() };
+  },
+};
+
+describe('Typed flows', () => {
+  let transport: jest.Mocked<Transport>;
+  let spine: AISpine;
+  let output: any;
+
+  beforeEach(() => {
+    output = { reply: ' Hello ' };
+    transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        if (request.url === '/api/v1/flows/execute') {
+          return ok({ execution_id: 'exec-1', status: 'pending' });
+        }
+        return ok(execution('completed', [], { flow_id: 'support', input_data: { message: 'Hi' }, output_data: output }));
+      }),
+    } as any;
+    spine = new AISpine({ apiKey: 'sk_test_1234567890abcdef1234567890abcdef', transport, retries: 0 });
+  });
+
+  it('should run a flow and return its parsed output', async () => {
+    const support = spine.defineFlow('support', { input: isTicket, output: replySchema });
+
+    const reply: Reply = await support.run({ message: 'Hi' });
+
+    expect(reply).toEqual({ reply: 'Hello' });
+    expect(support.flowId).toBe('support');
+    expect(transport.request.mock.calls[0][0].data).toEqual({ flow_id: 'support', input_data: { message: 'Hi' } });
+  });
+
+  it('should reject invalid input before starting an execution', async () => {
+    const support = spine.defineFlow<Ticket, Reply>('support', { input: isTicket });
+
+    const error = await support.execute({ text: 'Hi' } as any).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe('Input for flow support failed validation');
+    expect(error.validationErrors[0]).toMatchObject({ field: 'input', message: 'Rejected by validator' });
+    expect(transport.request).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid output when a completed execution is read', async () => {
+    output = { answer: 42 };
+    const support = spine.defineFlow<Ticket, Reply>('support', { output: replySchema });
+    const handle = await support.execute({ message: 'Hi' });
+
+    const error = await handle.output().catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.validationErrors[0]).toMatchObject({ field: 'output_data', message: 'reply must be a string' });
+    expect(error.details).toEqual({ executionId: 'exec-1' });
+  });
+
+  it('should validate output once per completed execution', async () => {
+    const parse = jest.fn(replySchema.parse);
+    const handle = spine.defineFlow<Ticket, Reply>('support', { output: { parse } }).attach('exec-1');
+
+    const result = await handle.wait();
+    await handle.output();
+
+    expect(result.output_data).toEqual({ reply: 'Hello' });
+    expect(handle.execution!.output_data).toEqual({ reply: 'Hello' });
+    expect(parse).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip output validation for executions that did not complete', async () => {
+    transport.request.mockResolvedValue(ok(execution('failed', [], { flow_id: 'support', error_message: 'Agent crashed' })));
+    const parse = jest.fn(replySchema.parse);
+
+    const result = await spine.defineFlow<Ticket, Reply>('support', { output: { parse } }).wait('exec-1');
+
+    expect(result.status).toBe('failed');
+    expect(parse).not.toHaveBeenCalled();
+  });
+
+  it('should type executeFlow and executeBatch results without validators', async () => {
+    const handle: ExecutionHandle<Ticket, Reply> = await spine.executeFlow<Ticket, Reply>('support', { message: 'Hi' });
+    const { reply } = await handle.output();
+    const [item] = await spine.executeBatch<Ticket, Reply>([{ id: '1', flowId: 'support', input: { message: 'Hi' } }]);
+
+    expect(reply).toBe(' Hello ');
+    expect(item.result?.reply).toBe(' Hello ');
+  });
+
+  it('should reject invalid flow and execution ids', () => {
+    expect(() => spine.defineFlow('bad id!')).toThrow(ValidationError);
+    expect(() => spine.defineFlow('support').attach('')).toThrow(ValidationError);
+  });
+});
@@ -2,6 +2,7 @@
  * Tests for utility functions
  */
 
+import { FlowNode } from '../types';
 import {
   validateApiKey,
   validateFlowId,
@@ -10,6 +11,7 @@ import {
   validateUrl,
   validateFlowInput,
   validateAgentConfig,
+  validateFlowDefinition,
   sanitizeInput,
   formatDuration,
   isExecutionComplete,
@@ -109,6 +111,97 @@ describe('Input validation', () => {
       expect(errors.length).toBeGreaterThan(0);
     });
   });
+
+  describe('validateFlowDefinition', () => {
+    const nodes: FlowNode[] = [
+      { id: 'input', type: 'input' },
+      { id: 'research', type: 'processor', agent_id: 'research_agent', depends_on: ['input'] },
+      { id: 'summarize', type: 'processor', agent_id: 'summary_agent', depends_on: ['research'] },
+      { id: 'output', type: 'output', depends_on: ['summarize'] },
+    ];
+    const validFlow = { nodes, entry_point: 'input', exit_points: ['output'] };
+
+    const problems = (flow: Parameters<typeof validateFlowDefinition>[0]) =>
+      validateFlowDefinition(flow).map(e => [e.code, e.field]);
+
+    it('should accept a valid flow', () => {
+      expect(validateFlowDefinition(validFlow)).toEqual([]);
+    });
+
+    it('should require at least one node', () => {
+      expect(problems({ nodes: [], entry_point: 'input' })).toEqual([['required', 'nodes']]);
+    });
+
+    it('should report duplicate node ids', () => {
+      const errors = validateFlowDefinition({ ...validFlow, nodes: [...nodes, { id: 'research', type: 'processor', depends_on: ['input'] }] });
+      expect(errors).toEqual([expect.objectContaining({
+        field: 'nodes[4].id',
+        code: 'duplicate_node',
+        message: 'Duplicate node id "research" (first defined at nodes[1])',
+      })]);
+    });
+
+    it('should report dependencies on missing nodes', () => {
+      expect(problems({
+        nodes: [nodes[0], { ...nodes[1], depends_on: ['input', 'scraper'] }, nodes[2], nodes[3]],
+        entry_point: 'input',
+      })).toEqual([['missing_node', 'nodes[1].depends_on[1]']]);
+    });
+
+    it('should report cycles once with their path', () => {
+      const errors = validateFlowDefinition({
+        nodes: [
+          nodes[0],
+          { ...nodes[1], depends_on: ['input', 'summarize'] },
+          nodes[2],
+          nodes[3],
+        ],
+      });
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ code: 'cycle', message: 'Dependency cycle: research -> summarize -> research' });
+    });
+
+    it('should report a missing entry point', () => {
+      expect(problems({ ...validFlow, entry_point: 'start' })).toEqual([['missing_node', 'entry_point']]);
+    });
+
+    it('should report unreachable exit points and orphan nodes', () => {
+      expect(problems({
+        nodes: [...nodes, { id: 'audit', type: 'processor' }, { id: 'report', type: 'output', depends_on: ['audit'] }],
+        entry_point: 'input',
+        exit_points: ['output', 'report'],
+      })).toEqual([
+        ['unreachable', 'exit_points[1]'],
+        ['orphan_node', 'nodes[4]'],
+        ['orphan_node', 'nodes[5]'],
+      ]);
+    });
+
+    it('should report input and output placement errors', () => {
+      expect(problems({
+        nodes: [
+          { id: 'input', type: 'input', depends_on: ['output'] },
+          { id: 'process', type: 'processor', depends_on: ['output'] },
+          { id: 'output', type: 'output', depends_on: ['process'] },
+        ],
+      })).toEqual([
+        ['invalid_placement', 'nodes[0].depends_on'],
+        ['invalid_placement', 'nodes[0].depends_on[0]'],
+        ['invalid_placement', 'nodes[1].depends_on[0]'],
+        ['cycle', 'nodes[1].depends_on'],
+      ]);
+      expect(problems({ ...validFlow, entry_point: 'research', exit_points: ['summarize'] })).toEqual([
+        ['invalid_placement', 'entry_point'],
+        ['invalid_placement', 'exit_points[0]'],
+        ['orphan_node', 'nodes[0]'],
+      ]);
+    });
+
+    it('should skip entry point checks for partial updates', () => {
+      expect(validateFlowDefinition({ nodes: [{ id: 'new-node', type: 'processor' }] })).toEqual([]);
+      expect(validateFlowDefinition({})).toEqual([]);
+    });
+  });
 });
 
 describe('Utility functions', () => {
@@ -158,6 +251,7 @@ describe('Utility functions', () => {
     it('should identify complete executions', () => {
       expect(isExecutionComplete('completed')).toBe(true);
       expect(isExecutionComplete('failed')).toBe(true);
+      expect(isExecutionComplete('cancelled')).toBe(true);
       expect(isExecutionComplete('running')).toBe(false);
       expect(isExecutionComplete('pending')).toBe(false);
     });
@@ -166,6 +260,7 @@ describe('Utility functions', () => {
       expect(isExecutionRunning('running')).toBe(true);
       expect(isExecutionRunning('pending')).toBe(true);
       expect(isExecutionRunning('completed')).toBe(false);
+      expect(isExecutionRunning('cancelled')).toBe(false);
       expect(isExecutionRunning('failed')).toBe(false);
     });
   });
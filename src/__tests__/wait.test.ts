@@ -0,0 +1,179 @@
+/**
+ * Tests for waitForExecutions
+ */
+
+import { AISpine } from '../spine';
+import { TransportError } from '../transport';
+import { NotFoundError, ValidationError } from '../errors';
+import { ExecutionContext, Transport, TransportRequest } from '../types';
+import { execution, notFound, ok } from './helpers';
+
+const validApiKey = 'sk_test_1234567890abcdef1234567890abcdef';
+
+describe('waitForExecutions', () => {
+  let transport: jest.Mocked<Transport>;
+  let spine: AISpine;
+  // Status sequence per execution id; the last entry repeats
+  let statuses: Record<string, Array<ExecutionContext['status'] | 'missing'>>;
+  let unlisted: string[];
+
+  const current = (id: string) => {
+    const sequence = statuses[id];
+    return sequence.length > 1 ? sequence.shift()! : sequence[0];
+  };
+  const calls = (url: string) => transport.request.mock.calls.filter(([request]) => request.url === url);
+
+  beforeEach(() => {
+    unlisted = [];
+    transport = {
+      request: jest.fn(async (request: TransportRequest) => {
+        if (request.url === '/api/v1/executions') {
+          return ok(Object.keys(statuses)
+            .filter(id => !unlisted.includes(id) && request.params?.flow_id === (id === 'exec-other' ? 'other-flow' : 'my-flow'))
+            .map(id => execution(current(id) as ExecutionContext['status'], [], { execution_id: id })));
+        }
+        const id = request.url.replace('/api/v1/executions/', '');
+        const status = current(id);
+        if (status === 'missing') {
+          throw notFound('Execution not found');
+        }
+        return ok(execution(status, [], { execution_id: id, flow_id: id === 'exec-other' ? 'other-flow' : 'my-flow' }));
+      }),
+    } as any;
+    spine = new AISpine({ apiKey: validApiKey, transport, retries: 0 });
+  });
+
+  it('should return every execution in input order', async () => {
+    statuses = {
+      'exec-1': ['running', 'running', 'completed'],
+      'exec-2': ['running', 'completed'],
+      'exec-3': ['running', 'failed'],
+    };
+
+    const results = await spine.waitForExecutions(['exec-3', 'exec-1', 'exec-2'], { interval: 1 });
+
+    expect(results.map(r => [r.execution_id, r.status])).toEqual([
+      ['exec-3', 'failed'],
+      ['exec-1', 'completed'],
+      ['exec-2', 'completed'],
+    ]);
+  });
+
+  it('should batch status checks of the same flow through listExecutions', async () => {
+    statuses = {
+      'exec-1': ['running', 'completed'],
+      'exec-2': ['running', 'completed'],
+      'exec-other': ['running', 'completed'],
+    };
+
+    await spine.waitForExecutions(['exec-1', 'exec-2', 'exec-other'], { interval: 1 });
+
+    // First round fetches each execution to learn its flow, the second lists 'my-flow'
+    const listings = calls('/api/v1/executions');
+    expect(listings).toHaveLength(1);
+    expect(listings[0][0].params).toEqual({ flow_id: 'my-flow', limit: 100 });
+    expect(calls('/api/v1/executions/exec-1')).toHaveLength(1);
+    expect(calls('/api/v1/executions/exec-other')).toHaveLength(2);
+  });
+
+  it('should check executions missing from the listing individually', async () => {
+    statuses = {
+      'exec-1': ['running', 'completed'],
+      'exec-2': ['running', 'completed'],
+    };
+    unlisted = ['exec-2'];
+
+    const results = await spine.waitForExecutions(['exec-1', 'exec-2'], { interval: 1 });
+
+    expect(results.map(r => r.status)).toEqual(['completed', 'completed']);
+    expect(calls('/api/v1/executions/exec-2')).toHaveLength(2);
+  });
+
+  it('should resolve with the first finished execution in any mode', async () => {
+    statuses = {
+      'exec-1': ['running'],
+      'exec-2': ['running', 'running', 'completed'],
+    };
+
+    const first = await spine.waitForExecutions(['exec-1', 'exec-2'], { mode: 'any', interval: 1 });
+
+    expect(first.execution_id).toBe('exec-2');
+  });
+
+  it('should report per-id errors in allSettled mode', async () => {
+    statuses = {
+      'exec-1': ['running', 'completed'],
+      'exec-missing': ['missing'],
+    };
+
+    const results = await spine.waitForExecutions(['exec-1', 'exec-missing'], { mode: 'allSettled', interval: 1 });
+
+    expect(results[0]).toMatchObject({ execution_id: 'exec-1', status: 'fulfilled', value: { status: 'completed' } });
+    expect(results[1]).toMatchObject({ execution_id: 'exec-missing', status: 'rejected' });
+    expect(results[1].status === 'rejected' && results[1].reason).toBeInstanceOf(NotFoundError);
+  });
+
+  it('should reject with the first error in all mode', async () => {
+    statuses = {
+      'exec-1': ['running'],
+      'exec-missing': ['missing'],
+    };
+
+    await expect(spine.waitForExecutions(['exec-1', 'exec-missing'], { interval: 1 }))
+      .rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should settle unfinished executions with a timeout error', async () => {
+    statuses = {
+      'exec-1': ['completed'],
+      'exec-2': ['running'],
+    };
+
+    const results = await spine.waitForExecutions(['exec-1', 'exec-2'], { mode: 'allSettled', interval: 10, timeout: 40 });
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1]).toMatchObject({
+      status: 'rejected',
+      reason: { code: 'EXECUTION_TIMEOUT', details: { executionIds: ['exec-2'], timeout: 40 } },
+    });
+  });
+
+  it('should cap rate limit waits at the max interval and the remaining timeout', async () => {
+    const rateLimited = new TransportError('Request failed with status code 429', 'ERR_BAD_RESPONSE', {
+      data: { message: 'Too many requests', retry_after: 600 },
+      status: 429,
+      statusText: 'Too Many Requests',
+      headers: {},
+    });
+    let limited = 1;
+    const request = transport.request.getMockImplementation()!;
+    transport.request.mockImplementation(async (req: TransportRequest) => {
+      if (limited-- > 0) {
+        throw rateLimited;
+      }
+      return request(req);
+    });
+    statuses = { 'exec-1': ['completed'] };
+
+    const start = Date.now();
+    await expect(spine.waitForExecutions(['exec-1'], { polling: { strategy: 'exponential', interval: 1, maxInterval: 20 } }))
+      .resolves.toMatchObject([{ status: 'completed' }]);
+    expect(Date.now() - start).toBeLessThan(1000);
+
+    limited = Infinity;
+    const results = await spine.waitForExecutions(['exec-1'], {
+      mode: 'allSettled',
+      timeout: 50,
+      polling: { strategy: { nextDelay: () => 1 } },
+    });
+    expect(results[0]).toMatchObject({ status: 'rejected', reason: { code: 'EXECUTION_TIMEOUT' } });
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should validate execution ids', async () => {
+    statuses = {};
+    await expect(spine.waitForExecutions(['exec-1', 'bad id!'])).rejects.toBeInstanceOf(ValidationError);
+    await expect(spine.waitForExecutions([], { mode: 'any' })).rejects.toBeInstanceOf(ValidationError);
+    await expect(spine.waitForExecutions([])).resolves.toEqual([]);
+  });
+});
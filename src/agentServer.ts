@@ -0,0 +1,364 @@
+/**
+ * AI Spine SDK Agent Server
+ *
+ * Serves an agent over HTTP with the AgentExecutionRequest/AgentExecutionResponse
+ * contract AI Spine uses to call agents. Node.js only.
+ */
+
+import {
+  AgentExecutionRequest,
+  AgentExecutionResponse,
+  AgentHealthResponse,
+  AgentHttpServer,
+  AgentServerOptions,
+  AgentServerRequest,
+  AgentServerResponse,
+  ValidationError as ValidationErrorType,
+} from './types';
+import { AISpineError, AbortError, NotFoundError, ValidationError } from './errors';
+import { validateEnvironmentValues } from './utils';
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks the shape of an AgentExecutionRequest body
+ */
+function validateAgentRequest(body: unknown): ValidationErrorType[] {
+  if (!isObject(body)) {
+    return [{ field: 'body', message: 'Request body must be a JSON object', code: 'invalid_type' }];
+  }
+
+  const errors: ValidationErrorType[] = [];
+  if (body.input === undefined) {
+    errors.push({ field: 'input', message: 'input is required', code: 'required' });
+  } else if (!isObject(body.input)) {
+    errors.push({ field: 'input', message: 'input must be an object', code: 'invalid_type' });
+  }
+  if (body.metadata !== undefined && !isObject(body.metadata)) {
+    errors.push({ field: 'metadata', message: 'metadata must be an object', code: 'invalid_type' });
+  }
+
+  const config = body.config;
+  if (config === undefined) {
+    return errors;
+  }
+  if (!isObject(config)) {
+    errors.push({ field: 'config', message: 'config must be an object', code: 'invalid_type' });
+    return errors;
+  }
+  if (config.system_prompt !== undefined && typeof config.system_prompt !== 'string') {
+    errors.push({ field: 'config.system_prompt', message: 'system_prompt must be a string', code: 'invalid_type' });
+  }
+  for (const field of ['timeout', 'max_turns'] as const) {
+    if (config[field] !== undefined && !(typeof config[field] === 'number' && config[field] > 0)) {
+      errors.push({ field: `config.${field}`, message: `${field} must be a positive number`, code: 'invalid_value' });
+    }
+  }
+  if (config.environment !== undefined && !isObject(config.environment)) {
+    errors.push({ field: 'config.environment', message: 'environment must be an object', code: 'invalid_type' });
+  }
+  return errors;
+}
+
+/**
+ * HTTP server for an agent, created with createAgentServer()
+ *
+ * - `POST path` runs the handler: the body is validated, config.environment is
+ *   checked against the environment schema (defaults are applied), and
+ *   config.timeout (or `defaultTimeout`) is enforced by aborting
+ *   `context.signal`. The handler's output is returned with
+ *   `status: 'success'` and its `execution_time` in milliseconds.
+ * - `GET healthPath` (and `GET path`) answers with an AgentHealthResponse, so
+ *   testAgent() can probe the endpoint.
+ *
+ * Errors are returned as `status: 'error'` responses: 400 for invalid requests
+ * (with `metadata.validation_errors`), 504 for timeouts, the status of thrown
+ * AISpineErrors, and 500 for anything else.
+ */
+export class AgentServer {
+  /** Underlying server, once listen() was called */
+  public server?: AgentHttpServer;
+  /** URL of the execution route while listening */
+  public url?: string;
+
+  private readonly path: string;
+  private readonly healthPath: string;
+
+  constructor(private readonly options: AgentServerOptions) {
+    if (typeof options.handler !== 'function') {
+      throw new ValidationError('createAgentServer requires a handler function');
+    }
+    this.path = options.path || '/';
+    this.healthPath = options.healthPath || '/health';
+  }
+
+  /**
+   * Request listener for http.createServer() or frameworks such as Express
+   */
+  readonly handle = (req: AgentServerRequest, res: AgentServerResponse): void => {
+    void this.route(req, res);
+  };
+
+  /**
+   * Run a request body through validation, the handler, timeout and error
+   * mapping without HTTP
+   *
+   * @param body - Parsed AgentExecutionRequest
+   * @param signal - Aborts the handler, e.g. when the caller disconnects
+   */
+  async execute(body: unknown, signal?: AbortSignal): Promise<AgentExecutionResponse> {
+    return (await this.run(body, signal)).response;
+  }
+
+  /**
+   * Start listening
+   *
+   * @param port - Port to listen on (default: 0, a free port)
+   * @param host - Interface to bind (default: all interfaces)
+   * @returns URL of the execution route
+   */
+  async listen(port: number = 0, host?: string): Promise<string> {
+    // Loaded lazily so browser bundles don't need the Node.js modules
+    const { createServer } = await import('http');
+    const server = createServer(this.handle);
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = server.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+    this.url = `http://${host || 'localhost'}:${boundPort}${this.path}`;
+    return this.url;
+  }
+
+  /**
+   * Stop accepting connections and wait for open requests to finish
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    this.url = undefined;
+    await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  private async route(req: AgentServerRequest, res: AgentServerResponse): Promise<void> {
+    const url = (req.url || '/').split('?')[0];
+    const method = req.method || 'GET';
+
+    if ((url === this.healthPath || url === this.path) && (method === 'GET' || method === 'HEAD')) {
+      this.send(res, 200, this.health());
+      return;
+    }
+    if (url !== this.path) {
+      this.send(res, 404, this.errorResponse(new NotFoundError(`No route for ${method} ${url}`)).response);
+      return;
+    }
+    if (method !== 'POST') {
+      res.setHeader('Allow', 'GET, HEAD, POST');
+      this.send(res, 405, this.errorResponse(new AISpineError(`Method ${method} not allowed`, 'METHOD_NOT_ALLOWED', 405)).response);
+      return;
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    let result: { statusCode: number; response: AgentExecutionResponse };
+    try {
+      result = await this.run(await this.parseBody(req), controller.signal);
+    } catch (error) {
+      result = this.errorResponse(error);
+    }
+    this.send(res, result.statusCode, result.response);
+  }
+
+  private async run(body: unknown, signal?: AbortSignal): Promise<{ statusCode: number; response: AgentExecutionResponse }> {
+    const requestErrors = validateAgentRequest(body);
+    if (requestErrors.length > 0) {
+      return this.errorResponse(new ValidationError('Invalid agent request', requestErrors));
+    }
+    const request = body as AgentExecutionRequest;
+
+    const environment: Record<string, string | number | boolean> = { ...request.config?.environment };
+    for (const [field, definition] of Object.entries(this.options.environmentSchema || {})) {
+      if (environment[field] === undefined && definition.default_value !== undefined) {
+        environment[field] = definition.default_value;
+      }
+    }
+    const environmentErrors = validateEnvironmentValues(environment, this.options.environmentSchema || {});
+    if (environmentErrors.length > 0) {
+      return this.errorResponse(new ValidationError('Invalid agent environment', environmentErrors.map(error => ({
+        ...error,
+        field: `config.environment.${error.field}`,
+      }))));
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+    const timeout = request.config?.timeout ?? this.options.defaultTimeout;
+    let timedOut = false;
+    const timer = timeout !== undefined
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout)
+      : undefined;
+
+    const start = Date.now();
+    try {
+      const output = await Promise.race([
+        Promise.resolve().then(() => this.options.handler(request, {
+          environment,
+          signal: controller.signal,
+          metadata: request.metadata || {},
+        })),
+        new Promise<never>((_, reject) => {
+          controller.signal.addEventListener('abort', () => reject(new AbortError()));
+        }),
+      ]);
+
+      if (!isObject(output)) {
+        throw new AISpineError('Agent handler must return an object', 'AGENT_ERROR', 500);
+      }
+      return { statusCode: 200, response: { status: 'success', output, execution_time: Date.now() - start } };
+    } catch (error) {
+      if (timedOut) {
+        return this.errorResponse(new AISpineError(`Agent timed out after ${timeout}ms`, 'TIMEOUT_ERROR', 504), start);
+      }
+      return this.errorResponse(error, start);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private errorResponse(error: unknown, start?: number): { statusCode: number; response: AgentExecutionResponse } {
+    const message = error instanceof Error ? error.message : String(error);
+    const validationErrors = error instanceof ValidationError && error.validationErrors.length > 0
+      ? error.validationErrors
+      : undefined;
+
+    return {
+      statusCode: error instanceof AISpineError && error.status ? error.status : 500,
+      response: {
+        status: 'error',
+        output: {},
+        error_message: validationErrors
+          ? `${message}: ${validationErrors.map(item => `${item.field}: ${item.message}`).join('; ')}`
+          : message,
+        ...(validationErrors ? { metadata: { validation_errors: validationErrors } } : {}),
+        ...(start !== undefined ? { execution_time: Date.now() - start } : {}),
+      },
+    };
+  }
+
+  private health(): AgentHealthResponse {
+    return {
+      status: 'healthy',
+      ...(this.options.agentId ? { agent_id: this.options.agentId } : {}),
+      ...(this.options.environmentSchema ? { environment_schema: this.options.environmentSchema } : {}),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async parseBody(req: AgentServerRequest): Promise<unknown> {
+    let text: string;
+    // Body parsers (e.g. express.json()) leave an already consumed stream behind
+    if (req.body !== undefined) {
+      if (typeof req.body === 'string') {
+        text = req.body;
+      } else if (req.body instanceof Uint8Array) {
+        text = Buffer.from(req.body).toString('utf8');
+      } else {
+        return req.body;
+      }
+    } else if (req.readableEnded) {
+      throw new ValidationError('Request body was already read without setting req.body');
+    } else {
+      text = await this.readBody(req);
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ValidationError('Request body must be valid JSON');
+    }
+  }
+
+  private readBody(req: AgentServerRequest): Promise<string> {
+    const limit = this.options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    return new Promise((resolve, reject) => {
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      // Oversized bodies are drained and discarded so the client can read the 413 response
+      req.on('data', chunk => {
+        size += chunk.length;
+        if (size <= limit) {
+          chunks.push(chunk);
+        }
+      });
+      req.on('end', () => {
+        if (size > limit) {
+          reject(new AISpineError(`Request body exceeds ${limit} bytes`, 'PAYLOAD_TOO_LARGE', 413));
+        } else {
+          resolve(Buffer.concat(chunks).toString('utf8'));
+        }
+      });
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: AgentServerResponse, statusCode: number, body: AgentExecutionResponse | AgentHealthResponse): void {
+    if (res.writableEnded || res.destroyed) {
+      return;
+    }
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+/**
+ * Create an HTTP server for an agent
+ *
+ * @param options - Handler, environment schema, routes and limits
+ * @returns Server; call listen(), or mount `server.handle` in an existing app
+ *
+ * @example
+ * ```typescript
+ * const agent = createAgentServer({
+ *   agentId: 'sentiment_agent',
+ *   environmentSchema: {
+ *     OPENAI_API_KEY: { type: 'password', description: 'OpenAI key', required: true }
+ *   },
+ *   handler: async ({ input, config }, { environment, signal }) => {
+ *     const sentiment = await classify(input.text, { apiKey: environment.OPENAI_API_KEY, signal });
+ *     return { sentiment };
+ *   }
+ * });
+ *
+ * const url = await agent.listen(8080);
+ * await spine.registerAgent({ agent_id: 'sentiment_agent', endpoint: url, ... });
+ *
+ * // Or inside Express
+ * app.use('/agent', agent.handle);
+ * ```
+ */
+export function createAgentServer(options: AgentServerOptions): AgentServer {
+  return new AgentServer(options);
+}
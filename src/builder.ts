@@ -0,0 +1,186 @@
+/**
+ * AI Spine SDK Flow Builder
+ *
+ * Fluent, typed alternative to writing FlowNode arrays by hand
+ */
+
+import { FlowCreateRequest, FlowNode } from './types';
+import { ValidationError } from './errors';
+import { throwIfValidationErrors, validateFlowDefinition } from './utils';
+
+export type FlowBuilderOptions = Omit<FlowCreateRequest, 'flow_id' | 'nodes' | 'entry_point' | 'exit_points'>;
+
+export type AgentNodeOptions = Required<Pick<FlowNode, 'agent_id'>> & Pick<FlowNode, 'config'>;
+
+export type IONodeOptions = Pick<FlowNode, 'agent_id' | 'config'>;
+
+/**
+ * Builds a FlowCreateRequest step by step
+ *
+ * Agent nodes are declared with agent() and wired with then(), parallel() and
+ * join(). Node ids are tracked in the builder's type, so wiring a node that
+ * hasn't been declared is a compile-time error.
+ *
+ * @example
+ * ```typescript
+ * const flow = new FlowBuilder('customer-sentiment', {
+ *   name: 'Customer Sentiment',
+ *   description: 'Analyze sentiment and topics, then summarize'
+ * })
+ *   .agent('sentiment', { agent_id: 'sentiment_agent' })
+ *   .agent('topics', { agent_id: 'topic_agent' })
+ *   .agent('insights', { agent_id: 'insight_agent', config: { timeout: 30000 } })
+ *   .input()
+ *   .parallel('sentiment', 'topics')
+ *   .join('insights')
+ *   .output()
+ *   .build();
+ *
+ * await spine.createFlow(flow);
+ * ```
+ */
+export class FlowBuilder<Ids extends string = never> {
+  private readonly nodes: Map<string, FlowNode> = new Map();
+  private readonly placed: string[] = [];
+  private readonly exitPoints: string[] = [];
+  private entryPoint?: string;
+  private cursor: string[] = [];
+
+  constructor(
+    private readonly flowId: string,
+    private readonly options: FlowBuilderOptions
+  ) {}
+
+  /**
+   * Declare an agent (processor) node; wire it with then(), parallel() or join()
+   */
+  agent<Id extends string>(id: Id, options: AgentNodeOptions): FlowBuilder<Ids | Id> {
+    this.addNode({ id, type: 'processor', ...options });
+    return this as unknown as FlowBuilder<Ids | Id>;
+  }
+
+  /**
+   * Add the input node; the first input node becomes the entry point
+   */
+  input<Id extends string = 'input'>(id: Id = 'input' as Id, options: IONodeOptions = {}): FlowBuilder<Ids | Id> {
+    this.addNode({ id, type: 'input', ...options });
+    this.place(id);
+    this.entryPoint = this.entryPoint || id;
+    this.cursor = [id];
+    return this as unknown as FlowBuilder<Ids | Id>;
+  }
+
+  /**
+   * Run a declared node after the current step
+   */
+  then(id: Ids): this {
+    if (this.cursor.length > 1) {
+      throw new ValidationError(
+        `Cannot continue ${this.cursor.length} parallel branches with then("${id}"); use join() to merge them`
+      );
+    }
+    this.connect(id);
+    this.cursor = [id];
+    return this;
+  }
+
+  /**
+   * Run declared nodes side by side after the current step
+   */
+  parallel(...ids: Ids[]): this {
+    if (ids.length === 0) {
+      throw new ValidationError('parallel() needs at least one node');
+    }
+    ids.forEach(id => this.connect(id));
+    this.cursor = [...ids];
+    return this;
+  }
+
+  /**
+   * Run a declared node once every current branch has finished
+   */
+  join(id: Ids): this {
+    this.connect(id);
+    this.cursor = [id];
+    return this;
+  }
+
+  /**
+   * Add an output node after the current step(s) and mark it as an exit point
+   */
+  output<Id extends string = 'output'>(id: Id = 'output' as Id, options: IONodeOptions = {}): FlowBuilder<Ids | Id> {
+    this.addNode({ id, type: 'output', ...options });
+    this.connect(id);
+    this.exitPoints.push(id);
+    this.cursor = [id];
+    return this as unknown as FlowBuilder<Ids | Id>;
+  }
+
+  /**
+   * Validate the graph and return the flow definition
+   *
+   * @throws ValidationError when the graph is invalid (see validateFlowDefinition)
+   */
+  build(): FlowCreateRequest {
+    if (!this.entryPoint) {
+      throw new ValidationError('Flow needs an input node; call input() before build()', [{
+        field: 'entry_point',
+        message: 'entry_point is required',
+        code: 'required',
+      }]);
+    }
+
+    // Wired nodes first, in the order they were placed, then anything left unconnected
+    const order = [...this.placed, ...Array.from(this.nodes.keys()).filter(id => !this.placed.includes(id))];
+    const flow: FlowCreateRequest = {
+      flow_id: this.flowId,
+      ...this.options,
+      nodes: order.map(id => {
+        const node = this.nodes.get(id)!;
+        return { ...node, ...(node.depends_on ? { depends_on: [...node.depends_on] } : {}) };
+      }),
+      entry_point: this.entryPoint,
+      ...(this.exitPoints.length > 0 ? { exit_points: [...this.exitPoints] } : {}),
+    };
+
+    throwIfValidationErrors(validateFlowDefinition(flow), 'Flow definition validation failed');
+    return flow;
+  }
+
+  private addNode(node: FlowNode): void {
+    if (this.nodes.has(node.id)) {
+      throw new ValidationError(`Node "${node.id}" is already defined`, [{
+        field: 'id',
+        message: `Duplicate node id "${node.id}"`,
+        code: 'duplicate_node',
+        value: node.id,
+      }]);
+    }
+    this.nodes.set(node.id, node);
+  }
+
+  private connect(id: string): void {
+    const node = this.nodes.get(id);
+    if (!node) {
+      throw new ValidationError(`Node "${id}" has not been declared; add it with agent() first`, [{
+        field: 'id',
+        message: `Unknown node "${id}"`,
+        code: 'missing_node',
+        value: id,
+      }]);
+    }
+    if (this.cursor.length === 0) {
+      throw new ValidationError(`Cannot wire "${id}" before input()`);
+    }
+
+    const dependsOn = node.depends_on || [];
+    node.depends_on = [...dependsOn, ...this.cursor.filter(dependency => !dependsOn.includes(dependency))];
+    this.place(id);
+  }
+
+  private place(id: string): void {
+    if (!this.placed.includes(id)) {
+      this.placed.push(id);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * AI Spine SDK Capability Registry
+ *
+ * Single source of the agent capabilities registerAgent accepts: the built-in
+ * list, extended by configuration, registerCapability() and the server
+ */
+
+import { CapabilityRegistryOptions } from './types';
+import { ValidationError } from './errors';
+
+/**
+ * Capabilities every AI Spine server supports
+ */
+export const BUILT_IN_AGENT_CAPABILITIES = [
+  'conversation',
+  'information_gathering',
+  'credit_analysis',
+  'risk_assessment',
+  'document_processing',
+  'decision_making',
+] as const;
+
+// Same format as agent ids
+const CAPABILITY_PATTERN = /^[a-zA-Z0-9_-]{1,100}$/;
+
+export class CapabilityRegistry {
+  private readonly capabilities: Set<string> = new Set(BUILT_IN_AGENT_CAPABILITIES);
+
+  constructor(options: Pick<CapabilityRegistryOptions, 'custom'> = {}) {
+    this.register(...(options.custom || []));
+  }
+
+  /**
+   * Add capabilities; names already known are ignored
+   *
+   * @throws ValidationError for names that aren't 1-100 letters, digits, underscores or hyphens
+   */
+  register(...names: string[]): void {
+    const invalid = names.filter(name => typeof name !== 'string' || !CAPABILITY_PATTERN.test(name));
+    if (invalid.length > 0) {
+      throw new ValidationError(
+        `Invalid capability names: ${invalid.map(name => JSON.stringify(name)).join(', ')}`,
+        invalid.map(name => ({
+          field: 'capabilities',
+          message: 'Capability names may only contain letters, digits, underscores and hyphens',
+          code: 'invalid_value',
+          value: name,
+        }))
+      );
+    }
+    names.forEach(name => this.capabilities.add(name));
+  }
+
+  has(name: string): boolean {
+    return this.capabilities.has(name);
+  }
+
+  /**
+   * Known capabilities: built-ins first, then in registration order
+   */
+  list(): string[] {
+    return Array.from(this.capabilities);
+  }
+
+  /**
+   * Returns the capabilities that aren't registered
+   */
+  unknown(names: string[]): string[] {
+    return names.filter(name => !this.capabilities.has(name));
+  }
+}
@@ -4,7 +4,6 @@
  * Handles all HTTP communications with the AI Spine API
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
 import { 
   AISpineConfig, 
   RequestOptions, 
@@ -15,17 +14,31 @@ import {
   ApiKeyRevokeResponse,
   UserProfile,
   UserApiKeyStatus,
-  UserApiKeyGenerateResponse
+  UserApiKeyGenerateResponse,
+  HttpMethod,
+  Middleware,
+  RetryContext,
+  Transport,
+  TransportRequest,
+  TransportResponse
 } from './types';
 import { 
   createErrorFromResponse, 
   NetworkError, 
   TimeoutError,
+  AbortError,
   AISpineError 
 } from './errors';
+import { createTransport, TransportError } from './transport';
+import { computeRetryDelay, isIdempotentRequest, resolveRetryPolicy, shouldRetry } from './retry';
+import { IdempotencyCache } from './idempotency';
+import { delay, generateIdempotencyKey, throwIfAborted } from './utils';
 
 export class AISpineClient {
-  private readonly http: AxiosInstance;
+  private transport: Transport;
+  private readonly headers: Record<string, string>;
+  private readonly middleware: Middleware[] = [];
+  private readonly idempotencyCache?: IdempotencyCache;
   private readonly config: AISpineConfig & { apiKey: string };
 
   constructor(config: AISpineConfig | string) {
@@ -49,13 +62,17 @@ export class AISpineClient {
       supabaseToken: config.supabaseToken,
       baseURL: config.baseURL || 'https://ai-spine-api.up.railway.app',
       timeout: config.timeout || 30000,
-      retries: config.retries || 3,
+      retries: config.retries ?? 3,
       debug: config.debug || false,
-      onCreditsLow: config.onCreditsLow || (() => {})
+      onCreditsLow: config.onCreditsLow || (() => {}),
+      transport: config.transport || 'axios',
+      retryPolicy: config.retryPolicy,
+      idempotencyCache: config.idempotencyCache,
+      polling: config.polling,
     }
 
-    // Create axios instance
-    const headers: Record<string, string> = {
+    // Default request headers
+    this.headers = {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
       'Authorization': `Bearer ${this.config.apiKey}`,
@@ -64,60 +81,91 @@ export class AISpineClient {
 
     // Only add User-Agent in Node.js environment (not in browsers)
     if (typeof window === 'undefined') {
-      headers['User-Agent'] = '@ai-spine/sdk-js/2.5.4';
+      this.headers['User-Agent'] = '@ai-spine/sdk-js/2.5.4';
     }
 
-    this.http = axios.create({
-      baseURL: this.config.baseURL,
-      timeout: this.config.timeout,
-      headers,
-    });
+    this.transport = createTransport(this.config.transport);
 
-    // Setup interceptors
-    this.setupInterceptors();
+    if (config.idempotencyCache !== false) {
+      this.idempotencyCache = new IdempotencyCache(config.idempotencyCache);
+    }
   }
 
-  private setupInterceptors(): void {
-    // Request interceptor for debugging
-    this.http.interceptors.request.use(
-      (config) => {
-        if (this.config.debug) {
-          console.log(`[AI Spine SDK] ${config.method?.toUpperCase()} ${config.url}`, {
-            headers: config.headers,
-            data: config.data,
-          });
-        }
-        return config;
-      },
-      (error) => {
-        if (this.config.debug) {
-          console.error('[AI Spine SDK] Request error:', error);
-        }
-        return Promise.reject(error);
+  /**
+   * Register a request/response middleware
+   *
+   * Middleware run in registration order around every request attempt.
+   * @returns Function that removes the middleware again
+   */
+  public use(middleware: Middleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      const index = this.middleware.indexOf(middleware);
+      if (index !== -1) {
+        this.middleware.splice(index, 1);
       }
-    );
+    };
+  }
 
-    // Response interceptor for error handling and debugging
-    this.http.interceptors.response.use(
-      (response) => {
-        if (this.config.debug) {
-          console.log(`[AI Spine SDK] Response ${response.status}:`, {
-            status: response.status,
-            data: response.data,
-          });
-        }
-        return response;
-      },
-      (error) => {
-        if (this.config.debug) {
-          console.error('[AI Spine SDK] Response error:', error);
-        }
-        return Promise.reject(this.handleError(error));
+  private async dispatch<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const chain = [...this.middleware];
+    const run = (index: number, current: TransportRequest): Promise<TransportResponse> => {
+      if (index >= chain.length) {
+        return this.send(current);
       }
-    );
+      return chain[index](current, next => run(index + 1, next));
+    };
+
+    try {
+      return await run(0, { ...request, headers: { ...request.headers } });
+    } catch (error) {
+      throw this.handleError(error);
+    }
   }
 
-  private handleError(error: AxiosError): AISpineError {
+  private async send<T>(request: TransportRequest): Promise<TransportResponse<T>> {
+    if (this.config.debug) {
+      console.log(`[AI Spine SDK] ${request.method} ${request.url}`, {
+        headers: request.headers,
+        data: request.data,
+      });
+    }
+
+    try {
+      const response = await this.transport.request<T>(request);
+      if (this.config.debug) {
+        console.log(`[AI Spine SDK] Response ${response.status}:`, {
+          status: response.status,
+          data: response.data,
+        });
+      }
+      return response;
+    } catch (error) {
+      if (this.config.debug) {
+        console.error('[AI Spine SDK] Response error:', error);
+      }
+      throw this.handleError(error);
+    }
+  }
+
+  private handleError(error: unknown): AISpineError {
+    if (error instanceof AISpineError) {
+      return error;
+    }
+
+    if (!(error instanceof TransportError)) {
+      return new AISpineError(
+        error instanceof Error ? error.message : 'Unexpected error',
+        'UNKNOWN_ERROR',
+        undefined,
+        { originalError: error }
+      );
+    }
+
+    if (error.code === 'ERR_CANCELED') {
+      return new AbortError('Request was aborted');
+    }
+
     // Network or timeout errors
     if (!error.response) {
       if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
@@ -130,25 +178,33 @@ export class AISpineClient {
     }
 
     // HTTP errors with response
-    const { status, data } = error.response;
-    return createErrorFromResponse(status, data, error.message);
+    const { status, data, headers } = error.response;
+    return createErrorFromResponse(status, data, error.message, headers);
   }
 
   private async executeWithRetry<T>(
-    requestFn: () => Promise<AxiosResponse<T>>,
-    options: RequestOptions = {}
+    requestFn: () => Promise<TransportResponse<T>>,
+    options: RequestOptions = {},
+    request?: Pick<TransportRequest, 'method' | 'url' | 'headers'>
   ): Promise<SDKResponse<T>> {
-    const maxRetries = options.retries ?? this.config.retries ?? 3;
+    const policy = resolveRetryPolicy(this.config.retryPolicy, options.retryPolicy);
+    const maxRetries = options.retries ?? policy.maxRetries ?? this.config.retries ?? 3;
+    const method = request?.method ?? 'GET';
+    const idempotent = isIdempotentRequest(method, request?.headers, policy);
+    const startTime = Date.now();
+    let previousDelay = 0;
     let lastError: AISpineError;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      throwIfAborted(options.signal);
+
       try {
         const response = await requestFn();
         return {
           data: response.data,
           status: response.status,
           statusText: response.statusText,
-          headers: response.headers as Record<string, string>,
+          headers: response.headers,
         };
       } catch (error) {
         lastError = error instanceof AISpineError ? error : new AISpineError(
@@ -158,34 +214,87 @@ export class AISpineClient {
           { originalError: error }
         );
 
-        // Don't retry on certain errors
-        if (
-          lastError.status === 400 || // Bad Request
-          lastError.status === 401 || // Unauthorized
-          lastError.status === 403 || // Forbidden
-          lastError.status === 404    // Not Found
-        ) {
+        // Don't retry on last attempt
+        if (attempt === maxRetries) {
           break;
         }
 
-        // Don't retry on last attempt
-        if (attempt === maxRetries) {
+        const context: RetryContext = {
+          attempt,
+          method,
+          url: request?.url ?? '',
+          elapsed: Date.now() - startTime,
+          idempotent,
+        };
+
+        if (!shouldRetry(lastError, context, policy)) {
           break;
         }
 
-        // Wait before retry (exponential backoff)
-        const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        const retryDelay = computeRetryDelay(policy, attempt, previousDelay, lastError);
+
+        // Don't retry past the total time budget
+        if (policy.maxElapsedTime !== undefined && context.elapsed + retryDelay > policy.maxElapsedTime) {
+          break;
+        }
 
         if (this.config.debug) {
-          console.log(`[AI Spine SDK] Retrying request (attempt ${attempt + 2}/${maxRetries + 1}) after ${delay}ms`);
+          console.log(`[AI Spine SDK] Retrying request (attempt ${attempt + 2}/${maxRetries + 1}) after ${retryDelay}ms`);
         }
+
+        previousDelay = retryDelay;
+        await delay(retryDelay, options.signal);
       }
     }
 
     throw lastError!;
   }
 
+  private async request<T>(
+    method: HttpMethod,
+    path: string,
+    body: {
+      params?: Record<string, any>;
+      data?: any;
+      responseType?: TransportRequest['responseType'];
+      /** Send without the Authorization header */
+      anonymous?: boolean;
+    },
+    options: RequestOptions
+  ): Promise<SDKResponse<T>> {
+    const headers = { ...this.headers };
+    if (body.anonymous) {
+      delete headers['Authorization'];
+    }
+
+    const request: TransportRequest = {
+      method,
+      baseURL: this.config.baseURL!,
+      url: path,
+      params: body.params,
+      data: body.data,
+      responseType: body.responseType,
+      headers: { ...headers, ...options.headers },
+      timeout: options.timeout ?? this.config.timeout!,
+      signal: options.signal,
+    };
+
+    // The same key is sent on every retry attempt
+    const idempotencyKey = options.idempotencyKey === true ? generateIdempotencyKey() : options.idempotencyKey;
+    if (idempotencyKey) {
+      request.headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    const execute = () => this.executeWithRetry(() => this.dispatch<T>(request), options, request);
+
+    // Caller-supplied keys return the first result when submitted again
+    if (typeof options.idempotencyKey === 'string' && this.idempotencyCache) {
+      return this.idempotencyCache.run(`${method} ${path} ${options.idempotencyKey}`, execute, options.signal);
+    }
+
+    return execute();
+  }
+
   // HTTP Methods
 
   public async get<T = any>(
@@ -193,14 +302,7 @@ export class AISpineClient {
     params?: Record<string, any>, 
     options: RequestOptions = {}
   ): Promise<SDKResponse<T>> {
-    return this.executeWithRetry(
-      () => this.http.get<T>(path, {
-        params,
-        timeout: options.timeout,
-        headers: options.headers,
-      }),
-      options
-    );
+    return this.request<T>('GET', path, { params }, options);
   }
 
   public async post<T = any>(
@@ -208,13 +310,7 @@ export class AISpineClient {
     data?: any, 
     options: RequestOptions = {}
   ): Promise<SDKResponse<T>> {
-    return this.executeWithRetry(
-      () => this.http.post<T>(path, data, {
-        timeout: options.timeout,
-        headers: options.headers,
-      }),
-      options
-    );
+    return this.request<T>('POST', path, { data }, options);
   }
 
   public async put<T = any>(
@@ -222,26 +318,14 @@ export class AISpineClient {
     data?: any, 
     options: RequestOptions = {}
   ): Promise<SDKResponse<T>> {
-    return this.executeWithRetry(
-      () => this.http.put<T>(path, data, {
-        timeout: options.timeout,
-        headers: options.headers,
-      }),
-      options
-    );
+    return this.request<T>('PUT', path, { data }, options);
   }
 
   public async delete<T = any>(
     path: string, 
     options: RequestOptions = {}
   ): Promise<SDKResponse<T>> {
-    return this.executeWithRetry(
-      () => this.http.delete<T>(path, {
-        timeout: options.timeout,
-        headers: options.headers,
-      }),
-      options
-    );
+    return this.request<T>('DELETE', path, {}, options);
   }
 
   public async patch<T = any>(
@@ -249,19 +333,27 @@ export class AISpineClient {
     data?: any, 
     options: RequestOptions = {}
   ): Promise<SDKResponse<T>> {
-    return this.executeWithRetry(
-      () => this.http.patch<T>(path, data, {
-        timeout: options.timeout,
-        headers: options.headers,
-      }),
-      options
-    );
+    return this.request<T>('PATCH', path, { data }, options);
+  }
+
+  /**
+   * Open a streaming GET request
+   *
+   * Resolves once response headers arrive; `data` is an AsyncIterable of body
+   * chunks when the transport supports streaming.
+   */
+  public async stream(
+    path: string,
+    params?: Record<string, any>,
+    options: RequestOptions = {}
+  ): Promise<SDKResponse<AsyncIterable<Uint8Array | string>>> {
+    return this.request<AsyncIterable<Uint8Array | string>>('GET', path, { params, responseType: 'stream' }, options);
   }
 
   // User Management Methods
 
-  public async getCurrentUser(): Promise<UserInfo> {
-    const response = await this.get<UserInfo>('/api/v1/users/me');
+  public async getCurrentUser(options: RequestOptions = {}): Promise<UserInfo> {
+    const response = await this.get<UserInfo>('/api/v1/users/me', undefined, options);
     
     // Check if credits are low and trigger callback
     if (this.config.onCreditsLow && response.data.credits < 100) {
@@ -271,8 +363,8 @@ export class AISpineClient {
     return response.data;
   }
 
-  public async checkCredits(): Promise<number> {
-    const user = await this.getCurrentUser();
+  public async checkCredits(options: RequestOptions = {}): Promise<number> {
+    const user = await this.getCurrentUser(options);
     return user.credits;
   }
 
@@ -284,18 +376,13 @@ export class AISpineClient {
    * @param userId - Supabase Auth user ID (UUID)
    * @returns API key status and details
    */
-  public async checkUserApiKey(userId: string): Promise<ApiKeyStatus> {
-    // These endpoints don't require authentication, so we'll create a custom request
-    const response = await axios.get<ApiKeyStatus>(
-      `${this.config.baseURL}/api/v1/user/keys/my-key`,
-      {
-        params: { user_id: userId },
-        timeout: this.config.timeout,
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        }
-      }
+  public async checkUserApiKey(userId: string, options: RequestOptions = {}): Promise<ApiKeyStatus> {
+    // These endpoints don't require authentication
+    const response = await this.request<ApiKeyStatus>(
+      'GET',
+      '/api/v1/user/keys/my-key',
+      { params: { user_id: userId }, anonymous: true },
+      options
     );
     return response.data;
   }
@@ -306,18 +393,13 @@ export class AISpineClient {
    * @param userId - Supabase Auth user ID (UUID)
    * @returns New API key and action taken
    */
-  public async generateUserApiKey(userId: string): Promise<ApiKeyGenerateResponse> {
-    // These endpoints don't require authentication, so we'll create a custom request
-    const response = await axios.post<ApiKeyGenerateResponse>(
-      `${this.config.baseURL}/api/v1/user/keys/generate`,
-      { user_id: userId },
-      {
-        timeout: this.config.timeout,
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        }
-      }
+  public async generateUserApiKey(userId: string, options: RequestOptions = {}): Promise<ApiKeyGenerateResponse> {
+    // These endpoints don't require authentication
+    const response = await this.request<ApiKeyGenerateResponse>(
+      'POST',
+      '/api/v1/user/keys/generate',
+      { data: { user_id: userId }, anonymous: true },
+      options
     );
     return response.data;
   }
@@ -328,18 +410,13 @@ export class AISpineClient {
    * @param userId - Supabase Auth user ID (UUID)
    * @returns Confirmation of revocation
    */
-  public async revokeUserApiKey(userId: string): Promise<ApiKeyRevokeResponse> {
-    // These endpoints don't require authentication, so we'll create a custom request
-    const response = await axios.delete<ApiKeyRevokeResponse>(
-      `${this.config.baseURL}/api/v1/user/keys/revoke`,
-      {
-        data: { user_id: userId },
-        timeout: this.config.timeout,
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        }
-      }
+  public async revokeUserApiKey(userId: string, options: RequestOptions = {}): Promise<ApiKeyRevokeResponse> {
+    // These endpoints don't require authentication
+    const response = await this.request<ApiKeyRevokeResponse>(
+      'DELETE',
+      '/api/v1/user/keys/revoke',
+      { data: { user_id: userId }, anonymous: true },
+      options
     );
     return response.data;
   }
@@ -350,7 +427,7 @@ export class AISpineClient {
    * Get user profile using Supabase token
    * @returns User profile information
    */
-  public async getUserProfile(): Promise<UserProfile> {
+  public async getUserProfile(options: RequestOptions = {}): Promise<UserProfile> {
     if (!this.config.supabaseToken) {
       throw new Error('Supabase token is required for user account methods');
     }
@@ -359,7 +436,9 @@ export class AISpineClient {
       '/api/v1/user/account/profile',
       undefined,
       {
+        ...options,
         headers: {
+          ...options.headers,
           'Authorization': `Bearer ${this.config.supabaseToken}`
         }
       }
@@ -371,7 +450,7 @@ export class AISpineClient {
    * Get user's API key status using Supabase token
    * @returns API key status (masked key, credits, etc.)
    */
-  public async getUserApiKeyStatus(): Promise<UserApiKeyStatus> {
+  public async getUserApiKeyStatus(options: RequestOptions = {}): Promise<UserApiKeyStatus> {
     if (!this.config.supabaseToken) {
       throw new Error('Supabase token is required for user account methods');
     }
@@ -380,7 +459,9 @@ export class AISpineClient {
       '/api/v1/user/account/api-key/status',
       undefined,
       {
+        ...options,
         headers: {
+          ...options.headers,
           'Authorization': `Bearer ${this.config.supabaseToken}`
         }
       }
@@ -392,7 +473,7 @@ export class AISpineClient {
    * Generate or regenerate user's API key using Supabase token
    * @returns New API key (shown only once)
    */
-  public async generateApiKey(): Promise<UserApiKeyGenerateResponse> {
+  public async generateApiKey(options: RequestOptions = {}): Promise<UserApiKeyGenerateResponse> {
     if (!this.config.supabaseToken) {
       throw new Error('Supabase token is required for user account methods');
     }
@@ -401,7 +482,9 @@ export class AISpineClient {
       '/api/v1/user/account/api-key/generate',
       {},
       {
+        ...options,
         headers: {
+          ...options.headers,
           'Authorization': `Bearer ${this.config.supabaseToken}`
         }
       }
@@ -413,7 +496,7 @@ export class AISpineClient {
    * Revoke user's API key using Supabase token
    * @returns Confirmation message
    */
-  public async revokeApiKey(): Promise<{ message: string; status: string }> {
+  public async revokeApiKey(options: RequestOptions = {}): Promise<{ message: string; status: string }> {
     if (!this.config.supabaseToken) {
       throw new Error('Supabase token is required for user account methods');
     }
@@ -422,7 +505,9 @@ export class AISpineClient {
       '/api/v1/user/account/api-key/revoke',
       {},
       {
+        ...options,
         headers: {
+          ...options.headers,
           'Authorization': `Bearer ${this.config.supabaseToken}`
         }
       }
@@ -439,18 +524,21 @@ export class AISpineClient {
   public updateConfig(updates: Partial<AISpineConfig>): void {
     Object.assign(this.config, updates);
     
-    // Update axios instance if necessary
-    if (updates.baseURL) {
-      this.http.defaults.baseURL = updates.baseURL;
-    }
-    
-    if (updates.timeout) {
-      this.http.defaults.timeout = updates.timeout;
-    }
-    
+    // baseURL and timeout are read from config on every request
     if (updates.apiKey) {
-      this.http.defaults.headers['Authorization'] = `Bearer ${updates.apiKey}`;
+      this.headers['Authorization'] = `Bearer ${updates.apiKey}`;
     }
+
+    if (updates.transport) {
+      this.transport = createTransport(updates.transport);
+    }
+  }
+
+  /**
+   * Forget all results cached by idempotency key
+   */
+  public clearIdempotencyCache(): void {
+    this.idempotencyCache?.clear();
   }
 
   public async healthCheck(): Promise<SDKResponse<{ status: string; version?: string }>> {
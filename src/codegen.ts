@@ -0,0 +1,160 @@
+/**
+ * AI Spine SDK Code Generation
+ *
+ * Emits a TypeScript declaration module for the flows and agents of an account,
+ * so flow ids and agent environments are checked at compile time
+ */
+
+import { AgentEnvironmentField, AgentEnvironmentSchema, TypeGenerationOptions, TypeGenerationSource } from './types';
+
+const FIELD_TYPES: Record<AgentEnvironmentField['type'], string> = {
+  string: 'string',
+  password: 'string',
+  number: 'number',
+  boolean: 'boolean',
+};
+
+function literal(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+}
+
+function union(values: string[]): string {
+  return values.length === 0 ? ' never' : values.map(value => `\n  | ${literal(value)}`).join('');
+}
+
+/**
+ * JSDoc block for the given lines, indented by `indent`
+ */
+function docComment(lines: string[], indent: string = ''): string[] {
+  const escaped = lines.filter(Boolean).map(line => line.replace(/\*\//g, '*\\/'));
+  if (escaped.length === 0) {
+    return [];
+  }
+  if (escaped.length === 1) {
+    return [`${indent}/** ${escaped[0]} */`];
+  }
+  return [`${indent}/**`, ...escaped.map(line => `${indent} * ${line}`), `${indent} */`];
+}
+
+/**
+ * PascalCase interface name for an agent, e.g. restaurant_agent -> RestaurantAgentEnvironment
+ */
+function environmentTypeName(agentId: string, taken: Set<string>): string {
+  const base = agentId
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  const name = `${/^[A-Za-z]/.test(base) ? base : `Agent${base}`}Environment`;
+
+  let unique = name;
+  for (let suffix = 2; taken.has(unique); suffix++) {
+    unique = `${name}${suffix}`;
+  }
+  taken.add(unique);
+  return unique;
+}
+
+function environmentInterface(name: string, schema: AgentEnvironmentSchema): string[] {
+  const lines = [`export interface ${name} {`];
+  for (const [field, definition] of Object.entries(schema)) {
+    const secret = definition.type === 'password' || definition.sensitive;
+    const hasDefault = definition.default_value !== undefined && !secret;
+    lines.push(
+      ...docComment([
+        definition.description,
+        ...(hasDefault ? [`@default ${JSON.stringify(definition.default_value)}`] : []),
+      ], '  '),
+      `  ${propertyName(field)}${definition.required ? '' : '?'}: ${FIELD_TYPES[definition.type] || 'string'};`
+    );
+  }
+  lines.push('}');
+  return lines;
+}
+
+/**
+ * Generates a `.d.ts` module describing flows and agents
+ *
+ * The module contains:
+ * - `FlowId` and `AgentId` unions of the known ids
+ * - one `<Agent>Environment` interface per agent, from its environment_schema
+ *   (password fields are strings, required fields are not optional), collected
+ *   in `AgentEnvironments`
+ * - `FlowInputs` and `FlowOutputs` keyed by flow id (flows don't declare schemas,
+ *   so these are `Record<string, any>`)
+ * - `TypedAISpine`, an AISpine whose executeFlow only accepts known flow ids
+ *
+ * Output is deterministic (sorted by id), so it can be committed and diffed.
+ *
+ * @param source - Flows and agents to describe
+ * @param options - Import path of the SDK
+ * @returns Source of the declaration module
+ *
+ * @example
+ * ```typescript
+ * const source = generateTypeDefinitions({ flows: await spine.listFlows(), agents: await spine.listAgents() });
+ * fs.writeFileSync('src/ai-spine.generated.d.ts', source);
+ * ```
+ */
+export function generateTypeDefinitions(source: TypeGenerationSource, options: TypeGenerationOptions = {}): string {
+  const byId = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+  const flows = [...source.flows].sort((a, b) => byId(a.flow_id, b.flow_id));
+  const agents = [...source.agents].sort((a, b) => byId(a.agent_id, b.agent_id));
+  const taken: Set<string> = new Set();
+
+  const lines = [
+    '// Generated by ai-spine-sdk generateTypes(); do not edit by hand.',
+    '',
+    `import type { AISpine, ExecuteFlowOptions, ExecutionHandle } from ${literal(options.importPath || 'ai-spine-sdk')};`,
+    '',
+    `export type FlowId =${union(flows.map(flow => flow.flow_id))};`,
+    '',
+    `export type AgentId =${union(agents.map(agent => agent.agent_id))};`,
+  ];
+
+  const environments: Array<[string, string]> = [];
+  for (const agent of agents) {
+    const name = environmentTypeName(agent.agent_id, taken);
+    environments.push([agent.agent_id, name]);
+    lines.push(
+      '',
+      ...docComment([`Environment variables of ${agent.name} (${agent.agent_id})`]),
+      ...environmentInterface(name, agent.environment_schema || {})
+    );
+  }
+
+  lines.push('', 'export interface AgentEnvironments {');
+  lines.push(...environments.map(([agentId, name]) => `  ${propertyName(agentId)}: ${name};`));
+  lines.push('}');
+
+  for (const [name, description] of [['FlowInputs', 'input_data'], ['FlowOutputs', 'output_data']]) {
+    lines.push('', `/** ${description} of each flow */`, `export interface ${name} {`);
+    for (const flow of flows) {
+      const agentIds = Array.from(new Set(flow.nodes.map(node => node.agent_id).filter(Boolean)));
+      lines.push(
+        ...docComment([flow.name, agentIds.length > 0 ? `Agents: ${agentIds.join(', ')}` : ''], '  '),
+        `  ${propertyName(flow.flow_id)}: Record<string, any>;`
+      );
+    }
+    lines.push('}');
+  }
+
+  lines.push(
+    '',
+    '/** AISpine whose executeFlow only accepts known flow ids: `new AISpine(config) as TypedAISpine` */',
+    "export type TypedAISpine = Omit<AISpine, 'executeFlow'> & {",
+    '  executeFlow<F extends FlowId>(',
+    '    flowId: F,',
+    '    input: FlowInputs[F],',
+    '    options?: ExecuteFlowOptions',
+    '  ): Promise<ExecutionHandle<FlowInputs[F], FlowOutputs[F]>>;',
+    '};',
+    ''
+  );
+
+  return lines.join('\n');
+}
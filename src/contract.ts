@@ -0,0 +1,323 @@
+/**
+ * AI Spine SDK Agent Contract Tests
+ *
+ * Checks that an agent endpoint speaks the AgentExecutionRequest/AgentExecutionResponse
+ * protocol before it is registered
+ */
+
+import {
+  AgentContractCase,
+  AgentContractCaseResult,
+  AgentContractFixtures,
+  AgentContractOptions,
+  AgentContractReport,
+  AgentEnvironmentField,
+  AgentExecutionRequest,
+  TransportResponse,
+} from './types';
+import { ValidationError } from './errors';
+import { createTransport, TransportError } from './transport';
+import { AgentServer } from './agentServer';
+
+const CONTRACT_CASES: AgentContractCase[] = [
+  'minimal-input',
+  'missing-required-environment',
+  'wrong-environment-types',
+  'oversized-payload',
+  'timeout',
+];
+
+const DEFAULT_TIMEOUT = 50;
+const DEFAULT_PAYLOAD_SIZE = 2 * 1024 * 1024;
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+const WRONG_TYPES: Record<AgentEnvironmentField['type'], string | number> = {
+  string: 12345,
+  password: 12345,
+  number: 'not-a-number',
+  boolean: 'yes',
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+interface CaseRequest {
+  body?: AgentExecutionRequest;
+  /** Why the case can't run with the given fixtures */
+  skip?: string;
+}
+
+interface CaseOutcome {
+  http_status?: number;
+  response?: unknown;
+  /** Network failure, when no response arrived */
+  error?: string;
+  roundtrip: number;
+}
+
+type CaseCheck = (outcome: CaseOutcome, fixtures: AgentContractFixtures) => string[];
+
+/**
+ * Assertions every AgentExecutionResponse must satisfy
+ */
+function checkResponseShape(response: unknown): string[] {
+  if (!isObject(response)) {
+    return ['Response body is not a JSON object'];
+  }
+
+  const messages: string[] = [];
+  if (response.status !== 'success' && response.status !== 'error') {
+    messages.push(`status must be 'success' or 'error', got ${JSON.stringify(response.status)}`);
+  }
+  if (!isObject(response.output)) {
+    messages.push('output must be an object');
+  }
+  if (response.execution_time !== undefined && !(typeof response.execution_time === 'number' && response.execution_time >= 0)) {
+    messages.push('execution_time must be a non-negative number');
+  }
+  if (response.metadata !== undefined && !isObject(response.metadata)) {
+    messages.push('metadata must be an object');
+  }
+  if (response.status === 'error' && !(typeof response.error_message === 'string' && response.error_message.trim())) {
+    messages.push('Error responses must have an error_message');
+  }
+  if (response.status === 'success' && response.error_message !== undefined && response.error_message !== null) {
+    messages.push('Successful responses must not have an error_message');
+  }
+  return messages;
+}
+
+/**
+ * Expects a response with the given status, after the shape checks passed
+ */
+function expectStatus(expected: 'success' | 'error', reason: string): CaseCheck {
+  return ({ response }) => {
+    const status = (response as Record<string, any>).status;
+    return status === expected ? [] : [`Expected status '${expected}' ${reason}, got '${status}'`];
+  };
+}
+
+function buildRequest(testCase: AgentContractCase, fixtures: AgentContractFixtures): CaseRequest {
+  const environment = { ...fixtures.environment };
+  const schema = fixtures.environmentSchema;
+  const request = (config: AgentExecutionRequest['config'] = {}, input = fixtures.input): CaseRequest => ({
+    body: { input, config: { ...config, environment: config.environment ?? environment } },
+  });
+
+  switch (testCase) {
+    case 'minimal-input':
+      return request();
+
+    case 'missing-required-environment': {
+      const required = Object.keys(schema || {}).find(field => schema![field].required);
+      if (!required) {
+        return { skip: 'No required environment field in environmentSchema' };
+      }
+      const missing = { ...environment };
+      delete missing[required];
+      return request({ environment: missing });
+    }
+
+    case 'wrong-environment-types': {
+      if (!schema || Object.keys(schema).length === 0) {
+        return { skip: 'No environmentSchema fixture' };
+      }
+      const wrong: Record<string, string | number | boolean> = { ...environment };
+      for (const [field, definition] of Object.entries(schema)) {
+        wrong[field] = WRONG_TYPES[definition.type] ?? 12345;
+      }
+      return request({ environment: wrong });
+    }
+
+    case 'oversized-payload':
+      return request({}, { ...fixtures.input, _padding: 'x'.repeat(fixtures.payloadSize ?? DEFAULT_PAYLOAD_SIZE) });
+
+    case 'timeout':
+      return request({ timeout: fixtures.timeout ?? DEFAULT_TIMEOUT }, fixtures.slowInput ?? fixtures.input);
+  }
+}
+
+const CHECKS: Record<AgentContractCase, CaseCheck> = {
+  'minimal-input': expectStatus('success', 'for the minimal input'),
+
+  'missing-required-environment': expectStatus('error', 'when a required environment variable is missing'),
+
+  'wrong-environment-types': expectStatus('error', 'for environment values of the wrong type'),
+
+  'oversized-payload': expectStatus('error', 'for an oversized payload'),
+
+  // The agent may also finish within config.timeout
+  'timeout': ({ response, roundtrip }, fixtures) => {
+    const timeout = fixtures.timeout ?? DEFAULT_TIMEOUT;
+    const body = response as Record<string, any>;
+    if (body.status === 'error') {
+      return [];
+    }
+    const elapsed = typeof body.execution_time === 'number' ? body.execution_time : roundtrip;
+    return elapsed <= timeout
+      ? []
+      : [`Expected status 'error' when config.timeout of ${timeout}ms is exceeded, got 'success' after ${elapsed}ms`];
+  },
+};
+
+async function runCase(
+  testCase: AgentContractCase,
+  endpoint: string,
+  fixtures: AgentContractFixtures,
+  options: AgentContractOptions
+): Promise<AgentContractCaseResult> {
+  const start = Date.now();
+  const { body, skip } = buildRequest(testCase, fixtures);
+  if (!body) {
+    return { case: testCase, status: 'skipped', messages: [skip!], duration: 0 };
+  }
+
+  const outcome: CaseOutcome = { roundtrip: 0 };
+  let response: TransportResponse | undefined;
+  try {
+    response = await createTransport(options.transport).request({
+      method: 'POST',
+      baseURL: endpoint,
+      url: endpoint,
+      data: body,
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      timeout: options.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT,
+    });
+  } catch (error) {
+    response = error instanceof TransportError ? error.response : undefined;
+    if (!response) {
+      outcome.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+  outcome.roundtrip = Date.now() - start;
+
+  if (response) {
+    outcome.http_status = response.status;
+    outcome.response = response.data;
+  }
+
+  let messages: string[];
+  if (outcome.error !== undefined) {
+    messages = [`Request failed: ${outcome.error}`];
+  } else if (testCase === 'oversized-payload' && outcome.http_status === 413) {
+    // Rejecting the body outright is as good as an error response, whatever its body
+    messages = [];
+  } else {
+    messages = checkResponseShape(outcome.response);
+    if (messages.length === 0) {
+      messages = CHECKS[testCase](outcome, fixtures);
+    }
+  }
+
+  return {
+    case: testCase,
+    status: messages.length === 0 ? 'passed' : 'failed',
+    messages,
+    ...(outcome.http_status !== undefined ? { http_status: outcome.http_status } : {}),
+    ...(outcome.response !== undefined ? { response: outcome.response } : {}),
+    duration: outcome.roundtrip,
+  };
+}
+
+/**
+ * Sends a suite of AgentExecutionRequests to an agent and checks its answers
+ *
+ * Cases:
+ * - `minimal-input`: `fixtures.input` with a valid environment must succeed
+ * - `missing-required-environment`: the first required schema field is left
+ *   out; the agent must answer with an error
+ * - `wrong-environment-types`: every schema field gets a value of the wrong
+ *   type; the agent must answer with an error
+ * - `oversized-payload`: the input is padded to `payloadSize`; the agent must
+ *   reject it with HTTP 413 or an error response
+ * - `timeout`: `slowInput` is sent with config.timeout set to `timeout`; the
+ *   agent must answer with an error, unless it finished in time
+ *
+ * Every response must be an AgentExecutionResponse: status 'success' or
+ * 'error', an object output, a numeric execution_time when present, and an
+ * error_message only (and always) on errors. Environment cases are skipped
+ * without an environmentSchema fixture.
+ *
+ * @param endpoint - URL of the agent, or an AgentServer (started on a free port
+ *   for the run when it isn't listening)
+ * @param fixtures - Inputs and environment to build the cases from
+ * @param options - Transport, headers, timeouts and the cases to run
+ * @returns Report with the result of each case
+ * @throws ValidationError for unknown cases or a missing input fixture
+ *
+ * @example
+ * ```typescript
+ * const report = await verifyAgentContract('http://localhost:8080/', {
+ *   input: { text: 'hello' },
+ *   environment: { OPENAI_API_KEY: process.env.OPENAI_API_KEY! },
+ *   environmentSchema: agent.environment_schema,
+ *   slowInput: { text: longDocument },
+ *   timeout: 100
+ * });
+ * console.log(formatAgentContractReport(report));
+ * if (report.passed) {
+ *   await spine.registerAgent(agent);
+ * }
+ * ```
+ */
+export async function verifyAgentContract(
+  endpoint: string | AgentServer,
+  fixtures: AgentContractFixtures,
+  options: AgentContractOptions = {}
+): Promise<AgentContractReport> {
+  if (!isObject(fixtures?.input)) {
+    throw new ValidationError('verifyAgentContract requires an input fixture object');
+  }
+  const cases = options.cases || CONTRACT_CASES;
+  const unknown = cases.filter(testCase => !CONTRACT_CASES.includes(testCase));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown contract cases: ${unknown.join(', ')}`);
+  }
+
+  const server = endpoint instanceof AgentServer && !endpoint.server ? endpoint : undefined;
+  let url: string;
+  if (server) {
+    url = await server.listen(0, '127.0.0.1');
+  } else {
+    url = endpoint instanceof AgentServer ? endpoint.url! : endpoint;
+  }
+
+  const results: AgentContractCaseResult[] = [];
+  try {
+    // Sequential, so the timeout case isn't skewed by the other requests
+    for (const testCase of cases) {
+      results.push(await runCase(testCase, url, fixtures, options));
+    }
+  } finally {
+    await server?.close();
+  }
+
+  const count = (status: AgentContractCaseResult['status']) => results.filter(result => result.status === status).length;
+  return {
+    endpoint: url,
+    passed: count('failed') === 0,
+    passedCount: count('passed'),
+    failedCount: count('failed'),
+    skippedCount: count('skipped'),
+    results,
+  };
+}
+
+/**
+ * Formats a contract report for terminals
+ */
+export function formatAgentContractReport(report: AgentContractReport): string {
+  const width = Math.max(...report.results.map(result => result.case.length));
+  const lines = [report.endpoint];
+  for (const result of report.results) {
+    const label = result.status === 'passed' ? 'PASS' : result.status === 'failed' ? 'FAIL' : 'SKIP';
+    const status = result.http_status !== undefined ? `  HTTP ${result.http_status}` : '';
+    lines.push(`  ${label}  ${result.case.padEnd(width)}${status}`);
+    lines.push(...result.messages.map(message => `        ${message}`));
+  }
+  lines.push('');
+  lines.push(
+    `${report.passed ? 'Passed' : 'Failed'}: ${report.passedCount} passed, ${report.failedCount} failed, ${report.skippedCount} skipped`
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,319 @@
+/**
+ * AI Spine SDK Flow Diff
+ *
+ * Structural comparison of two flow definitions, e.g. two versions of the same
+ * flow, with text and markdown renderings for code review
+ */
+
+import { Flow, FlowDiff, FlowEdge, FlowFieldChange, FlowNode, FlowNodeDiff, TextDiffLine } from './types';
+
+const MASK = '***';
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null
+    || (Array.isArray(value) && value.length === 0)
+    || (typeof value === 'object' && !Array.isArray(value) && Object.keys(value as object).length === 0);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Appends the differences between two values to `changes`, recursing into objects
+ *
+ * Missing fields, null, empty lists and empty objects are treated as equal.
+ * Values below a `config.environment` path are masked since they may be secrets.
+ */
+export function diffValues(path: string, before: unknown, after: unknown, changes: FlowFieldChange[]): void {
+  if (isEmpty(before) && isEmpty(after)) {
+    return;
+  }
+  // Objects are compared key by key, also when one side is missing, so masked paths stay masked
+  if ((isPlainObject(before) || isEmpty(before)) && (isPlainObject(after) || isEmpty(after))) {
+    const beforeObject = (before || {}) as Record<string, unknown>;
+    const afterObject = (after || {}) as Record<string, unknown>;
+    const keys = Array.from(new Set([...Object.keys(beforeObject), ...Object.keys(afterObject)]));
+    keys.forEach(key => diffValues(path ? `${path}.${key}` : key, beforeObject[key], afterObject[key], changes));
+    return;
+  }
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return;
+  }
+
+  const secret = /(^|\.)config\.environment\./.test(path);
+  changes.push({
+    path,
+    ...(!isEmpty(before) ? { before: secret ? MASK : before } : {}),
+    ...(!isEmpty(after) ? { after: secret ? MASK : after } : {}),
+  });
+}
+
+/**
+ * Line diff of two texts (longest common subsequence)
+ */
+export function diffText(before: string, after: string): TextDiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: TextDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j >= b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removals first, like unified diffs
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  return lines;
+}
+
+/**
+ * Copy of a node with its environment values masked
+ */
+function maskNode(node: FlowNode): FlowNode {
+  const environment = node.config?.environment;
+  if (!environment) {
+    return node;
+  }
+  return {
+    ...node,
+    config: { ...node.config, environment: Object.fromEntries(Object.keys(environment).map(key => [key, MASK])) },
+  };
+}
+
+function edgesOf(flow: Flow): FlowEdge[] {
+  return flow.nodes.flatMap(node => (node.depends_on || []).map(from => ({ from, to: node.id })));
+}
+
+function diffNode(before: FlowNode, after: FlowNode): FlowNodeDiff | undefined {
+  const changes: FlowFieldChange[] = [];
+  diffValues('type', before.type, after.type, changes);
+  diffValues('agent_id', before.agent_id, after.agent_id, changes);
+
+  // depends_on is reported as edges and system_prompt as a line diff
+  const { system_prompt: beforePrompt, ...beforeConfig } = before.config || {};
+  const { system_prompt: afterPrompt, ...afterConfig } = after.config || {};
+  diffValues('config', beforeConfig, afterConfig, changes);
+
+  const systemPrompt = (beforePrompt || '') !== (afterPrompt || '')
+    ? diffText(beforePrompt || '', afterPrompt || '')
+    : undefined;
+
+  if (changes.length === 0 && !systemPrompt) {
+    return undefined;
+  }
+  return { id: after.id, changes, ...(systemPrompt ? { systemPrompt } : {}) };
+}
+
+/**
+ * Compares two flow definitions, e.g. two versions of the same flow
+ *
+ * Nodes are matched by id, so reordering nodes or depends_on entries is not a
+ * change. Environment values are masked, also in added and removed nodes.
+ *
+ * @param a - The old flow
+ * @param b - The new flow
+ * @returns Structured differences; render them with formatFlowDiff()
+ *
+ * @example
+ * ```typescript
+ * const diff = diffFlows(deployedFlow, localFlow);
+ * if (diff.changed) {
+ *   console.log(formatFlowDiff(diff, 'markdown'));
+ * }
+ * ```
+ */
+export function diffFlows(a: Flow, b: Flow): FlowDiff {
+  const fields: FlowFieldChange[] = [];
+  for (const field of ['name', 'description', 'metadata'] as const) {
+    diffValues(field, a[field], b[field], fields);
+  }
+
+  const before = new Map(a.nodes.map(node => [node.id, node]));
+  const after = new Map(b.nodes.map(node => [node.id, node]));
+  const nodesModified = b.nodes
+    .filter(node => before.has(node.id))
+    .map(node => diffNode(before.get(node.id)!, node))
+    .filter((node): node is FlowNodeDiff => !!node);
+
+  const key = (edge: FlowEdge) => `${edge.from}\n${edge.to}`;
+  const beforeEdges = new Set(edgesOf(a).map(key));
+  const afterEdges = new Set(edgesOf(b).map(key));
+
+  const exitBefore = a.exit_points || [];
+  const exitAfter = b.exit_points || [];
+
+  const diff: FlowDiff = {
+    from: { flow_id: a.flow_id, ...(a.version !== undefined ? { version: a.version } : {}) },
+    to: { flow_id: b.flow_id, ...(b.version !== undefined ? { version: b.version } : {}) },
+    changed: false,
+    fields,
+    nodesAdded: b.nodes.filter(node => !before.has(node.id)).map(maskNode),
+    nodesRemoved: a.nodes.filter(node => !after.has(node.id)).map(maskNode),
+    nodesModified,
+    edgesAdded: edgesOf(b).filter(edge => !beforeEdges.has(key(edge))),
+    edgesRemoved: edgesOf(a).filter(edge => !afterEdges.has(key(edge))),
+    ...(a.entry_point !== b.entry_point ? { entryPoint: { before: a.entry_point, after: b.entry_point } } : {}),
+    exitPointsAdded: exitAfter.filter(id => !exitBefore.includes(id)),
+    exitPointsRemoved: exitBefore.filter(id => !exitAfter.includes(id)),
+  };
+
+  diff.changed = !!diff.entryPoint || [
+    diff.fields,
+    diff.nodesAdded,
+    diff.nodesRemoved,
+    diff.nodesModified,
+    diff.edgesAdded,
+    diff.edgesRemoved,
+    diff.exitPointsAdded,
+    diff.exitPointsRemoved,
+  ].some(list => list.length > 0);
+  return diff;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(none)' : JSON.stringify(value);
+}
+
+function label(side: { flow_id: string; version?: number }): string {
+  return side.version !== undefined ? `${side.flow_id}@v${side.version}` : side.flow_id;
+}
+
+function formatText(diff: FlowDiff): string {
+  const lines = [`Flow ${label(diff.from)} -> ${label(diff.to)}`];
+  if (!diff.changed) {
+    return [...lines, 'No changes'].join('\n');
+  }
+
+  if (diff.entryPoint) {
+    lines.push(`Entry point: ${diff.entryPoint.before ?? '(none)'} -> ${diff.entryPoint.after ?? '(none)'}`);
+  }
+  if (diff.exitPointsAdded.length > 0 || diff.exitPointsRemoved.length > 0) {
+    lines.push(`Exit points: ${[
+      ...diff.exitPointsAdded.map(id => `+${id}`),
+      ...diff.exitPointsRemoved.map(id => `-${id}`),
+    ].join(' ')}`);
+  }
+  if (diff.fields.length > 0) {
+    lines.push('Fields:');
+    diff.fields.forEach(field => lines.push(`  ${field.path}: ${formatValue(field.before)} -> ${formatValue(field.after)}`));
+  }
+
+  if (diff.nodesAdded.length > 0 || diff.nodesRemoved.length > 0 || diff.nodesModified.length > 0) {
+    lines.push('Nodes:');
+    const describe = (node: FlowNode) => `${node.id} (${[node.type, node.agent_id].filter(Boolean).join(', ')})`;
+    diff.nodesAdded.forEach(node => lines.push(`  + ${describe(node)}`));
+    diff.nodesRemoved.forEach(node => lines.push(`  - ${describe(node)}`));
+    for (const node of diff.nodesModified) {
+      lines.push(`  ~ ${node.id}`);
+      node.changes.forEach(field => lines.push(`      ${field.path}: ${formatValue(field.before)} -> ${formatValue(field.after)}`));
+      if (node.systemPrompt) {
+        lines.push('      config.system_prompt:');
+        node.systemPrompt.forEach(line => lines.push(`        ${{ added: '+', removed: '-', unchanged: ' ' }[line.type]} ${line.text}`));
+      }
+    }
+  }
+
+  if (diff.edgesAdded.length > 0 || diff.edgesRemoved.length > 0) {
+    lines.push('Edges:');
+    diff.edgesAdded.forEach(edge => lines.push(`  + ${edge.from} -> ${edge.to}`));
+    diff.edgesRemoved.forEach(edge => lines.push(`  - ${edge.from} -> ${edge.to}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Backtick run longer than any in the texts, so they can't close a code span or block
+ */
+function fenceFor(texts: string[], minimum: number): string {
+  const runs = texts.flatMap(text => text.match(/`+/g) || []).map(run => run.length);
+  return '`'.repeat(Math.max(minimum, ...runs.map(length => length + 1)));
+}
+
+function code(value: string): string {
+  const fence = fenceFor([value], 1);
+  const padding = value.startsWith('`') || value.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${value}${padding}${fence}`;
+}
+
+function formatMarkdown(diff: FlowDiff): string {
+  const lines = [`### Flow ${code(label(diff.from))} → ${code(label(diff.to))}`, ''];
+  if (!diff.changed) {
+    return [...lines, 'No changes.'].join('\n');
+  }
+
+  if (diff.entryPoint) {
+    lines.push(`**Entry point:** ${code(diff.entryPoint.before ?? '(none)')} → ${code(diff.entryPoint.after ?? '(none)')}  `);
+  }
+  if (diff.exitPointsAdded.length > 0) {
+    lines.push(`**Exit points added:** ${diff.exitPointsAdded.map(code).join(', ')}  `);
+  }
+  if (diff.exitPointsRemoved.length > 0) {
+    lines.push(`**Exit points removed:** ${diff.exitPointsRemoved.map(code).join(', ')}  `);
+  }
+  diff.fields.forEach(field => lines.push(`**${field.path}:** ${code(formatValue(field.before))} → ${code(formatValue(field.after))}  `));
+  if (lines[lines.length - 1] !== '') {
+    lines.push('');
+  }
+
+  const rows = [
+    ...diff.nodesAdded.map(node => ['added', node] as const),
+    ...diff.nodesRemoved.map(node => ['removed', node] as const),
+  ];
+  if (rows.length > 0 || diff.nodesModified.length > 0) {
+    lines.push('#### Nodes', '', '| Change | Node | Type | Agent |', '| --- | --- | --- | --- |');
+    rows.forEach(([change, node]) => lines.push(`| ${change} | ${code(node.id)} | ${node.type} | ${node.agent_id ? code(node.agent_id) : ''} |`));
+    diff.nodesModified.forEach(node => lines.push(`| modified | ${code(node.id)} | | |`));
+    lines.push('');
+  }
+
+  if (diff.edgesAdded.length > 0 || diff.edgesRemoved.length > 0) {
+    lines.push('#### Edges', '');
+    diff.edgesAdded.forEach(edge => lines.push(`- added ${code(edge.from)} → ${code(edge.to)}`));
+    diff.edgesRemoved.forEach(edge => lines.push(`- removed ${code(edge.from)} → ${code(edge.to)}`));
+    lines.push('');
+  }
+
+  for (const node of diff.nodesModified) {
+    lines.push(`#### Changes to ${code(node.id)}`, '');
+    node.changes.forEach(field => lines.push(`- ${code(field.path)}: ${code(formatValue(field.before))} → ${code(formatValue(field.after))}`));
+    if (node.systemPrompt) {
+      if (node.changes.length > 0) {
+        lines.push('');
+      }
+      const fence = fenceFor(node.systemPrompt.map(line => line.text), 3);
+      lines.push('`config.system_prompt`:', '', `${fence}diff`);
+      node.systemPrompt.forEach(line => lines.push(`${{ added: '+', removed: '-', unchanged: ' ' }[line.type]}${line.text}`));
+      lines.push(fence);
+    }
+    lines.push('');
+  }
+
+  while (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders a flow diff as plain text or as markdown for pull request descriptions
+ */
+export function formatFlowDiff(diff: FlowDiff, format: 'text' | 'markdown' = 'text'): string {
+  return format === 'markdown' ? formatMarkdown(diff) : formatText(diff);
+}
@@ -108,6 +108,13 @@ export class TimeoutError extends AISpineError {
   }
 }
 
+export class AbortError extends AISpineError {
+  constructor(message: string = 'The operation was aborted', details?: Record<string, any>) {
+    super(message, 'ABORTED', undefined, details);
+    this.name = 'AbortError';
+  }
+}
+
 export class ServerError extends AISpineError {
   constructor(message: string = 'Internal server error', status: number = 500, details?: Record<string, any>) {
     super(message, 'SERVER_ERROR', status, details);
@@ -151,7 +158,8 @@ export class FlowError extends AISpineError {
 export function createErrorFromResponse(
   status: number,
   data: any,
-  message?: string
+  message?: string,
+  headers?: Record<string, string>
 ): AISpineError {
   const errorMessage = message || data?.message || data?.error || 'An error occurred';
   const details = data?.details;
@@ -176,7 +184,11 @@ export function createErrorFromResponse(
     case 408:
       return new TimeoutError(data?.timeout || 30000, details);
     case 429:
-      return new RateLimitError(errorMessage, data?.retry_after, details);
+      return new RateLimitError(
+        errorMessage,
+        data?.retry_after ?? parseRetryAfter(headers?.['retry-after'] ?? headers?.['Retry-After']),
+        details
+      );
     case 500:
     case 502:
     case 503:
@@ -187,6 +199,27 @@ export function createErrorFromResponse(
   }
 }
 
+/**
+ * Parses a Retry-After header (delay in seconds or HTTP date) into seconds
+ */
+function parseRetryAfter(value?: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return seconds;
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
+
 /**
  * Type guard to check if an error is an AISpineError
  */
@@ -0,0 +1,277 @@
+/**
+ * AI Spine SDK Execution Handle
+ *
+ * Thin wrapper around an execution returned by executeFlow, backed by the
+ * executions endpoints
+ */
+
+import type { AISpine } from './spine';
+import {
+  ExecutionContext,
+  ExecutionHandleEvents,
+  ExecutionHandleEventType,
+  ExecutionRerunOptions,
+  ExecutionResponse,
+  FlowDataValidator,
+  NodeExecutionResult,
+  RequestOptions,
+  SerializedExecutionHandle,
+} from './types';
+import { AISpineError, AbortError, ExecutionError, ValidationError } from './errors';
+import { checkFlowData, isExecutionComplete, validateExecutionId } from './utils';
+
+type WaitOptions = Parameters<AISpine['waitForExecution']>[1];
+type Listener<K extends ExecutionHandleEventType> = (payload: ExecutionHandleEvents[K]) => void;
+
+export class ExecutionHandle<TIn extends Record<string, any> = Record<string, any>, TOut = Record<string, any>> implements ExecutionResponse {
+  public readonly execution_id: string;
+  public flow_id?: string;
+  public status: ExecutionResponse['status'];
+  public message?: string;
+  /** Latest execution snapshot fetched by this handle */
+  public execution?: ExecutionContext<TIn, TOut>;
+
+  private readonly listeners: Map<ExecutionHandleEventType, Set<Listener<any>>> = new Map();
+  private subscription?: AbortController;
+  /** Completed execution whose output already passed outputValidator */
+  private checked?: ExecutionContext<TIn, TOut>;
+
+  constructor(
+    private readonly spine: AISpine,
+    response: ExecutionResponse,
+    flowId?: string,
+    private readonly outputValidator?: FlowDataValidator<TOut>
+  ) {
+    this.execution_id = response.execution_id;
+    this.status = response.status;
+    this.message = response.message;
+    this.flow_id = flowId;
+  }
+
+  /**
+   * Restore a handle saved with toJSON(), e.g. in another process
+   *
+   * @example
+   * ```typescript
+   * await queue.push(JSON.stringify(handle));
+   * // later, in a worker
+   * const handle = ExecutionHandle.fromJSON(spine, await queue.pop());
+   * const result = await handle.wait();
+   * ```
+   *
+   * @throws ValidationError for malformed JSON or a missing execution_id
+   */
+  static fromJSON(spine: AISpine, data: SerializedExecutionHandle | string): ExecutionHandle {
+    let parsed: SerializedExecutionHandle;
+    try {
+      parsed = typeof data === 'string' ? JSON.parse(data) : data;
+    } catch (error) {
+      throw new ValidationError(`Invalid execution handle: ${(error as Error).message}`);
+    }
+    if (!parsed || !validateExecutionId(parsed.execution_id)) {
+      throw new ValidationError('Invalid execution handle: missing or invalid execution_id');
+    }
+
+    return new ExecutionHandle(spine, {
+      execution_id: parsed.execution_id,
+      status: parsed.status || 'pending',
+      message: parsed.message,
+    }, parsed.flow_id);
+  }
+
+  /**
+   * Fetch the current execution state
+   */
+  async refresh(options: RequestOptions = {}): Promise<ExecutionContext<TIn, TOut>> {
+    return this.update(await this.spine.getExecution<TIn, TOut>(this.execution_id, options));
+  }
+
+  /**
+   * Wait for the execution to finish
+   *
+   * @throws ValidationError if the output of a completed execution fails the output validator
+   */
+  async wait(options: WaitOptions = {}): Promise<ExecutionContext<TIn, TOut>> {
+    return this.checkOutput(this.update(await this.spine.waitForExecution<TIn, TOut>(this.execution_id, options)));
+  }
+
+  /**
+   * Cancel the execution
+   */
+  async cancel(options: RequestOptions = {}): Promise<ExecutionContext<TIn, TOut>> {
+    return this.update(await this.spine.cancelExecution(this.execution_id, options) as ExecutionContext<TIn, TOut>);
+  }
+
+  /**
+   * Re-run this execution, reusing completed node results
+   *
+   * @returns Handle for the new execution
+   */
+  async rerun(rerunOptions: ExecutionRerunOptions = {}, options: RequestOptions = {}): Promise<ExecutionHandle> {
+    return this.spine.rerunExecution(this.execution_id, rerunOptions, options);
+  }
+
+  /**
+   * Fetch the current node results
+   */
+  async nodes(options: RequestOptions = {}): Promise<NodeExecutionResult[]> {
+    const execution = await this.refresh(options);
+    return Object.values(execution.node_results || {});
+  }
+
+  /**
+   * Wait for the execution to finish and return its output
+   *
+   * @throws ExecutionError if the execution failed or was cancelled
+   * @throws ValidationError if the output fails the output validator
+   */
+  async output<T = TOut>(options: WaitOptions = {}): Promise<T> {
+    const execution = this.execution && isExecutionComplete(this.execution.status)
+      ? this.execution
+      : await this.wait(options);
+
+    if (execution.status !== 'completed') {
+      throw new ExecutionError(
+        execution.error_message || `Execution ${this.execution_id} ${execution.status}`,
+        this.execution_id,
+        { status: execution.status, node_results: execution.node_results }
+      );
+    }
+    return this.checkOutput(execution).output_data as unknown as T;
+  }
+
+  /**
+   * Listen for node transitions while the execution runs
+   *
+   * The execution is followed with streamExecutionEvents() while at least one
+   * listener is registered.
+   *
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * handle.on('node.completed', ({ node }) => {
+   *   console.log(`${node.node_id} finished in ${node.duration}ms`);
+   * });
+   * ```
+   */
+  on<K extends ExecutionHandleEventType>(event: K, listener: Listener<K>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    this.subscribe();
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a listener; following stops once no listeners remain
+   */
+  off<K extends ExecutionHandleEventType>(event: K, listener: Listener<K>): void {
+    const listeners = this.listeners.get(event);
+    if (listeners) {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(event);
+      }
+    }
+
+    if (this.listeners.size === 0 && this.subscription) {
+      this.subscription.abort();
+      this.subscription = undefined;
+    }
+  }
+
+  toJSON(): SerializedExecutionHandle {
+    return {
+      execution_id: this.execution_id,
+      ...(this.flow_id ? { flow_id: this.flow_id } : {}),
+      status: this.status,
+      ...(this.message ? { message: this.message } : {}),
+    };
+  }
+
+  private update(execution: ExecutionContext<TIn, TOut>): ExecutionContext<TIn, TOut> {
+    this.execution = execution;
+    this.status = execution.status;
+    this.flow_id = this.flow_id || execution.flow_id;
+    return execution;
+  }
+
+  /**
+   * Run outputValidator once per completed execution, keeping its parsed value
+   */
+  private checkOutput(execution: ExecutionContext<TIn, TOut>): ExecutionContext<TIn, TOut> {
+    if (!this.outputValidator || execution.status !== 'completed' || execution === this.checked) {
+      return execution;
+    }
+
+    const checked = {
+      ...execution,
+      output_data: checkFlowData(
+        this.outputValidator,
+        execution.output_data,
+        'output_data',
+        `Output of execution ${this.execution_id} failed validation`,
+        { executionId: this.execution_id }
+      ),
+    };
+    this.checked = checked;
+    return this.execution === execution ? this.update(checked) : checked;
+  }
+
+  private subscribe(): void {
+    if (this.subscription) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.subscription = controller;
+    void this.follow(controller);
+  }
+
+  private async follow(controller: AbortController): Promise<void> {
+    try {
+      const events = this.spine.streamExecutionEvents(this.execution_id, { signal: controller.signal });
+      for await (const event of events) {
+        if (event.type === 'execution') {
+          this.update(event.execution as ExecutionContext<TIn, TOut>);
+          this.emit('execution.updated', event);
+        } else if (event.node.status === 'running') {
+          this.emit('node.started', event);
+        } else if (event.node.status === 'completed') {
+          this.emit('node.completed', event);
+        } else if (event.node.status === 'failed') {
+          this.emit('node.failed', event);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof AbortError && controller.signal.aborted)) {
+        const streamError = error instanceof AISpineError
+          ? error
+          : new AISpineError(error instanceof Error ? error.message : String(error), 'STREAM_ERROR');
+
+        if (this.listeners.has('error')) {
+          this.emit('error', streamError);
+        } else {
+          console.error(`Error following execution ${this.execution_id}:`, streamError);
+        }
+      }
+    } finally {
+      if (this.subscription === controller) {
+        this.subscription = undefined;
+      }
+    }
+  }
+
+  private emit<K extends ExecutionHandleEventType>(event: K, payload: ExecutionHandleEvents[K]): void {
+    for (const listener of Array.from(this.listeners.get(event) || [])) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in execution handler for ${event}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * AI Spine SDK Flow Files
+ *
+ * Conversion between flow definitions and the portable YAML/JSON file format
+ * used by exportFlow and importFlow
+ */
+
+import {
+  AgentEnvironmentSchema,
+  Flow,
+  FlowCreateRequest,
+  FlowFile,
+  FlowFileFormat,
+  FlowNode,
+  ValidationError as ValidationErrorType,
+} from './types';
+import { ValidationError } from './errors';
+import { throwIfValidationErrors } from './utils';
+import { parseYaml, stringifyYaml } from './yaml';
+
+export const FLOW_FILE_FORMAT = 'ai-spine-flow/v1';
+
+const REFERENCE = /^\$\{([A-Za-z_][A-Za-z0-9_]*)\}$/;
+
+/**
+ * Environment variable name used to reference a node environment value
+ *
+ * The name is namespaced by node id, so agents sharing a key (e.g. `api_key`)
+ * never receive each other's values: node `search`, key `api-key` becomes
+ * `${SEARCH_API_KEY}`.
+ */
+export function environmentReference(nodeId: string, key: string): string {
+  const name = `${nodeId}_${key}`.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+  return '${' + (/^[0-9]/.test(name) ? `_${name}` : name) + '}';
+}
+
+/**
+ * Hands out references for the environment keys of a flow's nodes
+ *
+ * Names that would collide, with each other or with references already in
+ * the flow, get a numeric suffix (`${SEARCH_API_KEY_2}`). The same node and
+ * key always get the same reference.
+ */
+export function environmentReferences(nodes: FlowNode[]): (nodeId: string, key: string) => string {
+  const taken: Set<string> = new Set();
+  for (const node of nodes) {
+    for (const value of Object.values(node.config?.environment || {})) {
+      if (isEnvironmentReference(value)) {
+        taken.add(value as string);
+      }
+    }
+  }
+
+  const assigned: Map<string, string> = new Map();
+  return (nodeId, key) => {
+    const id = JSON.stringify([nodeId, key]);
+    let reference = assigned.get(id);
+    if (!reference) {
+      const base = environmentReference(nodeId, key);
+      reference = base;
+      for (let suffix = 2; taken.has(reference); suffix++) {
+        reference = `${base.slice(0, -1)}_${suffix}}`;
+      }
+      taken.add(reference);
+      assigned.set(id, reference);
+    }
+    return reference;
+  };
+}
+
+/**
+ * Whether a value is a `${NAME}` environment reference
+ */
+export function isEnvironmentReference(value: unknown): boolean {
+  return typeof value === 'string' && REFERENCE.test(value);
+}
+
+/**
+ * Whether an environment value may be written to a file as-is
+ *
+ * Only fields the agent schema declares as non-sensitive are inlined; unknown
+ * fields and agents whose schema couldn't be loaded are treated as secrets.
+ */
+function isInlineable(key: string, schema: AgentEnvironmentSchema | undefined): boolean {
+  const field = schema?.[key];
+  return !!field && field.type !== 'password' && !field.sensitive;
+}
+
+/**
+ * Converts a flow into the file format, replacing secrets with `${NODE_KEY}` references
+ *
+ * @param flow - Flow to export; server-managed fields (version, timestamps, ...) are dropped
+ * @param schemas - Environment schemas by agent_id, used to tell secrets from plain settings
+ */
+export function toFlowFile(flow: Flow, schemas: Record<string, AgentEnvironmentSchema | undefined> = {}): FlowFile {
+  const reference = environmentReferences(flow.nodes);
+  const nodes = flow.nodes.map((node): FlowNode => {
+    const { id, type, agent_id, depends_on, config } = node;
+    let exportedConfig = config;
+
+    if (config?.environment) {
+      const schema = agent_id ? schemas[agent_id] : undefined;
+      const environment = Object.fromEntries(Object.entries(config.environment).map(([key, value]) => [
+        key,
+        isEnvironmentReference(value) || isInlineable(key, schema)
+          ? value
+          : reference(id, key),
+      ]));
+      exportedConfig = { ...config, environment };
+    }
+
+    return {
+      id,
+      type,
+      ...(agent_id !== undefined ? { agent_id } : {}),
+      ...(depends_on && depends_on.length > 0 ? { depends_on } : {}),
+      ...(exportedConfig && Object.keys(exportedConfig).length > 0 ? { config: exportedConfig } : {}),
+    };
+  });
+
+  return {
+    format: FLOW_FILE_FORMAT,
+    flow_id: flow.flow_id,
+    name: flow.name,
+    description: flow.description,
+    ...(flow.entry_point !== undefined ? { entry_point: flow.entry_point } : {}),
+    ...(flow.exit_points && flow.exit_points.length > 0 ? { exit_points: flow.exit_points } : {}),
+    nodes,
+    ...(flow.metadata && Object.keys(flow.metadata).length > 0 ? { metadata: flow.metadata } : {}),
+  };
+}
+
+/**
+ * Writes a flow file as YAML or pretty-printed JSON
+ */
+export function serializeFlowFile(file: FlowFile, format: FlowFileFormat = 'yaml'): string {
+  if (format === 'json') {
+    return JSON.stringify(file, null, 2) + '\n';
+  }
+  if (format !== 'yaml') {
+    throw new ValidationError(`Unsupported flow file format "${format}"; use 'yaml' or 'json'`);
+  }
+  return stringifyYaml(file as unknown as Record<string, unknown>);
+}
+
+/**
+ * Reads a flow file from YAML or JSON text (detected from the content) or an object
+ *
+ * @throws ValidationError when the content can't be parsed or isn't a flow file
+ */
+export function parseFlowFile(source: string | FlowFile): FlowFile {
+  let data: unknown = source;
+  if (typeof source === 'string') {
+    if (source.trim().startsWith('{')) {
+      try {
+        data = JSON.parse(source);
+      } catch (error) {
+        throw new ValidationError(`Invalid JSON: ${(error as Error).message}`);
+      }
+    } else {
+      data = parseYaml(source);
+    }
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ValidationError('Flow file must contain a mapping of flow fields');
+  }
+
+  const file = data as FlowFile;
+  const errors: ValidationErrorType[] = [];
+  if (file.format !== FLOW_FILE_FORMAT) {
+    errors.push({
+      field: 'format',
+      message: file.format === undefined
+        ? `format is required (expected '${FLOW_FILE_FORMAT}')`
+        : `Unsupported flow file format '${file.format}' (expected '${FLOW_FILE_FORMAT}')`,
+      code: file.format === undefined ? 'required' : 'invalid_value',
+      value: file.format,
+    });
+  }
+  for (const field of ['flow_id', 'name', 'description'] as const) {
+    if (typeof file[field] !== 'string' || !file[field]) {
+      errors.push({ field, message: `${field} is required`, code: 'required', value: file[field] });
+    }
+  }
+  if (!Array.isArray(file.nodes)) {
+    errors.push({ field: 'nodes', message: 'nodes must be a list', code: 'invalid_type', value: file.nodes });
+  }
+  throwIfValidationErrors(errors, 'Invalid flow file');
+
+  return file;
+}
+
+/**
+ * Replaces `${NAME}` references in node environments with values from env
+ *
+ * @throws ValidationError listing every reference without a value
+ */
+export function resolveFlowFile(file: FlowFile, env: Record<string, string | undefined>): FlowCreateRequest {
+  const errors: ValidationErrorType[] = [];
+
+  const nodes = file.nodes.map((node, index): FlowNode => {
+    const environment = node.config?.environment;
+    if (!environment) {
+      return node;
+    }
+
+    const resolved: Record<string, string | number | boolean> = {};
+    for (const [key, value] of Object.entries(environment)) {
+      const reference = typeof value === 'string' ? REFERENCE.exec(value) : null;
+      const resolvedValue = reference ? env[reference[1]] : value;
+      if (resolvedValue === undefined) {
+        errors.push({
+          field: `nodes[${index}].config.environment.${key}`,
+          message: `Environment variable ${reference![1]} is not set`,
+          code: 'required',
+          value: reference![1],
+        });
+        continue;
+      }
+      resolved[key] = resolvedValue;
+    }
+    return { ...node, config: { ...node.config, environment: resolved } };
+  });
+  throwIfValidationErrors(errors, 'Missing values for flow file references');
+
+  return {
+    flow_id: file.flow_id,
+    name: file.name,
+    description: file.description,
+    nodes,
+    entry_point: file.entry_point as string,
+    ...(file.exit_points ? { exit_points: file.exit_points } : {}),
+    ...(file.metadata ? { metadata: file.metadata } : {}),
+  };
+}
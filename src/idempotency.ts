@@ -0,0 +1,106 @@
+/**
+ * AI Spine SDK Idempotency Cache
+ *
+ * In-process cache that deduplicates requests submitted with the same idempotency key
+ */
+
+import { IdempotencyCacheOptions } from './types';
+
+interface CacheEntry {
+  promise: Promise<unknown>;
+  expiresAt: number;
+  /** Signal of the caller that started the request */
+  signal?: AbortSignal;
+  settled: boolean;
+}
+
+export class IdempotencyCache {
+  private readonly entries: Map<string, CacheEntry> = new Map();
+  private readonly ttl: number;
+  private readonly maxEntries: number;
+
+  constructor(options: IdempotencyCacheOptions = {}) {
+    this.ttl = options.ttl ?? 24 * 60 * 60 * 1000; // 24 hours
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  /**
+   * Run `fn` once per key. Later calls with the same key share the first
+   * call's result; failed calls are evicted so they can be submitted again.
+   *
+   * When the caller that started a request aborts it through `signal`, only
+   * that caller fails: the entry is dropped and callers sharing it run `fn`
+   * themselves.
+   */
+  run<T>(key: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const existing = this.entries.get(key);
+    if (existing && existing.expiresAt > Date.now() && !(existing.signal?.aborted && !existing.settled)) {
+      return (existing.promise as Promise<T>).catch(error => {
+        if (existing.signal?.aborted && !signal?.aborted) {
+          return this.run(key, fn, signal);
+        }
+        throw error;
+      });
+    }
+
+    const promise = fn();
+    const entry: CacheEntry = { promise, expiresAt: Date.now() + this.ttl, signal, settled: false };
+    this.entries.set(key, entry);
+    this.evict();
+
+    promise.then(
+      () => {
+        entry.settled = true;
+      },
+      () => {
+        entry.settled = true;
+        if (this.entries.get(key) === entry) {
+          this.entries.delete(key);
+        }
+      }
+    );
+
+    return promise;
+  }
+
+  /**
+   * Check whether a key has a live entry
+   */
+  has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return !!entry && entry.expiresAt > Date.now();
+  }
+
+  /**
+   * Remove a single key
+   */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private evict(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+
+    // Map iteration order is insertion order, so the oldest entries go first
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
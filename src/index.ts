@@ -22,6 +22,11 @@
 
 // Main SDK class
 export { AISpine } from './spine';
+export { ExecutionHandle } from './execution';
+export { TypedFlow } from './typed';
+export { FlowBuilder } from './builder';
+export { LocalFlowRunner } from './runner';
+export type { FlowBuilderOptions, AgentNodeOptions, IONodeOptions } from './builder';
 
 // Type exports
 export type {
@@ -29,6 +34,28 @@ export type {
   AISpineConfig,
   RequestOptions,
   
+  // Transport
+  HttpMethod,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  Middleware,
+  MiddlewareNext,
+  
+  // Retries
+  RetryPolicy,
+  RetryContext,
+  RetryJitter,
+  IdempotencyCacheOptions,
+  
+  // Polling
+  PollingOptions,
+  PollingStrategy,
+  PollingContext,
+  WaitMode,
+  WaitForExecutionsOptions,
+  ExecutionSettledResult,
+  
   // User management
   UserInfo,
   APIKeyInfo,
@@ -45,11 +72,15 @@ export type {
   Agent,
   AgentConfig,
   AgentCapability,
+  BuiltInAgentCapability,
+  CapabilityRegistryOptions,
   Flow,
   FlowNode,
   FlowExecutionRequest,
   ExecutionContext,
   ExecutionResponse,
+  ExecutionStatus,
+  ExecutionRerunOptions,
   NodeExecutionResult,
   AgentMessage,
   Metrics,
@@ -62,6 +93,33 @@ export type {
   MyFlowsResponse,
   FlowDeleteResponse,
   
+  // Flow files
+  FlowFile,
+  FlowFileFormat,
+  FlowImportOptions,
+  FlowDiff,
+  FlowNodeDiff,
+  FlowEdge,
+  TextDiffLine,
+  FlowDiagramFormat,
+  RenderFlowOptions,
+  FlowLintRuleId,
+  FlowLintSeverity,
+  FlowLintRuleSetting,
+  FlowLintRules,
+  FlowLintOptions,
+  FlowLintMessage,
+  FlowLintResult,
+  FlowLintReportFormat,
+  TypeGenerationSource,
+  TypeGenerationOptions,
+  GenerateTypesOptions,
+  FlowSyncAction,
+  FlowFieldChange,
+  FlowSyncChange,
+  FlowSyncOptions,
+  FlowSyncResult,
+  
   // Environment variables (NEW in v2.1.0)
   AgentEnvironmentField,
   AgentEnvironmentSchema,
@@ -69,14 +127,63 @@ export type {
   AgentExecutionResponse,
   ValidationResult,
   
+  // Flow preflight
+  ExecuteFlowOptions,
+  FlowPreflightOverrides,
+  FlowPreflightNodeResult,
+  FlowPreflightResult,
+  
+  // Agent server
+  AgentHandler,
+  AgentHandlerContext,
+  AgentServerOptions,
+  AgentServerRequest,
+  AgentServerResponse,
+  AgentHttpServer,
+  AgentHealthResponse,
+  
+  // Agent contract
+  AgentContractCase,
+  AgentContractFixtures,
+  AgentContractOptions,
+  AgentContractCaseResult,
+  AgentContractReport,
+  
+  // Agent monitor
+  AgentHealthState,
+  AgentHealthCheck,
+  AgentMonitorEventType,
+  AgentMonitorEvent,
+  AgentMonitorEventHandler,
+  AgentMonitorOptions,
+  AgentUptimeSummary,
+  
+  // Local runner
+  LocalAgentHandler,
+  LocalAgentContext,
+  LocalFlowRunnerOptions,
+  LocalRunOptions,
+  
   // Batch processing
   BatchRequest,
   BatchResponse,
   BatchOptions,
   
-  // Streaming (future)
+  // Streaming
   StreamOptions,
   StreamProgress,
+  ExecutionStreamEvent,
+  NodeTransitionEvent,
+  ExecutionUpdateEvent,
+  
+  // Execution handles
+  SerializedExecutionHandle,
+  ExecutionHandleEvents,
+  ExecutionHandleEventType,
+  
+  // Typed flows
+  FlowDataValidator,
+  TypedFlowOptions,
   
   // Templates (future)
   Template,
@@ -110,6 +217,7 @@ export {
   RateLimitError,
   NetworkError,
   TimeoutError,
+  AbortError,
   ServerError,
   ExecutionError,
   AgentError,
@@ -128,9 +236,13 @@ export {
   validateUrl,
   validateFlowInput,
   validateAgentConfig,
+  validateFlowDefinition,
+  validateEnvironmentValues,
   throwIfValidationErrors,
   sanitizeInput,
+  generateIdempotencyKey,
   delay,
+  throwIfAborted,
   formatDuration,
   formatTimestamp,
   isExecutionComplete,
@@ -139,6 +251,86 @@ export {
   deepMerge,
 } from './utils';
 
+// Transports
+export {
+  AxiosTransport,
+  FetchTransport,
+  TransportError,
+  createTransport,
+} from './transport';
+export type { FetchTransportOptions } from './transport';
+
+// Retry policy helpers
+export {
+  DEFAULT_RETRY_POLICY,
+  isRetryableError,
+  isIdempotentRequest,
+  computeRetryDelay,
+} from './retry';
+
+// Idempotency
+export { IdempotencyCache } from './idempotency';
+
+// Agent capabilities
+export { CapabilityRegistry, BUILT_IN_AGENT_CAPABILITIES } from './capabilities';
+
+// Polling strategies
+export {
+  fixedPolling,
+  exponentialPolling,
+  nodeAwarePolling,
+} from './polling';
+
+// Flow files
+export {
+  FLOW_FILE_FORMAT,
+  toFlowFile,
+  serializeFlowFile,
+  parseFlowFile,
+  resolveFlowFile,
+  environmentReference,
+  isEnvironmentReference,
+} from './flowFile';
+
+// Flow diff
+export {
+  diffFlows,
+  diffText,
+  formatFlowDiff,
+} from './diff';
+
+// Flow diagrams
+export { renderFlow } from './render';
+
+// Flow sync
+export {
+  loadFlowDirectory,
+  readFlowDirectory,
+  diffFlowFields,
+  planFlowSync,
+  formatFlowSyncPlan,
+} from './sync';
+export type { LocalFlow, RemoteFlows } from './sync';
+
+// Flow linting
+export { lintFlow, formatFlowLintReport, DEFAULT_FLOW_LINT_RULES } from './lint';
+
+// Code generation
+export { generateTypeDefinitions } from './codegen';
+
+// Server-Sent Events
+export { parseSSE } from './sse';
+export type { SSEMessage } from './sse';
+
+// Agent server
+export { AgentServer, createAgentServer } from './agentServer';
+
+// Agent contract
+export { verifyAgentContract, formatAgentContractReport } from './contract';
+
+// Agent monitor
+export { AgentMonitor } from './monitor';
+
 // Webhook utilities
 export {
   WebhookSignature,
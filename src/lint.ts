@@ -0,0 +1,305 @@
+/**
+ * AI Spine SDK Flow Linter
+ *
+ * Style and safety rules for flows, on top of the structural checks of
+ * validateFlowDefinition
+ */
+
+import {
+  Flow,
+  FlowLintMessage,
+  FlowLintOptions,
+  FlowLintReportFormat,
+  FlowLintResult,
+  FlowLintRuleId,
+  FlowLintRuleSetting,
+  FlowLintRules,
+  FlowLintSeverity,
+  FlowNode,
+} from './types';
+import { ValidationError } from './errors';
+import { environmentReferences, isEnvironmentReference } from './flowFile';
+import { deepClone, formatDuration } from './utils';
+
+type LintableFlow = Pick<Flow, 'flow_id' | 'nodes' | 'exit_points' | 'metadata'>;
+
+interface Problem {
+  message: string;
+  node_id?: string;
+  path?: string;
+  /** Fixes the problem on a copy of the node */
+  fix?: (node: FlowNode) => void;
+}
+
+interface RuleContext {
+  options: Record<string, any>;
+  agents: Map<string, NonNullable<FlowLintOptions['agents']>[number]>;
+}
+
+type Rule = (flow: LintableFlow, context: RuleContext) => Problem[];
+
+const SECRET_KEY = /key|secret|token|password|credential/i;
+
+const RULES: Record<FlowLintRuleId, Rule> = {
+  'processor-system-prompt': flow => flow.nodes
+    .filter(node => node.type === 'processor' && node.agent_id && !node.config?.system_prompt?.trim())
+    .map(node => ({
+      message: 'Processor node has no system_prompt',
+      node_id: node.id,
+      path: `nodes.${node.id}.config.system_prompt`,
+    })),
+
+  // Options: budget (ms, defaults to metadata.timeout of the flow)
+  'timeout-budget': (flow, { options }) => {
+    const budget = options.budget ?? flow.metadata?.timeout;
+    if (typeof budget !== 'number') {
+      return [];
+    }
+    return flow.nodes
+      .filter(node => typeof node.config?.timeout === 'number' && node.config.timeout > budget)
+      .map(node => ({
+        message: `Node timeout of ${formatDuration(node.config!.timeout!)} exceeds the flow budget of ${formatDuration(budget)}`,
+        node_id: node.id,
+        path: `nodes.${node.id}.config.timeout`,
+        fix: fixed => {
+          fixed.config!.timeout = budget;
+        },
+      }));
+  },
+
+  // Options: maxTurns (value set by the autofix, default 10)
+  'conversation-max-turns': (flow, { options, agents }) => flow.nodes
+    .filter(node => node.agent_id
+      && agents.get(node.agent_id)?.capabilities?.includes('conversation')
+      && node.config?.max_turns === undefined)
+    .map(node => ({
+      message: `Conversation agent ${node.agent_id} has no max_turns limit`,
+      node_id: node.id,
+      path: `nodes.${node.id}.config.max_turns`,
+      fix: fixed => {
+        fixed.config = { ...fixed.config, max_turns: options.maxTurns ?? 10 };
+      },
+    })),
+
+  // Options: pattern (RegExp for secret-looking keys)
+  'no-hardcoded-secrets': (flow, { options, agents }) => {
+    const pattern: RegExp = options.pattern || SECRET_KEY;
+    const reference = environmentReferences(flow.nodes);
+    const problems: Problem[] = [];
+    for (const node of flow.nodes) {
+      const schema = node.agent_id ? agents.get(node.agent_id)?.environment_schema : undefined;
+      for (const [key, value] of Object.entries(node.config?.environment || {})) {
+        const field = schema?.[key];
+        const secret = field ? field.type === 'password' || !!field.sensitive : typeof value === 'string' && pattern.test(key);
+        if (secret && !isEnvironmentReference(value) && value !== '') {
+          const name = reference(node.id, key);
+          problems.push({
+            message: `Hardcoded secret in environment.${key}; use a ${name} reference`,
+            node_id: node.id,
+            path: `nodes.${node.id}.config.environment.${key}`,
+            fix: fixed => {
+              fixed.config!.environment![key] = name;
+            },
+          });
+        }
+      }
+    }
+    return problems;
+  },
+
+  'unused-agent': flow => {
+    const exits = flow.exit_points && flow.exit_points.length > 0
+      ? flow.exit_points
+      : flow.nodes.filter(node => node.type === 'output').map(node => node.id);
+    // Without exit points there is no way to tell a dead end from the result
+    if (exits.length === 0) {
+      return [];
+    }
+    const used = new Set([...exits, ...flow.nodes.flatMap(node => node.depends_on || [])]);
+    return flow.nodes
+      .filter(node => node.agent_id && node.type !== 'output' && !used.has(node.id))
+      .map(node => ({
+        message: `Output of agent ${node.agent_id} is never used: no node depends on it and it is not an exit point`,
+        node_id: node.id,
+      }));
+  },
+
+  'duplicate-prompt': flow => {
+    const seen: Map<string, string> = new Map();
+    const problems: Problem[] = [];
+    for (const node of flow.nodes) {
+      const prompt = node.config?.system_prompt?.trim();
+      if (!prompt) {
+        continue;
+      }
+      const first = seen.get(prompt);
+      if (first) {
+        problems.push({
+          message: `Same system_prompt as node ${first}`,
+          node_id: node.id,
+          path: `nodes.${node.id}.config.system_prompt`,
+        });
+      } else {
+        seen.set(prompt, node.id);
+      }
+    }
+    return problems;
+  },
+};
+
+export const DEFAULT_FLOW_LINT_RULES: Readonly<Record<FlowLintRuleId, FlowLintRuleSetting>> = {
+  'processor-system-prompt': 'warning',
+  'timeout-budget': 'error',
+  'conversation-max-turns': 'warning',
+  'no-hardcoded-secrets': 'error',
+  'unused-agent': 'warning',
+  'duplicate-prompt': 'warning',
+};
+
+function parseSetting(rule: string, setting: FlowLintRuleSetting): [FlowLintSeverity | 'off', Record<string, any>] {
+  const [severity, options] = Array.isArray(setting) ? setting : [setting, {}];
+  if (!['error', 'warning', 'off'].includes(severity)) {
+    throw new ValidationError(`Invalid severity "${severity}" for lint rule "${rule}"; use 'error', 'warning' or 'off'`);
+  }
+  return [severity, options || {}];
+}
+
+/**
+ * Checks a flow against style and safety rules
+ *
+ * Rules (see DEFAULT_FLOW_LINT_RULES for their default severities):
+ * - `processor-system-prompt`: processor nodes without a system_prompt
+ * - `timeout-budget`: node timeouts above the flow budget (`budget` option or
+ *   `metadata.timeout`); fixed by lowering the timeout
+ * - `conversation-max-turns`: conversation agents without max_turns (needs
+ *   `options.agents`); fixed by setting the `maxTurns` option (default 10)
+ * - `no-hardcoded-secrets`: environment values that are secrets (per the agent
+ *   schema, or by key name) but not `${NAME}` references; fixed by replacing
+ *   them with a reference namespaced by node id
+ * - `unused-agent`: agent nodes whose output goes nowhere
+ * - `duplicate-prompt`: nodes sharing a system_prompt
+ *
+ * @param flow - Flow, flow file or create request to check
+ * @param rules - Severity per rule ('error', 'warning', 'off' or [severity, options]),
+ *   merged over the defaults
+ * @param options - Autofix and agent definitions
+ * @returns Problems found, with a fixed copy of the flow when `fix` is set
+ * @throws ValidationError for unknown rules or severities
+ *
+ * @example
+ * ```typescript
+ * const result = lintFlow(flow, { 'unused-agent': 'off', 'timeout-budget': ['error', { budget: 60000 }] }, {
+ *   agents: await spine.listAgents(),
+ *   fix: true
+ * });
+ * console.log(formatFlowLintReport(result));
+ * await spine.updateFlow(flow.flow_id, result.output!);
+ * ```
+ */
+export function lintFlow<F extends LintableFlow>(
+  flow: F,
+  rules: FlowLintRules = {},
+  options: FlowLintOptions = {}
+): FlowLintResult<F> {
+  for (const rule of Object.keys(rules)) {
+    if (!(rule in RULES)) {
+      throw new ValidationError(`Unknown lint rule "${rule}"`);
+    }
+  }
+
+  const settings = { ...DEFAULT_FLOW_LINT_RULES, ...rules };
+  const agents: RuleContext['agents'] = new Map((options.agents || []).map(agent => [agent.agent_id, agent]));
+  const output = options.fix ? deepClone(flow) : undefined;
+  const messages: FlowLintMessage[] = [];
+
+  for (const rule of Object.keys(RULES) as FlowLintRuleId[]) {
+    const [severity, ruleOptions] = parseSetting(rule, settings[rule]);
+    if (severity === 'off') {
+      continue;
+    }
+
+    for (const problem of RULES[rule](flow, { options: ruleOptions, agents })) {
+      const node = output?.nodes.find(candidate => candidate.id === problem.node_id);
+      if (problem.fix && node) {
+        problem.fix(node);
+        continue;
+      }
+      messages.push({
+        rule,
+        severity,
+        message: problem.message,
+        ...(problem.node_id ? { node_id: problem.node_id } : {}),
+        ...(problem.path ? { path: problem.path } : {}),
+        fixable: !!problem.fix,
+      });
+    }
+  }
+
+  // Report in node order, then rule order
+  const position = new Map(flow.nodes.map((node, index) => [node.id, index]));
+  messages.sort((a, b) => (position.get(a.node_id!) ?? -1) - (position.get(b.node_id!) ?? -1));
+
+  return {
+    flow_id: flow.flow_id,
+    messages,
+    errorCount: messages.filter(message => message.severity === 'error').length,
+    warningCount: messages.filter(message => message.severity === 'warning').length,
+    fixableCount: messages.filter(message => message.fixable).length,
+    ...(output ? { output } : {}),
+  };
+}
+
+/**
+ * Formats lint results for terminals ('text') or tools ('json')
+ *
+ * The JSON report has `results` (without the fixed flows) and total
+ * `errorCount`, `warningCount` and `fixableCount`.
+ */
+export function formatFlowLintReport(
+  results: FlowLintResult<any> | FlowLintResult<any>[],
+  format: FlowLintReportFormat = 'text'
+): string {
+  const list = Array.isArray(results) ? results : [results];
+  const total = (field: 'errorCount' | 'warningCount' | 'fixableCount') =>
+    list.reduce((sum, result) => sum + result[field], 0);
+
+  if (format === 'json') {
+    return JSON.stringify({
+      results: list.map(result => {
+        const report = { ...result };
+        delete report.output;
+        return report;
+      }),
+      errorCount: total('errorCount'),
+      warningCount: total('warningCount'),
+      fixableCount: total('fixableCount'),
+    }, null, 2);
+  }
+  if (format !== 'text') {
+    throw new ValidationError(`Unsupported report format "${format}"; use 'text' or 'json'`);
+  }
+
+  const lines: string[] = [];
+  for (const result of list.filter(result => result.messages.length > 0)) {
+    const width = Math.max(...result.messages.map(message => (message.node_id || '').length));
+    lines.push(result.flow_id);
+    for (const message of result.messages) {
+      lines.push(`  ${(message.node_id || '').padEnd(width)}  ${message.severity.padEnd(7)}  ${message.message}  ${message.rule}`);
+    }
+    lines.push('');
+  }
+
+  const errors = total('errorCount');
+  const warnings = total('warningCount');
+  const problems = errors + warnings;
+  if (problems === 0) {
+    return 'No problems found';
+  }
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+  lines.push(`${plural(problems, 'problem')} (${plural(errors, 'error')}, ${plural(warnings, 'warning')})`);
+  const fixable = total('fixableCount');
+  if (fixable > 0) {
+    lines.push(`${plural(fixable, 'problem')} fixable with \`fix: true\``);
+  }
+  return lines.join('\n');
+}
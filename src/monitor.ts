@@ -0,0 +1,345 @@
+/**
+ * AI Spine SDK Agent Monitor
+ *
+ * Periodic health checks of agents, with availability history and events when
+ * an agent goes down, recovers or slows down
+ */
+
+import type { AISpine } from './spine';
+import {
+  AgentHealthCheck,
+  AgentHealthState,
+  AgentMonitorEvent,
+  AgentMonitorEventHandler,
+  AgentMonitorEventType,
+  AgentMonitorOptions,
+  AgentUptimeSummary,
+} from './types';
+import { NotFoundError, ValidationError } from './errors';
+import { validateAgentId } from './utils';
+
+interface AgentRecord {
+  state: AgentHealthState;
+  since?: string;
+  /** Consecutive failed checks */
+  failures: number;
+  history: AgentHealthCheck[];
+}
+
+/**
+ * Monitors agents with getAgent (and testAgent for their endpoints), created
+ * with spine.monitorAgents()
+ *
+ * Every round checks all agents concurrently. An agent is:
+ * - `up` when it is active, its endpoint answered and the probe took at most
+ *   `degradedLatency`
+ * - `degraded` when it is available but slower than that
+ * - `down` after `failureThreshold` consecutive failed checks
+ *
+ * State changes emit 'agent.down', 'agent.recovered' (from down to available,
+ * or from degraded to up) and 'agent.degraded'. The first check of an agent
+ * only emits when it is down or degraded.
+ */
+export class AgentMonitor {
+  private handlers: Map<AgentMonitorEventType, Set<AgentMonitorEventHandler>> = new Map();
+  private readonly agents: Map<string, AgentRecord> = new Map();
+  private timer?: ReturnType<typeof setTimeout>;
+  private controller?: AbortController;
+  private round?: Promise<AgentHealthCheck[]>;
+
+  constructor(
+    private readonly spine: AISpine,
+    agentIds: string[],
+    private readonly options: AgentMonitorOptions = {}
+  ) {
+    agentIds.forEach(agentId => this.add(agentId));
+  }
+
+  /**
+   * Whether checks run periodically
+   */
+  get running(): boolean {
+    return this.controller !== undefined;
+  }
+
+  /**
+   * Check all agents now, then every `interval` milliseconds until stop()
+   */
+  start(): void {
+    if (this.controller) {
+      return;
+    }
+    this.controller = new AbortController();
+    this.schedule(0);
+  }
+
+  /**
+   * Stop checking; checks in flight are aborted and not recorded
+   */
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.controller?.abort();
+    this.controller = undefined;
+  }
+
+  /**
+   * Run one round of checks and emit events for state changes
+   *
+   * A round already in progress is shared instead of starting another one.
+   *
+   * @returns Checks of this round
+   */
+  check(): Promise<AgentHealthCheck[]> {
+    if (!this.round) {
+      const signal = this.controller?.signal;
+      this.round = this.runRound(signal).finally(() => {
+        this.round = undefined;
+      });
+    }
+    return this.round;
+  }
+
+  /**
+   * Start monitoring an agent
+   *
+   * @throws ValidationError for invalid agent ids
+   */
+  add(agentId: string): void {
+    if (!validateAgentId(agentId)) {
+      throw new ValidationError(`Invalid agent ID format: ${agentId}`);
+    }
+    if (!this.agents.has(agentId)) {
+      this.agents.set(agentId, { state: 'unknown', failures: 0, history: [] });
+    }
+  }
+
+  /**
+   * Stop monitoring an agent and drop its history
+   */
+  remove(agentId: string): void {
+    this.agents.delete(agentId);
+  }
+
+  /**
+   * Current state of an agent
+   *
+   * @throws NotFoundError if the agent isn't monitored
+   */
+  getState(agentId: string): AgentHealthState {
+    return this.get(agentId).state;
+  }
+
+  /**
+   * Recent checks of an agent, oldest first
+   *
+   * @throws NotFoundError if the agent isn't monitored
+   */
+  getHistory(agentId: string): AgentHealthCheck[] {
+    return [...this.get(agentId).history];
+  }
+
+  /**
+   * Availability and latency of an agent over its history
+   *
+   * @throws NotFoundError if the agent isn't monitored
+   */
+  getUptime(agentId: string): AgentUptimeSummary {
+    const record = this.get(agentId);
+    const available = record.history.filter(check => check.available);
+    const latencies = available.map(check => check.latency);
+    const last = record.history[record.history.length - 1];
+
+    return {
+      agent_id: agentId,
+      state: record.state,
+      checks: record.history.length,
+      uptime: record.history.length > 0 ? available.length / record.history.length : 0,
+      ...(latencies.length > 0
+        ? {
+            average_latency: Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length),
+            max_latency: Math.max(...latencies),
+          }
+        : {}),
+      ...(last ? { last_check: last.timestamp } : {}),
+      ...(available.length > 0 ? { last_available: available[available.length - 1].timestamp } : {}),
+      ...(record.since ? { since: record.since } : {}),
+    };
+  }
+
+  /**
+   * Uptime summaries of all monitored agents
+   */
+  getUptimeSummary(): AgentUptimeSummary[] {
+    return Array.from(this.agents.keys()).map(agentId => this.getUptime(agentId));
+  }
+
+  /**
+   * Register an event handler
+   */
+  on(eventType: AgentMonitorEventType, handler: AgentMonitorEventHandler): void {
+    if (!this.handlers.has(eventType)) {
+      this.handlers.set(eventType, new Set());
+    }
+    this.handlers.get(eventType)!.add(handler);
+  }
+
+  /**
+   * Remove an event handler
+   */
+  off(eventType: AgentMonitorEventType, handler: AgentMonitorEventHandler): void {
+    const handlers = this.handlers.get(eventType);
+    if (handlers) {
+      handlers.delete(handler);
+      if (handlers.size === 0) {
+        this.handlers.delete(eventType);
+      }
+    }
+  }
+
+  /**
+   * Remove all handlers
+   */
+  removeAllHandlers(): void {
+    this.handlers.clear();
+  }
+
+  private get(agentId: string): AgentRecord {
+    const record = this.agents.get(agentId);
+    if (!record) {
+      throw new NotFoundError(`Agent ${agentId} is not monitored`);
+    }
+    return record;
+  }
+
+  private schedule(delay: number): void {
+    const signal = this.controller?.signal;
+    this.timer = setTimeout(async () => {
+      await this.check();
+      if (signal && !signal.aborted) {
+        this.schedule(this.options.interval ?? 30000);
+      }
+    }, delay);
+  }
+
+  private async runRound(signal?: AbortSignal): Promise<AgentHealthCheck[]> {
+    const agentIds = Array.from(this.agents.keys());
+    const checks = await Promise.all(agentIds.map(agentId => this.probe(agentId, signal)));
+
+    const recorded: AgentHealthCheck[] = [];
+    const events: AgentMonitorEvent[] = [];
+    for (const check of checks) {
+      // Skip checks aborted by stop() and agents removed during the round
+      const record = check && this.agents.get(check.agent_id);
+      if (!check || !record) {
+        continue;
+      }
+      recorded.push(check);
+      events.push(...this.record(record, check));
+    }
+
+    for (const event of events) {
+      await this.emit(event);
+    }
+    return recorded;
+  }
+
+  private async probe(agentId: string, signal?: AbortSignal): Promise<AgentHealthCheck | undefined> {
+    const options = { ...this.options.requestOptions, ...(signal ? { signal } : {}) };
+    const timestamp = new Date().toISOString();
+    let start = Date.now();
+
+    try {
+      const agent = await this.spine.getAgent(agentId, options);
+      const check: AgentHealthCheck = {
+        agent_id: agentId,
+        timestamp,
+        available: agent.status === 'active',
+        latency: Date.now() - start,
+        agent_status: agent.status,
+      };
+      if (!check.available) {
+        return { ...check, message: `Agent status is ${agent.status}` };
+      }
+      if ((this.options.probe ?? 'endpoint') === 'agent') {
+        return check;
+      }
+
+      start = Date.now();
+      const result = await this.spine.testAgent(agent.endpoint, options);
+      return {
+        ...check,
+        available: result.connected,
+        latency: Date.now() - start,
+        ...(result.connected ? {} : { message: result.message || `Endpoint ${agent.endpoint} is not reachable` }),
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        return undefined;
+      }
+      return {
+        agent_id: agentId,
+        timestamp,
+        available: false,
+        latency: Date.now() - start,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Adds a check to the history and returns the events of the state change
+   */
+  private record(record: AgentRecord, check: AgentHealthCheck): AgentMonitorEvent[] {
+    record.history.push(check);
+    record.history.splice(0, record.history.length - (this.options.historySize ?? 100));
+    record.failures = check.available ? 0 : record.failures + 1;
+
+    const previous = record.state;
+    let current = previous;
+    if (check.available) {
+      current = check.latency > (this.options.degradedLatency ?? 2000) ? 'degraded' : 'up';
+    } else if (record.failures >= (this.options.failureThreshold ?? 1)) {
+      current = 'down';
+    }
+    if (current === previous) {
+      return [];
+    }
+    record.state = current;
+    record.since = check.timestamp;
+
+    const types: AgentMonitorEvent['event'][] = [];
+    if (current === 'down') {
+      types.push('agent.down');
+    } else if (previous === 'down' || (previous === 'degraded' && current === 'up')) {
+      types.push('agent.recovered');
+    }
+    if (current === 'degraded') {
+      types.push('agent.degraded');
+    }
+
+    return types.map(event => ({
+      event,
+      agent_id: check.agent_id,
+      previous,
+      current,
+      check,
+      timestamp: new Date().toISOString(),
+    }));
+  }
+
+  private async emit(event: AgentMonitorEvent): Promise<void> {
+    for (const eventType of [event.event, '*'] as const) {
+      const handlers = this.handlers.get(eventType);
+      if (handlers) {
+        await Promise.all(
+          Array.from(handlers).map(handler =>
+            Promise.resolve().then(() => handler(event)).catch(error =>
+              console.error(`Error in agent monitor handler for ${event.event}:`, error)
+            )
+          )
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * AI Spine SDK Polling Strategies
+ *
+ * Decide how long waitForExecution waits between status checks
+ */
+
+import { ExecutionContext, PollingContext, PollingOptions, PollingStrategy } from './types';
+
+export const DEFAULT_POLL_INTERVAL = 2000;
+
+/**
+ * Polls at the same interval for the whole execution
+ */
+export function fixedPolling(interval: number = DEFAULT_POLL_INTERVAL): PollingStrategy {
+  return {
+    nextDelay: () => interval,
+    maxInterval: interval,
+  };
+}
+
+/**
+ * Polls quickly at first and backs off towards maxInterval
+ */
+export function exponentialPolling(
+  options: Pick<PollingOptions, 'interval' | 'maxInterval' | 'factor'> = {}
+): PollingStrategy {
+  const interval = options.interval ?? 500;
+  const maxInterval = Math.max(options.maxInterval ?? 10000, interval);
+  const factor = options.factor ?? 2;
+
+  return {
+    maxInterval,
+    nextDelay: ({ polls }: PollingContext) =>
+      Math.min(Math.round(interval * Math.pow(factor, Math.max(polls - 1, 0))), maxInterval),
+  };
+}
+
+/**
+ * Uses FlowNode `config.timeout` hints of the running nodes: checks about ten
+ * times over the shortest expected node runtime, and right away after a node
+ * changes status. Falls back to exponential polling without hints.
+ */
+export function nodeAwarePolling(
+  options: Pick<PollingOptions, 'interval' | 'maxInterval' | 'factor'> = {}
+): PollingStrategy {
+  const interval = options.interval ?? 500;
+  const maxInterval = Math.max(options.maxInterval ?? 10000, interval);
+  const fallback = exponentialPolling(options);
+
+  return {
+    needsFlow: true,
+    maxInterval,
+    nextDelay: (context: PollingContext) => {
+      const hints = Object.values(context.execution.node_results || {})
+        .filter(node => node.status === 'running')
+        .map(node => context.flow?.nodes.find(flowNode => flowNode.id === node.node_id)?.config?.timeout)
+        .filter((timeout): timeout is number => typeof timeout === 'number' && timeout > 0);
+
+      if (hints.length === 0) {
+        return fallback.nextDelay(context);
+      }
+      if (context.changed) {
+        return interval;
+      }
+      return Math.min(Math.max(Math.round(Math.min(...hints) / 10), interval), maxInterval);
+    },
+  };
+}
+
+/**
+ * Builds the strategy described by PollingOptions
+ */
+export function resolvePollingStrategy(options: PollingOptions = {}): PollingStrategy {
+  const { strategy } = options;
+  if (strategy && typeof strategy === 'object') {
+    return strategy;
+  }
+
+  switch (strategy) {
+    case 'exponential':
+      return exponentialPolling(options);
+    case 'node-aware':
+      return nodeAwarePolling(options);
+    default:
+      return fixedPolling(options.interval);
+  }
+}
+
+/**
+ * Delay after a rate limited status check: Retry-After, or twice the previous
+ * delay, capped at the strategy's maxInterval and the time left to wait
+ */
+export function rateLimitedDelay(
+  retryAfter: number | undefined,
+  previous: number,
+  strategy: PollingStrategy,
+  remaining: number
+): number {
+  const delay = retryAfter !== undefined ? retryAfter * 1000 : previous * 2;
+  return Math.max(Math.min(delay, strategy.maxInterval ?? delay, remaining), 0);
+}
+
+/**
+ * Checks whether the execution or any of its nodes changed status
+ */
+export function hasExecutionChanged(previous: ExecutionContext | undefined, current: ExecutionContext): boolean {
+  if (!previous || previous.status !== current.status) {
+    return true;
+  }
+
+  const previousNodes = previous.node_results || {};
+  const currentNodes = current.node_results || {};
+  return Object.keys(previousNodes).length !== Object.keys(currentNodes).length ||
+    Object.entries(currentNodes).some(([nodeId, node]) => previousNodes[nodeId]?.status !== node.status);
+}
@@ -0,0 +1,186 @@
+/**
+ * AI Spine SDK Flow Rendering
+ *
+ * Draws flows as Mermaid or Graphviz DOT diagrams, optionally overlaid with the
+ * node results of an execution
+ */
+
+import { ExecutionStatus, Flow, FlowNode, NodeExecutionResult, RenderFlowOptions } from './types';
+import { ValidationError } from './errors';
+import { formatDuration } from './utils';
+
+interface Style {
+  fill: string;
+  stroke: string;
+  dashed?: boolean;
+}
+
+const TYPE_STYLES: Record<FlowNode['type'], Style> = {
+  input: { fill: '#e3f2fd', stroke: '#1e88e5' },
+  processor: { fill: '#f5f5f5', stroke: '#616161' },
+  output: { fill: '#ede7f6', stroke: '#5e35b1' },
+};
+
+const STATUS_STYLES: Record<ExecutionStatus, Style> = {
+  pending: { fill: '#eeeeee', stroke: '#9e9e9e', dashed: true },
+  running: { fill: '#fff8e1', stroke: '#f9a825' },
+  completed: { fill: '#e8f5e9', stroke: '#2e7d32' },
+  failed: { fill: '#ffebee', stroke: '#c62828' },
+  cancelled: { fill: '#eceff1', stroke: '#546e7a', dashed: true },
+};
+
+function nodeDuration(result: NodeExecutionResult): number | undefined {
+  if (result.duration !== undefined) {
+    return result.duration;
+  }
+  if (result.completed_at) {
+    return new Date(result.completed_at).getTime() - new Date(result.started_at).getTime();
+  }
+  return undefined;
+}
+
+/**
+ * Label lines for a node: id, agent, and status/duration when an execution is given
+ */
+function labelLines(node: FlowNode, result: NodeExecutionResult | undefined): string[] {
+  const lines = [node.id];
+  if (node.agent_id) {
+    lines.push(node.agent_id);
+  }
+  if (result) {
+    const duration = nodeDuration(result);
+    lines.push(duration !== undefined ? `${result.status} · ${formatDuration(duration)}` : result.status);
+  }
+  return lines;
+}
+
+function renderMermaid(flow: Flow, options: RenderFlowOptions): string {
+  const results = options.execution?.node_results || {};
+  // Mermaid ids can't contain most punctuation and some words are reserved, so nodes get positional ids
+  const ids = new Map(flow.nodes.map((node, index) => [node.id, `n${index}`]));
+  const escape = (text: string) => text.replace(/"/g, '#quot;');
+  const shapes: Record<FlowNode['type'], [string, string]> = {
+    input: ['(["', '"])'],
+    processor: ['["', '"]'],
+    output: ['[["', '"]]'],
+  };
+
+  const lines = [`flowchart ${options.direction || 'TB'}`];
+  for (const node of flow.nodes) {
+    const [open, close] = shapes[node.type] || shapes.processor;
+    const label = labelLines(node, results[node.id]).map(escape).join('<br/>');
+    lines.push(`  ${ids.get(node.id)}${open}${label}${close}`);
+  }
+  for (const node of flow.nodes) {
+    for (const dependency of node.depends_on || []) {
+      if (ids.has(dependency)) {
+        lines.push(`  ${ids.get(dependency)} --> ${ids.get(node.id)}`);
+      }
+    }
+  }
+
+  const classDef = (name: string, style: Style) =>
+    `  classDef ${name} fill:${style.fill},stroke:${style.stroke}${style.dashed ? ',stroke-dasharray:4 3' : ''}`;
+  const byClass: Map<string, string[]> = new Map();
+  const assign = (name: string, id: string) => byClass.set(name, [...(byClass.get(name) || []), id]);
+
+  for (const node of flow.nodes) {
+    const result = results[node.id];
+    assign(result ? result.status : node.type, ids.get(node.id)!);
+  }
+  if (flow.entry_point && ids.has(flow.entry_point)) {
+    assign('entry', ids.get(flow.entry_point)!);
+  }
+  (flow.exit_points || []).filter(id => ids.has(id)).forEach(id => assign('exit', ids.get(id)!));
+
+  const styles: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(TYPE_STYLES).map(([name, style]) => [name, classDef(name, style)])),
+    ...Object.fromEntries(Object.entries(STATUS_STYLES).map(([name, style]) => [name, classDef(name, style)])),
+    entry: '  classDef entry stroke-width:3px',
+    exit: '  classDef exit stroke-width:3px,stroke-dasharray:0',
+  };
+  for (const [name, members] of byClass) {
+    lines.push(styles[name], `  class ${members.join(',')} ${name}`);
+  }
+
+  return lines.join('\n');
+}
+
+function renderDot(flow: Flow, options: RenderFlowOptions): string {
+  const results = options.execution?.node_results || {};
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  const shapes: Record<FlowNode['type'], string> = {
+    input: 'oval',
+    processor: 'box',
+    output: 'oval',
+  };
+  const exitPoints = new Set(flow.exit_points || []);
+
+  const lines = [
+    `digraph ${quote(flow.flow_id)} {`,
+    `  rankdir=${options.direction || 'TB'};`,
+    '  node [fontname="Helvetica"];',
+  ];
+
+  for (const node of flow.nodes) {
+    const result = results[node.id];
+    const style = result ? STATUS_STYLES[result.status] || TYPE_STYLES[node.type] : TYPE_STYLES[node.type];
+    const attributes = [
+      `label=${quote(labelLines(node, result).join('\n'))}`,
+      `shape=${shapes[node.type] || 'box'}`,
+      `fillcolor=${quote(style.fill)}`,
+      `color=${quote(style.stroke)}`,
+      `style=${quote(['filled', ...(node.type === 'processor' ? ['rounded'] : []), ...(style.dashed ? ['dashed'] : [])].join(','))}`,
+      ...(node.id === flow.entry_point ? ['penwidth=3'] : []),
+      ...(exitPoints.has(node.id) ? ['peripheries=2'] : []),
+    ];
+    lines.push(`  ${quote(node.id)} [${attributes.join(', ')}];`);
+  }
+
+  const nodeIds = new Set(flow.nodes.map(node => node.id));
+  for (const node of flow.nodes) {
+    for (const dependency of node.depends_on || []) {
+      if (nodeIds.has(dependency)) {
+        lines.push(`  ${quote(dependency)} -> ${quote(node.id)};`);
+      }
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Renders a flow as a Mermaid flowchart or a Graphviz DOT graph
+ *
+ * Nodes are drawn with depends_on edges; input, processor and output nodes get
+ * different shapes and colors. The entry point has a thick border and exit
+ * points a double (DOT) or thick (Mermaid) border. With `execution`, nodes are
+ * colored by their node_results status and labeled with their duration.
+ *
+ * @param flow - Flow to draw
+ * @param options - Format, direction and execution overlay
+ * @returns Diagram source
+ *
+ * @example
+ * ```typescript
+ * const flow = await spine.getFlow('customer-support');
+ * const execution = await spine.getExecution('exec-123');
+ *
+ * // Paste into a mermaid code block in your docs
+ * console.log(renderFlow(flow, { execution }));
+ *
+ * // Or render with Graphviz: dot -Tsvg flow.dot > flow.svg
+ * fs.writeFileSync('flow.dot', renderFlow(flow, { format: 'dot' }));
+ * ```
+ */
+export function renderFlow(flow: Flow, options: RenderFlowOptions = {}): string {
+  const format = options.format || 'mermaid';
+  if (format === 'mermaid') {
+    return renderMermaid(flow, options);
+  }
+  if (format === 'dot') {
+    return renderDot(flow, options);
+  }
+  throw new ValidationError(`Unsupported diagram format "${format}"; use 'mermaid' or 'dot'`);
+}
@@ -0,0 +1,111 @@
+/**
+ * AI Spine SDK Retry Policy
+ *
+ * Backoff, jitter and retryability rules used by AISpineClient
+ */
+
+import { HttpMethod, RetryContext, RetryPolicy } from './types';
+import { AbortError, AISpineError, RateLimitError } from './errors';
+
+export type ResolvedRetryPolicy = RetryPolicy & Required<Pick<
+  RetryPolicy,
+  'retryMethods' | 'baseDelay' | 'maxDelay' | 'jitter' | 'respectRetryAfter'
+>>;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  retryMethods: ['GET', 'PUT', 'DELETE'],
+  baseDelay: 1000,
+  maxDelay: 10000,
+  jitter: 'full',
+  respectRetryAfter: true,
+};
+
+function assignDefined<K extends keyof RetryPolicy>(target: RetryPolicy, source: RetryPolicy, key: K): void {
+  if (source[key] !== undefined) {
+    target[key] = source[key];
+  }
+}
+
+/**
+ * Merges retry policies, later policies taking precedence
+ */
+export function resolveRetryPolicy(...policies: Array<RetryPolicy | undefined>): ResolvedRetryPolicy {
+  const resolved: ResolvedRetryPolicy = { ...DEFAULT_RETRY_POLICY };
+  for (const policy of policies) {
+    if (!policy) {
+      continue;
+    }
+    for (const key of Object.keys(policy) as Array<keyof RetryPolicy>) {
+      assignDefined(resolved, policy, key);
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Default retryable-error predicate: network failures, timeouts,
+ * rate limits and server errors
+ */
+export function isRetryableError(error: AISpineError): boolean {
+  if (error.status === undefined) {
+    return true;
+  }
+  return error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * Checks whether a request can be repeated without side effects
+ */
+export function isIdempotentRequest(
+  method: HttpMethod,
+  headers: Record<string, string> = {},
+  policy: Pick<RetryPolicy, 'retryMethods'> = DEFAULT_RETRY_POLICY
+): boolean {
+  const hasIdempotencyKey = Object.keys(headers).some(
+    name => name.toLowerCase() === 'idempotency-key' && !!headers[name]
+  );
+  return hasIdempotencyKey || (policy.retryMethods || DEFAULT_RETRY_POLICY.retryMethods).includes(method);
+}
+
+/**
+ * Decides whether a failed attempt should be retried
+ */
+export function shouldRetry(error: AISpineError, context: RetryContext, policy: RetryPolicy): boolean {
+  if (error instanceof AbortError || !context.idempotent) {
+    return false;
+  }
+  return (policy.retryOn || isRetryableError)(error, context);
+}
+
+/**
+ * Calculates the delay before the next attempt
+ *
+ * @param policy - Resolved retry policy
+ * @param attempt - Zero-based index of the attempt that just failed
+ * @param previousDelay - Delay used before the previous retry (for decorrelated jitter)
+ * @param error - The error that caused the retry
+ */
+export function computeRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  previousDelay: number,
+  error?: AISpineError
+): number {
+  if (policy.respectRetryAfter && error instanceof RateLimitError && error.retryAfter !== undefined) {
+    return Math.max(0, error.retryAfter * 1000);
+  }
+
+  const exponential = Math.min(policy.baseDelay * Math.pow(2, attempt), policy.maxDelay);
+
+  switch (policy.jitter) {
+    case 'full':
+      return Math.floor(Math.random() * exponential);
+    case 'decorrelated': {
+      const previous = Math.max(previousDelay, policy.baseDelay);
+      const upper = previous * 3;
+      return Math.floor(Math.min(policy.maxDelay, policy.baseDelay + Math.random() * (upper - policy.baseDelay)));
+    }
+    default:
+      return exponential;
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * AI Spine SDK Local Runner
+ *
+ * Executes flows in-process against mock agent handlers, for unit tests of flow
+ * logic without real executions
+ */
+
+import {
+  AgentExecutionRequest,
+  ExecutionContext,
+  Flow,
+  FlowNode,
+  LocalAgentHandler,
+  LocalFlowRunnerOptions,
+  LocalRunOptions,
+  NodeExecutionResult,
+} from './types';
+import { AbortError } from './errors';
+import { generateIdempotencyKey, throwIfAborted, throwIfValidationErrors, validateFlowDefinition } from './utils';
+
+/**
+ * Runs a flow locally with one handler per agent_id
+ *
+ * Nodes start as soon as every node in their depends_on has completed, so
+ * independent branches run concurrently. A node receives:
+ * - the run input when it has no dependencies
+ * - the output of its dependency when it has one
+ * - an object of outputs keyed by dependency id when it has several
+ *
+ * Nodes without an agent_id pass their input through. When a node fails (handler
+ * error, `status: 'error'` response, missing handler or timeout) no further nodes
+ * are started and the execution fails. The result has the same shape as
+ * getExecution() responses.
+ *
+ * @example
+ * ```typescript
+ * const runner = new LocalFlowRunner(flow, {
+ *   sentiment_agent: ({ input }) => ({ status: 'success', output: { sentiment: 'positive', text: input.text } }),
+ *   insight_agent: async ({ input }) => ({ status: 'success', output: { summary: `Mostly ${input.sentiment}` } }),
+ * });
+ *
+ * const execution = await runner.run({ text: 'Great service!' });
+ * expect(execution.status).toBe('completed');
+ * expect(execution.node_results['insights'].output_data).toEqual({ summary: 'Mostly positive' });
+ * ```
+ */
+export class LocalFlowRunner {
+  constructor(
+    private readonly flow: Flow,
+    private readonly agents: Record<string, LocalAgentHandler>,
+    private readonly options: LocalFlowRunnerOptions = {}
+  ) {
+    throwIfValidationErrors(validateFlowDefinition(flow), 'Flow definition validation failed');
+  }
+
+  /**
+   * Execute the flow once
+   *
+   * @param input - The flow's input_data
+   * @param options - Abort signal and execution metadata
+   * @returns The finished execution
+   * @throws AbortError when options.signal is aborted
+   */
+  async run(input: Record<string, any> = {}, options: LocalRunOptions = {}): Promise<ExecutionContext> {
+    throwIfAborted(options.signal);
+
+    const executionId = `local-${generateIdempotencyKey()}`;
+    const startedAt = new Date().toISOString();
+    const results: Record<string, NodeExecutionResult> = {};
+    const pending = new Set(this.flow.nodes.map(node => node.id));
+    const running: Map<string, Promise<void>> = new Map();
+    let failure: NodeExecutionResult | undefined;
+
+    const isReady = (node: FlowNode) => (node.depends_on || []).every(id => results[id]?.status === 'completed');
+
+    for (;;) {
+      if (!failure) {
+        for (const node of this.flow.nodes.filter(node => pending.has(node.id) && isReady(node))) {
+          pending.delete(node.id);
+          running.set(node.id, this.runNode(node, this.nodeInput(node, input, results), executionId, options.signal)
+            .then(result => {
+              results[node.id] = result;
+              failure = failure || (result.status === 'completed' ? undefined : result);
+              running.delete(node.id);
+            }));
+        }
+      }
+      if (running.size === 0) {
+        break;
+      }
+      await Promise.race(running.values());
+    }
+    throwIfAborted(options.signal);
+
+    const failed = failure as NodeExecutionResult | undefined;
+    return {
+      execution_id: executionId,
+      flow_id: this.flow.flow_id,
+      status: failed ? 'failed' : 'completed',
+      input_data: input,
+      ...(failed ? {} : { output_data: this.outputData(results) }),
+      node_results: results,
+      ...(failed ? { error_message: `Node ${failed.node_id} failed: ${failed.error_message}` } : {}),
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+      created_at: startedAt,
+      ...(options.metadata ? { metadata: options.metadata } : {}),
+    };
+  }
+
+  private nodeInput(node: FlowNode, input: Record<string, any>, results: Record<string, NodeExecutionResult>): Record<string, any> {
+    const dependencies = node.depends_on || [];
+    if (dependencies.length === 0) {
+      return { ...input };
+    }
+    if (dependencies.length === 1) {
+      return results[dependencies[0]].output_data || {};
+    }
+    return Object.fromEntries(dependencies.map(id => [id, results[id].output_data || {}]));
+  }
+
+  /**
+   * Output of the exit points (or output nodes): a single exit point's output
+   * as-is, several keyed by node id
+   */
+  private outputData(results: Record<string, NodeExecutionResult>): Record<string, any> {
+    const exits = this.flow.exit_points && this.flow.exit_points.length > 0
+      ? this.flow.exit_points
+      : this.flow.nodes.filter(node => node.type === 'output').map(node => node.id);
+    if (exits.length === 1) {
+      return results[exits[0]]?.output_data || {};
+    }
+    return Object.fromEntries(exits.map(id => [id, results[id]?.output_data || {}]));
+  }
+
+  private async runNode(
+    node: FlowNode,
+    inputData: Record<string, any>,
+    executionId: string,
+    signal?: AbortSignal
+  ): Promise<NodeExecutionResult> {
+    const start = Date.now();
+    const startedAt = new Date(start).toISOString();
+    const finish = (fields: Pick<NodeExecutionResult, 'status' | 'output_data' | 'error_message'>): NodeExecutionResult => ({
+      node_id: node.id,
+      execution_id: executionId,
+      input_data: inputData,
+      ...fields,
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+      duration: Date.now() - start,
+    });
+
+    if (!node.agent_id) {
+      return finish({ status: 'completed', output_data: inputData });
+    }
+    const handler = this.agents[node.agent_id];
+    if (!handler) {
+      return finish({ status: 'failed', error_message: `No handler registered for agent "${node.agent_id}"` });
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+    const timeout = node.config?.timeout ?? this.options.defaultTimeout;
+    let timedOut = false;
+    const timer = timeout !== undefined
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout)
+      : undefined;
+
+    const request: AgentExecutionRequest = {
+      input: inputData,
+      ...(node.config ? { config: node.config } : {}),
+      metadata: { execution_id: executionId, flow_id: this.flow.flow_id, node_id: node.id },
+    };
+
+    try {
+      const response = await Promise.race([
+        Promise.resolve().then(() => handler(request, {
+          execution_id: executionId,
+          flow_id: this.flow.flow_id,
+          node,
+          signal: controller.signal,
+        })),
+        new Promise<never>((_, reject) => {
+          controller.signal.addEventListener('abort', () => reject(new AbortError()));
+        }),
+      ]);
+
+      if (response.status === 'error') {
+        return finish({ status: 'failed', error_message: response.error_message || 'Agent returned an error' });
+      }
+      return finish({ status: 'completed', output_data: response.output });
+    } catch (error) {
+      if (timedOut) {
+        return finish({ status: 'failed', error_message: `Node timed out after ${timeout}ms` });
+      }
+      if (signal?.aborted) {
+        return finish({ status: 'cancelled', error_message: 'Execution aborted' });
+      }
+      return finish({ status: 'failed', error_message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
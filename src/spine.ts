@@ -15,9 +15,19 @@ import {
   FlowUpdateRequest,
   MyFlowsResponse,
   FlowDeleteResponse,
+  FlowFile,
+  FlowFileFormat,
+  FlowImportOptions,
+  FlowSyncChange,
+  FlowSyncOptions,
+  FlowSyncResult,
+  GenerateTypesOptions,
   FlowExecutionRequest,
   ExecutionContext,
   ExecutionResponse,
+  ExecutionRerunOptions,
+  TypedFlowOptions,
+  NodeExecutionResult,
   Metrics,
   HealthCheck,
   RequestOptions,
@@ -30,11 +40,22 @@ import {
   WebhookEventType,
   AgentEnvironmentField,
   AgentEnvironmentSchema,
+  AgentMonitorOptions,
+  ExecuteFlowOptions,
+  FlowPreflightOverrides,
+  FlowPreflightNodeResult,
+  FlowPreflightResult,
   ValidationResult,
   ValidationError as ValidationErrorType,
   AgentExecutionRequest,
   AgentExecutionResponse,
   UserInfo,
+  Middleware,
+  PollingOptions,
+  WaitForExecutionsOptions,
+  ExecutionSettledResult,
+  StreamOptions,
+  ExecutionStreamEvent,
 } from './types';
 import {
   validateApiKey,
@@ -43,17 +64,33 @@ import {
   validateAgentId,
   validateFlowInput,
   validateAgentConfig,
+  validateEnvironmentValues,
+  validateFlowDefinition,
   throwIfValidationErrors,
   sanitizeInput,
   delay,
+  throwIfAborted,
   isExecutionComplete,
 } from './utils';
-import { AISpineError, ValidationError } from './errors';
+import { AISpineError, AbortError, ExecutionError, NotFoundError, RateLimitError, ValidationError } from './errors';
 import { WebhookEventHandler } from './webhooks';
+import { consumeExecutionStream, openExecutionStream, streamExecutionEvents } from './streaming';
+import { ExecutionHandle } from './execution';
+import { TypedFlow } from './typed';
+import { DEFAULT_POLL_INTERVAL, fixedPolling, hasExecutionChanged, rateLimitedDelay, resolvePollingStrategy } from './polling';
+import { waitForExecutions } from './wait';
+import { parseFlowFile, resolveFlowFile, serializeFlowFile, toFlowFile } from './flowFile';
+import { formatFlowSyncPlan, loadFlowDirectory, planFlowSync, readFlowDirectory } from './sync';
+import { generateTypeDefinitions } from './codegen';
+import { CapabilityRegistry } from './capabilities';
+import { AgentMonitor } from './monitor';
 
 export class AISpine {
   private readonly client: AISpineClient;
   private readonly webhookHandler: WebhookEventHandler;
+  private readonly capabilities: CapabilityRegistry;
+  private readonly refreshCapabilitiesOnUnknown: boolean;
+  private capabilitiesRefresh?: Promise<string[]>;
 
   constructor(config: string | AISpineConfig) {
     // Allow string API key as shorthand for backward compatibility
@@ -74,6 +111,8 @@ export class AISpine {
 
     this.client = new AISpineClient(finalConfig);
     this.webhookHandler = new WebhookEventHandler();
+    this.capabilities = new CapabilityRegistry(finalConfig.capabilities);
+    this.refreshCapabilitiesOnUnknown = !!finalConfig.capabilities?.refresh;
   }
 
   // Flow Execution Methods
@@ -83,22 +122,32 @@ export class AISpine {
    * 
    * @param flowId - The ID of the flow to execute
    * @param input - Input data for the flow
-   * @param options - Request options
-   * @returns Promise resolving to execution response
+   * @param options - Request options, and `preflight` to check agent environments first
+   * @returns Promise resolving to a handle for the new execution
+   * @throws ValidationError if the preflight check fails
    * 
    * @example
    * ```typescript
-   * const result = await spine.executeFlow('customer-support', {
+   * const execution = await spine.executeFlow('customer-support', {
    *   message: 'I need help with my order'
    * });
-   * console.log('Execution ID:', result.execution_id);
+   * console.log('Execution ID:', execution.execution_id);
+   * 
+   * execution.on('node.completed', ({ node }) => console.log(`${node.node_id} done`));
+   * const output = await execution.output<{ reply: string }>();
+   * 
+   * // Safe to call again after a network blip - the flow only runs once
+   * await spine.executeFlow('customer-support', input, { idempotencyKey: `job-${jobId}` });
+   * 
+   * // Fail fast when an agent's environment is incomplete
+   * await spine.executeFlow('customer-support', input, { preflight: true });
    * ```
    */
-  public async executeFlow(
+  public async executeFlow<TIn extends Record<string, any> = Record<string, any>, TOut = Record<string, any>>(
     flowId: string,
-    input: Record<string, any>,
-    options: RequestOptions = {}
-  ): Promise<ExecutionResponse> {
+    input: TIn,
+    options: ExecuteFlowOptions = {}
+  ): Promise<ExecutionHandle<TIn, TOut>> {
     // Validate inputs
     const errors: ValidationErrorType[] = [];
     
@@ -111,9 +160,38 @@ export class AISpine {
       });
     }
     
+    if (options.preflight !== undefined && typeof options.preflight !== 'boolean') {
+      errors.push({
+        field: 'preflight',
+        message: 'preflight must be a boolean; check overrides with preflightFlow()',
+        code: 'invalid_type',
+        value: options.preflight,
+      });
+    }
+    
     errors.push(...validateFlowInput(input));
     throwIfValidationErrors(errors, 'Flow execution validation failed');
 
+    const requestOptions: ExecuteFlowOptions = { ...options };
+    delete requestOptions.preflight;
+    if (options.preflight) {
+      const checkOptions = { ...requestOptions };
+      delete checkOptions.idempotencyKey;
+      const preflight = await this.preflightFlow(flowId, {}, checkOptions);
+      if (!preflight.valid) {
+        throw new ValidationError(
+          `Preflight check failed for flow ${flowId}`,
+          preflight.nodes.flatMap(node => node.errors.map(error => ({
+            ...error,
+            field: error.field === 'agent_id'
+              ? `nodes.${node.node_id}.agent_id`
+              : `nodes.${node.node_id}.config.environment.${error.field}`,
+          }))),
+          { preflight }
+        );
+      }
+    }
+
     // Sanitize input
     const sanitizedInput = sanitizeInput(input);
     
@@ -122,8 +200,43 @@ export class AISpine {
       input_data: sanitizedInput,
     };
 
-    const response = await this.client.post<ExecutionResponse>('/api/v1/flows/execute', request, options);
-    return response.data;
+    const response = await this.client.post<ExecutionResponse>('/api/v1/flows/execute', request, requestOptions);
+    return new ExecutionHandle<TIn, TOut>(this, response.data, flowId);
+  }
+
+  /**
+   * Define a flow with typed input and output
+   * 
+   * Validators are optional: a predicate (return false or throw to reject) or a
+   * schema with a `parse` method, such as a zod schema. Input is checked before
+   * the execution is started, output when a completed execution is read.
+   * 
+   * @param flowId - The ID of the flow
+   * @param validators - Runtime checks for input and output
+   * @returns Typed flow handle
+   * 
+   * @example
+   * ```typescript
+   * const support = spine.defineFlow<{ message: string }, { reply: string }>('customer-support', {
+   *   input: (value: any) => typeof value?.message === 'string',
+   *   output: ReplySchema // e.g. z.object({ reply: z.string() })
+   * });
+   * 
+   * const { reply } = await support.run({ message: 'Where is my order?' });
+   * 
+   * const execution = await support.execute({ message: 'Hi' });
+   * execution.on('node.completed', ({ node }) => console.log(node.node_id));
+   * const output = await execution.output(); // { reply: string }
+   * ```
+   */
+  public defineFlow<TIn extends Record<string, any> = Record<string, any>, TOut = Record<string, any>>(
+    flowId: string,
+    validators: TypedFlowOptions<TIn, TOut> = {}
+  ): TypedFlow<TIn, TOut> {
+    if (!validateFlowId(flowId)) {
+      throw new ValidationError('Invalid flow ID format');
+    }
+    return new TypedFlow<TIn, TOut>(this, flowId, validators);
   }
 
   /**
@@ -138,9 +251,37 @@ export class AISpine {
    * const execution = await spine.getExecution('exec-123');
    * console.log('Status:', execution.status);
    * console.log('Result:', execution.output_data);
+   * 
+   * // Type input_data and output_data (not checked at runtime)
+   * const typed = await spine.getExecution<{ message: string }, { reply: string }>('exec-123');
    * ```
    */
-  public async getExecution(
+  public async getExecution<TIn extends Record<string, any> = Record<string, any>, TOut = Record<string, any>>(
+    executionId: string,
+    options: RequestOptions = {}
+  ): Promise<ExecutionContext<TIn, TOut>> {
+    if (!validateExecutionId(executionId)) {
+      throw new ValidationError('Invalid execution ID format');
+    }
+
+    const response = await this.client.get<ExecutionContext<TIn, TOut>>(`/api/v1/executions/${executionId}`, undefined, options);
+    return response.data;
+  }
+
+  /**
+   * Cancel a running execution
+   * 
+   * @param executionId - The execution ID
+   * @param options - Request options
+   * @returns Promise resolving to the execution, with status 'cancelled' once stopped
+   * 
+   * @example
+   * ```typescript
+   * const execution = await spine.cancelExecution('exec-123');
+   * console.log(execution.status); // 'cancelled'
+   * ```
+   */
+  public async cancelExecution(
     executionId: string,
     options: RequestOptions = {}
   ): Promise<ExecutionContext> {
@@ -148,13 +289,105 @@ export class AISpine {
       throw new ValidationError('Invalid execution ID format');
     }
 
-    const response = await this.client.get<ExecutionContext>(`/api/v1/executions/${executionId}`, undefined, options);
+    const response = await this.client.post<ExecutionContext>(`/api/v1/executions/${executionId}/cancel`, undefined, options);
     return response.data;
   }
 
+  /**
+   * Re-run a finished execution
+   * 
+   * Starts a new execution of the same flow with the stored input_data. Completed
+   * node results are reused, so only failed, cancelled or unfinished nodes run
+   * again. With `fromNode`, that node and every node downstream of it run again
+   * as well.
+   * 
+   * @param executionId - The execution to re-run
+   * @param rerunOptions - Restart point and input overrides
+   * @param options - Request options
+   * @returns Promise resolving to a handle for the new execution
+   * 
+   * @example
+   * ```typescript
+   * // Retry only the failed downstream agent
+   * const retry = await spine.rerunExecution('exec-123');
+   * 
+   * // Run 'summarize' and everything after it again with a different tone
+   * const rerun = await spine.rerunExecution('exec-123', {
+   *   fromNode: 'summarize',
+   *   inputOverrides: { tone: 'formal' }
+   * });
+   * ```
+   */
+  public async rerunExecution(
+    executionId: string,
+    rerunOptions: ExecutionRerunOptions = {},
+    options: RequestOptions = {}
+  ): Promise<ExecutionHandle> {
+    // Reads must not share the idempotency key of the new execution
+    const readOptions: RequestOptions = { ...options, idempotencyKey: undefined };
+    const execution = await this.getExecution(executionId, readOptions);
+
+    if (!isExecutionComplete(execution.status)) {
+      throw new ExecutionError(
+        `Execution ${executionId} is still ${execution.status}; cancel it before re-running`,
+        executionId,
+        { status: execution.status }
+      );
+    }
+
+    const rerunNodes = new Set<string>();
+    if (rerunOptions.fromNode) {
+      const flow = await this.getFlow(execution.flow_id, readOptions);
+      if (!flow.nodes.some(node => node.id === rerunOptions.fromNode)) {
+        throw new ValidationError(`Node ${rerunOptions.fromNode} does not exist in flow ${execution.flow_id}`, [{
+          field: 'fromNode',
+          message: 'Node not found in flow',
+          code: 'invalid_value',
+          value: rerunOptions.fromNode,
+        }]);
+      }
+
+      // Collect fromNode and everything that depends on it, directly or transitively
+      const pending = [rerunOptions.fromNode];
+      while (pending.length > 0) {
+        const nodeId = pending.pop()!;
+        if (rerunNodes.has(nodeId)) {
+          continue;
+        }
+        rerunNodes.add(nodeId);
+        pending.push(...flow.nodes.filter(node => node.depends_on?.includes(nodeId)).map(node => node.id));
+      }
+    }
+
+    const reused: Record<string, NodeExecutionResult> = {};
+    for (const [nodeId, result] of Object.entries(execution.node_results || {})) {
+      if (result.status === 'completed' && !rerunNodes.has(nodeId)) {
+        reused[nodeId] = result;
+      }
+    }
+
+    const request: FlowExecutionRequest = {
+      flow_id: execution.flow_id,
+      input_data: sanitizeInput({ ...execution.input_data, ...rerunOptions.inputOverrides }),
+      node_results: reused,
+      metadata: {
+        rerun_of: executionId,
+        ...(rerunOptions.fromNode ? { from_node: rerunOptions.fromNode } : {}),
+      },
+    };
+
+    const response = await this.client.post<ExecutionResponse>('/api/v1/flows/execute', request, options);
+    return new ExecutionHandle(this, response.data, execution.flow_id);
+  }
+
   /**
    * Wait for an execution to complete
    * 
+   * The delay between status checks comes from the polling strategy: `polling`,
+   * a fixed `interval`, or the `polling` option of AISpineConfig (fixed 2 seconds
+   * by default). Rate limited status checks wait for RateLimitError.retryAfter,
+   * at most the strategy's maxInterval and never past the timeout.
+   * 
    * @param executionId - The execution ID
    * @param options - Polling options
    * @returns Promise resolving to completed execution
@@ -163,24 +396,54 @@ export class AISpine {
    * ```typescript
    * const result = await spine.waitForExecution('exec-123', {
    *   timeout: 60000, // 1 minute
-   *   interval: 2000  // Poll every 2 seconds
+   *   interval: 2000, // Poll every 2 seconds
+   *   signal: controller.signal // Stop polling with controller.abort()
+   * });
+   * 
+   * // Check often at first, then back off to at most every 10 seconds
+   * await spine.waitForExecution('exec-123', {
+   *   polling: { strategy: 'exponential', interval: 500, maxInterval: 10000 }
    * });
    * ```
    */
-  public async waitForExecution(
+  public async waitForExecution<TIn extends Record<string, any> = Record<string, any>, TOut = Record<string, any>>(
     executionId: string,
     options: {
       timeout?: number;
       interval?: number;
-      onProgress?: (execution: ExecutionContext) => void;
+      polling?: PollingOptions;
+      onProgress?: (execution: ExecutionContext<TIn, TOut>) => void;
     } & RequestOptions = {}
-  ): Promise<ExecutionContext> {
+  ): Promise<ExecutionContext<TIn, TOut>> {
     const timeout = options.timeout || 300000; // 5 minutes default
-    const interval = options.interval || 2000; // 2 seconds default
+    const strategy = options.polling
+      ? resolvePollingStrategy(options.polling)
+      : options.interval
+        ? fixedPolling(options.interval)
+        : resolvePollingStrategy(this.client.getConfig().polling);
     const startTime = Date.now();
+    let polls = 0;
+    let previous: ExecutionContext | undefined;
+    let flow: Flow | undefined;
+    let flowLoaded = false;
+    let nextDelay = DEFAULT_POLL_INTERVAL;
 
     while (Date.now() - startTime < timeout) {
-      const execution = await this.getExecution(executionId, options);
+      throwIfAborted(options.signal);
+
+      let execution: ExecutionContext<TIn, TOut>;
+      try {
+        polls++;
+        execution = await this.getExecution<TIn, TOut>(executionId, options);
+      } catch (error) {
+        // Rate limited status checks back off instead of failing the wait
+        if (error instanceof RateLimitError) {
+          nextDelay = rateLimitedDelay(error.retryAfter, nextDelay, strategy, timeout - (Date.now() - startTime));
+          await delay(nextDelay, options.signal);
+          continue;
+        }
+        throw error;
+      }
       
       if (options.onProgress) {
         options.onProgress(execution);
@@ -190,17 +453,147 @@ export class AISpine {
         return execution;
       }
 
-      await delay(interval);
+      if (strategy.needsFlow && !flowLoaded) {
+        flowLoaded = true;
+        // Hints are optional; poll without them if the flow can't be loaded
+        flow = await this.getFlow(execution.flow_id, options).catch(() => undefined);
+      }
+
+      // Strategies see the untyped execution
+      const snapshot = execution as ExecutionContext;
+      nextDelay = strategy.nextDelay({
+        polls,
+        elapsed: Date.now() - startTime,
+        execution: snapshot,
+        changed: hasExecutionChanged(previous, snapshot),
+        flow,
+      });
+      previous = snapshot;
+
+      await delay(nextDelay, options.signal);
     }
 
     throw new AISpineError(
       `Execution ${executionId} did not complete within ${timeout}ms`,
       'EXECUTION_TIMEOUT',
       408,
-      { executionId, timeout }
+      { executionId, timeout, polls }
     );
   }
 
+  /**
+   * Wait for many executions with one shared poll loop
+   * 
+   * Executions of the same flow are checked together through listExecutions;
+   * the polling strategy is shared with waitForExecution.
+   * 
+   * - `mode: 'all'` (default) resolves with every execution, in input order, and
+   *   rejects with the first error
+   * - `mode: 'any'` resolves with the first execution to finish
+   * - `mode: 'allSettled'` resolves with a result or error for every id
+   * 
+   * @param executionIds - The execution IDs
+   * @param options - Wait mode and polling options
+   * 
+   * @example
+   * ```typescript
+   * const handles = await Promise.all(documents.map(doc => spine.executeFlow('summarize', { doc })));
+   * const results = await spine.waitForExecutions(handles.map(h => h.execution_id), { mode: 'allSettled' });
+   * results.forEach(result => {
+   *   if (result.status === 'rejected') {
+   *     console.error(`${result.execution_id}: ${result.reason.message}`);
+   *   }
+   * });
+   * ```
+   */
+  public waitForExecutions(
+    executionIds: string[],
+    options?: WaitForExecutionsOptions & { mode?: 'all' }
+  ): Promise<ExecutionContext[]>;
+  public waitForExecutions(
+    executionIds: string[],
+    options: WaitForExecutionsOptions & { mode: 'any' }
+  ): Promise<ExecutionContext>;
+  public waitForExecutions(
+    executionIds: string[],
+    options: WaitForExecutionsOptions & { mode: 'allSettled' }
+  ): Promise<ExecutionSettledResult[]>;
+  public waitForExecutions(
+    executionIds: string[],
+    options: WaitForExecutionsOptions = {}
+  ): Promise<ExecutionContext[] | ExecutionContext | ExecutionSettledResult[]> {
+    return waitForExecutions({
+      getExecution: (id, requestOptions) => this.getExecution(id, requestOptions),
+      listExecutions: (filters, requestOptions) => this.listExecutions(filters, requestOptions),
+      getFlow: (flowId, requestOptions) => this.getFlow(flowId, requestOptions),
+      polling: this.client.getConfig().polling,
+    }, executionIds, options);
+  }
+
+  /**
+   * Follow an execution in real time
+   * 
+   * Node transitions are streamed over Server-Sent Events and delivered through
+   * the StreamOptions callbacks. Falls back to adaptive polling when the server
+   * or runtime doesn't support streaming.
+   * 
+   * @param executionId - The execution ID
+   * @param options - Stream callbacks and options
+   * @returns Promise resolving to the finished execution
+   * 
+   * @example
+   * ```typescript
+   * const execution = await spine.streamExecution(result.execution_id, {
+   *   onData: (event) => {
+   *     if (event.type === 'node') {
+   *       console.log(`${event.node.node_id}: ${event.node.status}`);
+   *     }
+   *   },
+   *   onProgress: ({ percentage }) => console.log(`${percentage}%`)
+   * });
+   * ```
+   */
+  public async streamExecution(
+    executionId: string,
+    options: StreamOptions = {}
+  ): Promise<ExecutionContext> {
+    return consumeExecutionStream(this.streamExecutionEvents(executionId, options), options);
+  }
+
+  /**
+   * Follow an execution in real time as an async iterator
+   * 
+   * Yields a 'node' event for every NodeExecutionResult status transition and an
+   * 'execution' event whenever the execution status changes. Ends once the
+   * execution has finished.
+   * 
+   * @param executionId - The execution ID
+   * @param options - Stream options
+   * @returns Async iterator of execution events
+   * 
+   * @example
+   * ```typescript
+   * for await (const event of spine.streamExecutionEvents(result.execution_id)) {
+   *   if (event.type === 'node' && event.node.status === 'completed') {
+   *     console.log(`${event.node.node_id} finished in ${event.node.duration}ms`);
+   *   }
+   * }
+   * ```
+   */
+  public streamExecutionEvents(
+    executionId: string,
+    options: StreamOptions = {}
+  ): AsyncGenerator<ExecutionStreamEvent> {
+    if (!validateExecutionId(executionId)) {
+      throw new ValidationError('Invalid execution ID format');
+    }
+
+    return streamExecutionEvents({
+      getExecution: (id, requestOptions) => this.getExecution(id, requestOptions),
+      openStream: (id, requestOptions) => openExecutionStream(this.client, id, requestOptions),
+    }, executionId, options);
+  }
+
   // Flow Management Methods
 
   /**
@@ -289,31 +682,32 @@ export class AISpine {
    *   name: 'My Custom Agent',
    *   description: 'A custom AI agent for specific tasks',
    *   endpoint: 'https://my-agent.example.com/api',
-   *   capabilities: ['conversation', 'information_gathering'], // Valid capabilities only
+   *   capabilities: ['conversation', 'information_gathering'], // See listCapabilities()
    *   agent_type: 'processor', // 'input' | 'processor' | 'output' | 'conditional'
    *   is_active: true
-   * });
+   * }, { idempotencyKey: 'register-my-custom-agent' });
    * ```
+   * @throws ValidationError for capabilities missing from the capability registry
    */
   public async registerAgent(config: AgentConfig, options: RequestOptions = {}): Promise<Agent> {
     const errors = validateAgentConfig(config);
     throwIfValidationErrors(errors, 'Agent registration validation failed');
 
     // Validate capabilities
-    const validCapabilities = [
-      'conversation',
-      'information_gathering', 
-      'credit_analysis',
-      'risk_assessment',
-      'document_processing',
-      'decision_making'
-    ];
-    
     if (config.capabilities && config.capabilities.length > 0) {
-      const invalidCapabilities = config.capabilities.filter(cap => !validCapabilities.includes(cap));
+      let invalidCapabilities = this.capabilities.unknown(config.capabilities);
+      if (invalidCapabilities.length > 0 && this.refreshCapabilitiesOnUnknown) {
+        // Refresh once; failed refreshes are retried by the next registration
+        this.capabilitiesRefresh = this.capabilitiesRefresh || this.refreshCapabilities(options).catch(error => {
+          this.capabilitiesRefresh = undefined;
+          throw error;
+        });
+        await this.capabilitiesRefresh;
+        invalidCapabilities = this.capabilities.unknown(config.capabilities);
+      }
       if (invalidCapabilities.length > 0) {
         throw new ValidationError(
-          `Invalid capabilities: ${invalidCapabilities.join(', ')}. Valid values are: ${validCapabilities.join(', ')}`
+          `Invalid capabilities: ${invalidCapabilities.join(', ')}. Valid values are: ${this.capabilities.list().join(', ')}`
         );
       }
     }
@@ -345,6 +739,73 @@ export class AISpine {
     return response.data;
   }
 
+  /**
+   * Accept additional agent capabilities in registerAgent
+   * 
+   * @param names - Capability names (letters, digits, underscores and hyphens)
+   * @throws ValidationError for invalid names
+   * 
+   * @example
+   * ```typescript
+   * spine.registerCapability('restaurant_booking', 'translation');
+   * ```
+   */
+  public registerCapability(...names: string[]): void {
+    this.capabilities.register(...names);
+  }
+
+  /**
+   * List the agent capabilities registerAgent accepts
+   * 
+   * @returns Built-in capabilities, then configured, registered and server capabilities
+   */
+  public listCapabilities(): string[] {
+    return this.capabilities.list();
+  }
+
+  /**
+   * Add the capabilities the server supports to the capability registry
+   * 
+   * @param options - Request options
+   * @returns Promise resolving to all known capabilities
+   */
+  public async refreshCapabilities(options: RequestOptions = {}): Promise<string[]> {
+    const response = await this.client.get<string[] | { capabilities: string[] }>(
+      '/api/v1/agents/capabilities',
+      undefined,
+      options
+    );
+    const capabilities = Array.isArray(response.data) ? response.data : response.data?.capabilities;
+    if (!Array.isArray(capabilities)) {
+      throw new AISpineError('Unexpected capabilities response from the server', 'INVALID_RESPONSE');
+    }
+    this.capabilities.register(...capabilities);
+    return this.capabilities.list();
+  }
+
+  /**
+   * Create a health monitor for agents
+   * 
+   * @param agentIds - Agents to check
+   * @param options - Interval, probe and thresholds
+   * @returns Monitor; call start() to check periodically
+   * 
+   * @example
+   * ```typescript
+   * const monitor = spine.monitorAgents(['sentiment_agent', 'booking_agent'], { interval: 60000 });
+   * monitor.on('agent.down', ({ agent_id, check }) => alert(`${agent_id} is down: ${check.message}`));
+   * monitor.on('agent.recovered', ({ agent_id }) => console.log(`${agent_id} is back`));
+   * monitor.start();
+   * 
+   * // Later
+   * console.table(monitor.getUptimeSummary());
+   * monitor.stop();
+   * ```
+   */
+  public monitorAgents(agentIds: string[], options: AgentMonitorOptions = {}): AgentMonitor {
+    return new AgentMonitor(this, agentIds, options);
+  }
+
   // Execution Management Methods
 
   /**
@@ -383,28 +844,31 @@ export class AISpine {
    *   { id: '2', flowId: 'text-analysis', input: { text: 'Goodbye world' } }
    * ], {
    *   concurrency: 2,
-   *   onProgress: (completed, total) => console.log(`${completed}/${total} completed`)
+   *   onProgress: (completed, total) => console.log(`${completed}/${total} completed`),
+   *   signal: controller.signal // Rejects with AbortError when aborted
    * });
    * ```
    */
-  public async executeBatch(
-    requests: Array<{ id: string; flowId: string; input: Record<string, any> }>,
-    options: BatchOptions = {}
-  ): Promise<BatchResponse[]> {
+  public async executeBatch<TIn extends Record<string, any> = Record<string, any>, TOut = any>(
+    requests: Array<{ id: string; flowId: string; input: TIn }>,
+    options: BatchOptions<TOut> = {}
+  ): Promise<BatchResponse<TOut>[]> {
     const concurrency = options.concurrency || 5;
-    const results: BatchResponse[] = [];
+    const results: BatchResponse<TOut>[] = [];
     let completed = 0;
 
-    const executeRequest = async (request: { id: string; flowId: string; input: Record<string, any> }): Promise<BatchResponse> => {
+    const { signal } = options;
+
+    const executeRequest = async (request: { id: string; flowId: string; input: TIn }): Promise<BatchResponse<TOut>> => {
       try {
-        const executionResponse = await this.executeFlow(request.flowId, request.input);
-        const execution = await this.waitForExecution(executionResponse.execution_id);
+        const executionResponse = await this.executeFlow<TIn, TOut>(request.flowId, request.input, { signal });
+        const execution = await this.waitForExecution<TIn, TOut>(executionResponse.execution_id, { signal });
         
-        const result: BatchResponse = {
+        const result: BatchResponse<TOut> = {
           id: request.id,
-          status: execution.status as 'completed' | 'failed',
+          status: execution.status === 'completed' ? 'completed' : 'failed',
           result: execution.output_data,
-          error: execution.error_message,
+          error: execution.error_message || (execution.status === 'cancelled' ? 'Execution cancelled' : undefined),
         };
 
         completed++;
@@ -417,7 +881,12 @@ export class AISpine {
 
         return result;
       } catch (error) {
-        const result: BatchResponse = {
+        // Cancellation stops the whole batch instead of failing one item
+        if (error instanceof AbortError) {
+          throw error;
+        }
+
+        const result: BatchResponse<TOut> = {
           id: request.id,
           status: 'failed',
           error: error instanceof Error ? error.message : 'Unknown error',
@@ -437,6 +906,8 @@ export class AISpine {
 
     // Process requests with concurrency limit
     for (let i = 0; i < requests.length; i += concurrency) {
+      throwIfAborted(signal);
+
       const batch = requests.slice(i, i + concurrency);
       const batchResults = await Promise.all(batch.map(executeRequest));
       results.push(...batchResults);
@@ -485,6 +956,33 @@ export class AISpine {
     this.client.updateConfig(updates);
   }
 
+  /**
+   * Forget results cached by idempotency key, so the same keys are sent to the server again
+   */
+  public clearIdempotencyCache(): void {
+    this.client.clearIdempotencyCache();
+  }
+
+  /**
+   * Register a request/response middleware
+   * 
+   * @param middleware - Middleware function
+   * @returns Function that removes the middleware
+   * 
+   * @example
+   * ```typescript
+   * spine.use(async (request, next) => {
+   *   request.headers['X-Tenant-Id'] = 'tenant-123';
+   *   const response = await next(request);
+   *   console.log(request.method, request.url, response.status);
+   *   return response;
+   * });
+   * ```
+   */
+  public use(middleware: Middleware): () => void {
+    return this.client.use(middleware);
+  }
+
   // Webhook Methods
 
   /**
@@ -709,7 +1207,8 @@ export class AISpine {
       }
 
       // Perform validation
-      return this.validateEnvironmentAgainstSchema(environment, agent.environment_schema);
+      const errors = validateEnvironmentValues(environment, agent.environment_schema);
+      return { valid: errors.length === 0, errors };
     } catch (error) {
       if (error instanceof AISpineError) {
         throw error;
@@ -751,65 +1250,77 @@ export class AISpine {
   }
 
   /**
-   * Validate environment variables against a schema (client-side)
+   * Check the environment of every agent in a flow before running it
    * 
-   * @param environment - Environment variables to validate
-   * @param schema - Environment schema to validate against
-   * @returns Validation result
+   * For each node with an agent_id, the agent's schema defaults, the node's
+   * config.environment and the overrides are merged (in that order) and checked
+   * against the agent's environment schema. Each agent is fetched once.
+   * 
+   * @param flowId - The ID of the flow
+   * @param overrides - Values supplied at run time, for all nodes or per node
+   * @param options - Request options
+   * @returns Promise resolving to the missing or mistyped variables per node
+   * 
+   * @example
+   * ```typescript
+   * const preflight = await spine.preflightFlow('restaurant-booking', {
+   *   environment: { opentable_api_key: process.env.OPENTABLE_API_KEY! }
+   * });
+   * 
+   * for (const node of preflight.nodes.filter(node => !node.valid)) {
+   *   console.error(node.node_id, node.errors.map(error => error.message));
+   * }
+   * ```
    */
-  private validateEnvironmentAgainstSchema(
-    environment: Record<string, any>,
-    schema: AgentEnvironmentSchema
-  ): ValidationResult {
-    const errors: ValidationErrorType[] = [];
-
-    // Check required fields
-    for (const [fieldName, fieldConfig] of Object.entries(schema)) {
-      const value = environment[fieldName];
+  public async preflightFlow(
+    flowId: string,
+    overrides: FlowPreflightOverrides = {},
+    options: RequestOptions = {}
+  ): Promise<FlowPreflightResult> {
+    const flow = await this.getFlow(flowId, options);
+    const nodes = flow.nodes.filter(node => node.agent_id);
 
-      // Check if required field is missing
-      if (fieldConfig.required && (value === undefined || value === null || value === '')) {
-        errors.push({
-          field: fieldName,
-          message: `${fieldName} is required`,
-          code: 'required'
-        });
-        continue;
+    // Unknown agents are reported on their nodes instead of failing the check
+    const schemas: Map<string, { schema?: AgentEnvironmentSchema; error?: string }> = new Map();
+    await Promise.all(Array.from(new Set(nodes.map(node => node.agent_id!))).map(async agentId => {
+      try {
+        const agent = await this.getAgent(agentId, options);
+        schemas.set(agentId, { schema: agent.environment_schema || {} });
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          schemas.set(agentId, { error: `Agent ${agentId} not found` });
+        } else if (error instanceof ValidationError) {
+          schemas.set(agentId, { error: error.message });
+        } else {
+          throw error;
+        }
       }
-
-      // Skip validation if field is not provided and not required
-      if (value === undefined || value === null) {
-        continue;
+    }));
+
+    const results = nodes.map((node): FlowPreflightNodeResult => {
+      const agentId = node.agent_id!;
+      const { schema, error } = schemas.get(agentId)!;
+      if (!schema) {
+        const errors = [{ field: 'agent_id', message: error!, code: 'invalid_value' as const, value: agentId }];
+        return { node_id: node.id, agent_id: agentId, valid: false, errors };
       }
 
-      // Type validation
-      const expectedType = fieldConfig.type === 'password' ? 'string' : fieldConfig.type;
-      const actualType = typeof value;
-
-      if (expectedType === 'number' && actualType !== 'number') {
-        errors.push({
-          field: fieldName,
-          message: `${fieldName} must be a number`,
-          code: 'invalid_type'
-        });
-      } else if (expectedType === 'boolean' && actualType !== 'boolean') {
-        errors.push({
-          field: fieldName,
-          message: `${fieldName} must be a boolean`,
-          code: 'invalid_type'
-        });
-      } else if (expectedType === 'string' && actualType !== 'string') {
-        errors.push({
-          field: fieldName,
-          message: `${fieldName} must be a string`,
-          code: 'invalid_type'
-        });
+      const environment: Record<string, any> = {};
+      for (const [field, definition] of Object.entries(schema)) {
+        if (definition.default_value !== undefined) {
+          environment[field] = definition.default_value;
+        }
       }
-    }
+      Object.assign(environment, node.config?.environment, overrides.environment, overrides.nodes?.[node.id]);
+
+      const errors = validateEnvironmentValues(environment, schema);
+      return { node_id: node.id, agent_id: agentId, valid: errors.length === 0, errors };
+    });
 
     return {
-      valid: errors.length === 0,
-      errors
+      flow_id: flowId,
+      valid: results.every(result => result.valid),
+      nodes: results,
     };
   }
 
@@ -872,7 +1383,7 @@ export class AISpine {
    * ```
    */
   public async getCurrentUser(options: RequestOptions = {}): Promise<UserInfo> {
-    return this.client.getCurrentUser();
+    return this.client.getCurrentUser(options);
   }
 
   // Secure User Account Methods (Using Supabase Token)
@@ -880,6 +1391,7 @@ export class AISpine {
   /**
    * Get user profile using Supabase authentication
    * 
+   * @param options - Request options
    * @returns Promise resolving to user profile
    * 
    * @example
@@ -892,13 +1404,14 @@ export class AISpine {
    * console.log('User:', profile.email);
    * ```
    */
-  public async getUserProfile() {
-    return this.client.getUserProfile();
+  public async getUserProfile(options: RequestOptions = {}) {
+    return this.client.getUserProfile(options);
   }
 
   /**
    * Get user's API key status using Supabase authentication
    * 
+   * @param options - Request options
    * @returns Promise resolving to API key status (masked)
    * 
    * @example
@@ -916,13 +1429,14 @@ export class AISpine {
    * }
    * ```
    */
-  public async getUserApiKeyStatus() {
-    return this.client.getUserApiKeyStatus();
+  public async getUserApiKeyStatus(options: RequestOptions = {}) {
+    return this.client.getUserApiKeyStatus(options);
   }
 
   /**
    * Generate or regenerate API key using Supabase authentication
    * 
+   * @param options - Request options
    * @returns Promise resolving to new API key (shown once)
    * 
    * @example
@@ -937,13 +1451,14 @@ export class AISpine {
    * // Save this key securely - won't be shown again!
    * ```
    */
-  public async generateApiKey() {
-    return this.client.generateApiKey();
+  public async generateApiKey(options: RequestOptions = {}) {
+    return this.client.generateApiKey(options);
   }
 
   /**
    * Revoke API key using Supabase authentication
    * 
+   * @param options - Request options
    * @returns Promise resolving to confirmation
    * 
    * @example
@@ -956,8 +1471,8 @@ export class AISpine {
    * console.log('API key revoked:', result.message);
    * ```
    */
-  public async revokeApiKey() {
-    return this.client.revokeApiKey();
+  public async revokeApiKey(options: RequestOptions = {}) {
+    return this.client.revokeApiKey(options);
   }
 
   // Deprecated User Key Methods (Use secure methods above)
@@ -967,6 +1482,7 @@ export class AISpine {
    * Check if a user has an API key generated
    * 
    * @param userId - Supabase Auth user ID (UUID)
+   * @param options - Request options
    * @returns Promise resolving to API key status and details
    * 
    * @example
@@ -982,8 +1498,8 @@ export class AISpine {
    * }
    * ```
    */
-  public async checkUserApiKey(userId: string) {
-    return this.client.checkUserApiKey(userId);
+  public async checkUserApiKey(userId: string, options: RequestOptions = {}) {
+    return this.client.checkUserApiKey(userId, options);
   }
 
   /**
@@ -991,6 +1507,7 @@ export class AISpine {
    * Generate or regenerate an API key for a user
    * 
    * @param userId - Supabase Auth user ID (UUID)
+   * @param options - Request options
    * @returns Promise resolving to new API key and action taken
    * 
    * @example
@@ -1003,8 +1520,8 @@ export class AISpine {
    * console.log('Message:', result.message);
    * ```
    */
-  public async generateUserApiKey(userId: string) {
-    return this.client.generateUserApiKey(userId);
+  public async generateUserApiKey(userId: string, options: RequestOptions = {}) {
+    return this.client.generateUserApiKey(userId, options);
   }
 
   /**
@@ -1012,6 +1529,7 @@ export class AISpine {
    * Revoke (delete) a user's API key
    * 
    * @param userId - Supabase Auth user ID (UUID)
+   * @param options - Request options
    * @returns Promise resolving to confirmation of revocation
    * 
    * @example
@@ -1023,8 +1541,8 @@ export class AISpine {
    * console.log('Message:', result.message);
    * ```
    */
-  public async revokeUserApiKey(userId: string) {
-    return this.client.revokeUserApiKey(userId);
+  public async revokeUserApiKey(userId: string, options: RequestOptions = {}) {
+    return this.client.revokeUserApiKey(userId, options);
   }
 
   /**
@@ -1042,7 +1560,7 @@ export class AISpine {
    * ```
    */
   public async checkCredits(options: RequestOptions = {}): Promise<number> {
-    return this.client.checkCredits();
+    return this.client.checkCredits(options);
   }
 
   // Flow CRUD Methods (Using Supabase Token)
@@ -1050,7 +1568,10 @@ export class AISpine {
   /**
    * Create a new flow (requires Supabase authentication)
    * 
+   * The node graph is checked with validateFlowDefinition() before it is sent.
+   * 
    * @param flowData - The flow definition to create
+   * @param options - Request options (e.g. `idempotencyKey`)
    * @returns Promise resolving to the created flow
    * 
    * @example
@@ -1069,7 +1590,7 @@ export class AISpine {
    * });
    * ```
    */
-  public async createFlow(flowData: FlowCreateRequest): Promise<FlowDefinition> {
+  public async createFlow(flowData: FlowCreateRequest, options: RequestOptions = {}): Promise<FlowDefinition> {
     const config = this.client.getConfig();
     if (!config.supabaseToken) {
       throw new ValidationError('Supabase token is required for creating flows');
@@ -1079,12 +1600,15 @@ export class AISpine {
     if (!flowData.flow_id || !flowData.name || !flowData.nodes || !flowData.entry_point) {
       throw new ValidationError('flow_id, name, nodes, and entry_point are required');
     }
+    throwIfValidationErrors(validateFlowDefinition(flowData), 'Flow definition validation failed');
 
     const response = await this.client.post<FlowDefinition>(
       '/api/v1/flows',
       flowData,
       {
+        ...options,
         headers: {
+          ...options.headers,
           'Authorization': `Bearer ${config.supabaseToken}`
         }
       }
@@ -1096,6 +1620,7 @@ export class AISpine {
   /**
    * Get all flows created by the current user (requires Supabase authentication)
    * 
+   * @param options - Request options
    * @returns Promise resolving to user's flows
    * 
    * @example
@@ -1111,7 +1636,7 @@ export class AISpine {
    * });
    * ```
    */
-  public async getMyFlows(): Promise<MyFlowsResponse> {
+  public async getMyFlows(options: RequestOptions = {}): Promise<MyFlowsResponse> {
     const config = this.client.getConfig();
     if (!config.supabaseToken) {
       throw new ValidationError('Supabase token is required for getting user flows');
@@ -1121,7 +1646,9 @@ export class AISpine {
       '/api/v1/flows/my-flows',
       undefined,
       {
+        ...options,
         headers: {
+          ...options.headers,
           'Authorization': `Bearer ${config.supabaseToken}`
         }
       }
@@ -1133,8 +1660,11 @@ export class AISpine {
   /**
    * Update an existing flow (requires ownership and Supabase authentication)
    * 
+   * Updated nodes are checked with validateFlowDefinition() before they are sent.
+   * 
    * @param flowId - The flow ID to update
    * @param updates - The updates to apply
+   * @param options - Request options
    * @returns Promise resolving to the updated flow
    * 
    * @example
@@ -1151,7 +1681,11 @@ export class AISpine {
    * console.log('Flow version:', updated.version);
    * ```
    */
-  public async updateFlow(flowId: string, updates: FlowUpdateRequest): Promise<FlowDefinition> {
+  public async updateFlow(
+    flowId: string,
+    updates: FlowUpdateRequest,
+    options: RequestOptions = {}
+  ): Promise<FlowDefinition> {
     const config = this.client.getConfig();
     if (!config.supabaseToken) {
       throw new ValidationError('Supabase token is required for updating flows');
@@ -1160,12 +1694,15 @@ export class AISpine {
     if (!flowId) {
       throw new ValidationError('Flow ID is required');
     }
+    throwIfValidationErrors(validateFlowDefinition(updates), 'Flow definition validation failed');
 
     const response = await this.client.put<FlowDefinition>(
       `/api/v1/flows/${flowId}`,
       updates,
       {
+        ...options,
         headers: {
+          ...options.headers,
           'Authorization': `Bearer ${config.supabaseToken}`
         }
       }
@@ -1178,6 +1715,7 @@ export class AISpine {
    * Delete a flow (requires ownership and Supabase authentication)
    * 
    * @param flowId - The flow ID to delete
+   * @param options - Request options
    * @returns Promise resolving to deletion confirmation
    * 
    * @example
@@ -1190,7 +1728,7 @@ export class AISpine {
    * console.log(result.message); // 'Flow deleted successfully'
    * ```
    */
-  public async deleteFlow(flowId: string): Promise<FlowDeleteResponse> {
+  public async deleteFlow(flowId: string, options: RequestOptions = {}): Promise<FlowDeleteResponse> {
     const config = this.client.getConfig();
     if (!config.supabaseToken) {
       throw new ValidationError('Supabase token is required for deleting flows');
@@ -1203,7 +1741,9 @@ export class AISpine {
     const response = await this.client.delete<FlowDeleteResponse>(
       `/api/v1/flows/${flowId}`,
       {
+        ...options,
         headers: {
+          ...options.headers,
           'Authorization': `Bearer ${config.supabaseToken}`
         }
       }
@@ -1211,4 +1751,194 @@ export class AISpine {
 
     return response.data;
   }
-}
\ No newline at end of file
+
+  /**
+   * Export a flow as a YAML or JSON flow file
+   * 
+   * The file holds the nodes, their config (system_prompt, timeout, max_turns,
+   * environment) and the flow metadata. Environment values are only inlined when
+   * the agent's environment schema marks them as non-sensitive; everything else
+   * is written as a `${NAME}` reference that importFlow resolves later.
+   * 
+   * @param flowId - The flow to export
+   * @param format - 'yaml' (default) or 'json'
+   * @param options - Request options
+   * @returns Promise resolving to the file contents
+   * 
+   * @example
+   * ```typescript
+   * const yaml = await spine.exportFlow('restaurant-booking');
+   * fs.writeFileSync('restaurant-booking.flow.yaml', yaml);
+   * ```
+   */
+  public async exportFlow(
+    flowId: string,
+    format: FlowFileFormat = 'yaml',
+    options: RequestOptions = {}
+  ): Promise<string> {
+    const flow = await this.getFlow(flowId, options);
+
+    const agentIds = new Set(flow.nodes
+      .filter(node => node.agent_id && node.config?.environment && Object.keys(node.config.environment).length > 0)
+      .map(node => node.agent_id!));
+    const schemas: Record<string, AgentEnvironmentSchema | undefined> = {};
+    for (const agentId of agentIds) {
+      // Without a schema every value of the agent is exported as a reference
+      schemas[agentId] = await this.getAgentEnvironmentSchema(agentId, options).catch(() => undefined);
+    }
+
+    return serializeFlowFile(toFlowFile(flow, schemas), format);
+  }
+
+  /**
+   * Create or update a flow from a YAML or JSON flow file (requires Supabase authentication)
+   * 
+   * `${NAME}` references in node environments are resolved from `env`. The flow
+   * is updated when a flow with the same flow_id exists and created otherwise.
+   * 
+   * @param source - File contents (YAML or JSON) or an already parsed flow file
+   * @param importOptions - Values for environment references
+   * @param options - Request options
+   * @returns Promise resolving to the created or updated flow
+   * 
+   * @example
+   * ```typescript
+   * const flow = await spine.importFlow(
+   *   fs.readFileSync('restaurant-booking.flow.yaml', 'utf8'),
+   *   { env: { OPENTABLE_API_KEY: process.env.OPENTABLE_API_KEY } }
+   * );
+   * ```
+   */
+  public async importFlow(
+    source: string | FlowFile,
+    importOptions: FlowImportOptions = {},
+    options: RequestOptions = {}
+  ): Promise<FlowDefinition> {
+    const env = importOptions.env || (typeof process !== 'undefined' ? process.env : {});
+    const flowData = resolveFlowFile(parseFlowFile(source), env);
+
+    try {
+      await this.getFlow(flowData.flow_id, options);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return this.createFlow(flowData, options);
+      }
+      throw error;
+    }
+
+    const { flow_id: flowId, ...updates } = flowData;
+    return this.updateFlow(flowId, updates, options);
+  }
+
+  /**
+   * Make your flows match a directory of flow files (requires Supabase authentication)
+   * 
+   * Reads every .yaml, .yml and .json file in `dir`, compares them with
+   * getMyFlows() and plans creates, updates (with per-field diffs) and, with
+   * `prune: true`, deletes.
+   * The plan is then applied through createFlow(), updateFlow() and deleteFlow().
+   * System flows and flows owned by other users are reported as 'protected' and
+   * never modified. Node.js only.
+   * 
+   * @param dir - Directory containing flow files (see exportFlow for the format)
+   * @param syncOptions - Dry run, pruning, reference values and plan logging
+   * @param options - Request options; an `idempotencyKey` is suffixed with the
+   *   action and flow id for each change
+   * @returns Promise resolving to the plan and the changes that were applied
+   * 
+   * @example
+   * ```typescript
+   * // Review the plan in CI, then apply it on merge
+   * await spine.syncFlows('./flows', { dryRun: true, prune: true, log: console.log });
+   * await spine.syncFlows('./flows', { prune: true, log: console.log });
+   * ```
+   */
+  public async syncFlows(
+    dir: string,
+    syncOptions: FlowSyncOptions = {},
+    options: RequestOptions = {}
+  ): Promise<FlowSyncResult> {
+    const env = syncOptions.env || (typeof process !== 'undefined' ? process.env : {});
+    const local = await loadFlowDirectory(dir, env);
+    const [mine, visible] = await Promise.all([this.getMyFlows(options), this.listFlows(options)]);
+
+    const plan = planFlowSync(local, { mine: mine.flows, visible, userId: mine.user_id }, syncOptions);
+    syncOptions.log?.(formatFlowSyncPlan(plan));
+
+    const applied: FlowSyncChange[] = [];
+    if (syncOptions.dryRun) {
+      return { dryRun: true, plan, applied };
+    }
+
+    for (const change of plan) {
+      throwIfAborted(options.signal);
+      const flowData = local.find(({ flow }) => flow.flow_id === change.flow_id)?.flow;
+      // One key per change, so the idempotency cache can't answer one change with another's result
+      const changeOptions: RequestOptions = typeof options.idempotencyKey === 'string'
+        ? { ...options, idempotencyKey: `${options.idempotencyKey}:${change.action}:${change.flow_id}` }
+        : options;
+
+      if (change.action === 'create') {
+        await this.createFlow(flowData!, changeOptions);
+      } else if (change.action === 'update') {
+        const { flow_id: flowId, ...updates } = flowData!;
+        await this.updateFlow(flowId, updates, changeOptions);
+      } else if (change.action === 'delete') {
+        await this.deleteFlow(change.flow_id, changeOptions);
+      } else {
+        continue;
+      }
+      applied.push(change);
+      syncOptions.log?.(`${change.action}d ${change.flow_id}`);
+    }
+
+    return { dryRun: false, plan, applied };
+  }
+
+  /**
+   * Generate a TypeScript declaration module for your flows and agents
+   * 
+   * Flows come from listFlows(), or from the flow files in `flowsDir` (their
+   * `${NAME}` references don't need values). Agents come from listAgents(); the
+   * environment schema of agents listed without one is fetched separately.
+   * See generateTypeDefinitions for what the module contains.
+   * 
+   * @param generateOptions - Flow directory and SDK import path
+   * @param options - Request options
+   * @returns Promise resolving to the `.d.ts` source
+   * 
+   * @example
+   * ```typescript
+   * fs.writeFileSync('src/ai-spine.generated.d.ts', await spine.generateTypes());
+   * 
+   * // Elsewhere
+   * import type { TypedAISpine, AgentEnvironments } from './ai-spine.generated';
+   * const typed = spine as TypedAISpine;
+   * await typed.executeFlow('customer-support', { message: 'Hi' }); // flow id is checked
+   * ```
+   */
+  public async generateTypes(
+    generateOptions: GenerateTypesOptions = {},
+    options: RequestOptions = {}
+  ): Promise<string> {
+    const [flows, agents] = await Promise.all([
+      generateOptions.flowsDir
+        ? readFlowDirectory(generateOptions.flowsDir, parseFlowFile).then(files => files.map(({ data }) => data))
+        : this.listFlows(options),
+      this.listAgents(options),
+    ]);
+
+    await Promise.all(agents.filter(agent => !agent.environment_schema).map(async agent => {
+      try {
+        agent.environment_schema = await this.getAgentEnvironmentSchema(agent.agent_id, options);
+      } catch (error) {
+        // Agents deleted since they were listed get an empty environment interface
+        if (!(error instanceof NotFoundError)) {
+          throw error;
+        }
+      }
+    }));
+
+    return generateTypeDefinitions({ flows, agents }, generateOptions);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * AI Spine SDK Server-Sent Events
+ *
+ * Minimal text/event-stream parser that works on any async iterable of chunks
+ */
+
+export interface SSEMessage {
+  /** Event name (defaults to 'message') */
+  event: string;
+  /** Event payload; multiple data lines are joined with '\n' */
+  data: string;
+  /** Last event ID, if the server sent one */
+  id?: string;
+  /** Reconnection time requested by the server, in milliseconds */
+  retry?: number;
+}
+
+/**
+ * Parses a text/event-stream body into messages
+ */
+export async function* parseSSE(chunks: AsyncIterable<Uint8Array | string>): AsyncGenerator<SSEMessage> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = '';
+  let data: string[] = [];
+  let id: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = (): SSEMessage | undefined => {
+    const message = data.length > 0
+      ? { event: event || 'message', data: data.join('\n'), id, retry }
+      : undefined;
+    event = '';
+    data = [];
+    retry = undefined;
+    return message;
+  };
+
+  const processLine = (line: string): SSEMessage | undefined => {
+    if (line === '') {
+      return dispatch();
+    }
+    if (line.startsWith(':')) {
+      return undefined; // comment / heartbeat
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        event = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+      case 'id':
+        id = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          retry = parseInt(value, 10);
+        }
+        break;
+    }
+    return undefined;
+  };
+
+  for await (const chunk of chunks) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let match: RegExpExecArray | null;
+    const lineBreak = /\r\n|\r|\n/g;
+    let consumed = 0;
+    while ((match = lineBreak.exec(buffer)) !== null) {
+      // A trailing '\r' may be the first half of '\r\n'; wait for more data
+      if (match[0] === '\r' && match.index === buffer.length - 1) {
+        break;
+      }
+      const message = processLine(buffer.slice(consumed, match.index));
+      consumed = match.index + match[0].length;
+      if (message) {
+        yield message;
+      }
+    }
+    buffer = buffer.slice(consumed);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) {
+    const message = processLine(buffer);
+    if (message) {
+      yield message;
+    }
+  }
+  const last = dispatch();
+  if (last) {
+    yield last;
+  }
+}
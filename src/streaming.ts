@@ -0,0 +1,281 @@
+/**
+ * AI Spine SDK Execution Streaming
+ *
+ * Follows an execution over Server-Sent Events, falling back to adaptive polling
+ * when the server or runtime does not support streaming.
+ *
+ * The stream endpoint (GET /api/v1/executions/:id/stream) sends:
+ * - `event: node` with a NodeExecutionResult whenever a node changes status
+ * - `event: execution` with an ExecutionContext snapshot
+ * - `event: done` once the execution has finished
+ */
+
+import { AISpineClient } from './client';
+import {
+  ExecutionContext,
+  ExecutionStreamEvent,
+  NodeExecutionResult,
+  RequestOptions,
+  StreamOptions,
+} from './types';
+import { AISpineError, AbortError, NetworkError } from './errors';
+import { parseSSE, SSEMessage } from './sse';
+import { isAsyncIterable } from './transport';
+import { delay, isExecutionComplete } from './utils';
+
+export interface ExecutionStreamSource {
+  getExecution(executionId: string, options: RequestOptions): Promise<ExecutionContext>;
+  openStream(executionId: string, options: RequestOptions): Promise<AsyncIterable<Uint8Array | string> | null>;
+}
+
+/**
+ * Opens the SSE stream for an execution
+ *
+ * @returns The event stream body, or null when streaming is unavailable
+ */
+export async function openExecutionStream(
+  client: AISpineClient,
+  executionId: string,
+  options: RequestOptions = {}
+): Promise<AsyncIterable<Uint8Array | string> | null> {
+  try {
+    const response = await client.stream(`/api/v1/executions/${executionId}/stream`, undefined, {
+      ...options,
+      retries: 0,
+      headers: { ...options.headers, 'Accept': 'text/event-stream' },
+    });
+
+    const contentType = Object.entries(response.headers || {})
+      .find(([name]) => name.toLowerCase() === 'content-type')?.[1] || '';
+    if (!isAsyncIterable<Uint8Array | string>(response.data) || !String(contentType).includes('text/event-stream')) {
+      return null;
+    }
+    return response.data;
+  } catch (error) {
+    if (
+      error instanceof NetworkError ||
+      (error instanceof AISpineError && [404, 405, 406, 501].includes(error.status as number))
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Tracks node and execution status to turn snapshots into transitions
+ */
+class ExecutionTracker {
+  private readonly nodeStatus: Map<string, NodeExecutionResult['status']> = new Map();
+  private status?: ExecutionContext['status'];
+  public execution?: ExecutionContext;
+
+  constructor(private readonly executionId: string) {}
+
+  get done(): boolean {
+    return !!this.status && isExecutionComplete(this.status);
+  }
+
+  applyMessage(message: SSEMessage): ExecutionStreamEvent[] {
+    let payload: any;
+    try {
+      payload = JSON.parse(message.data);
+    } catch {
+      return [];
+    }
+    if (!payload || typeof payload !== 'object') {
+      return [];
+    }
+
+    if (message.event === 'node' || (message.event === 'message' && payload.node_id)) {
+      return this.applyNode(payload as NodeExecutionResult);
+    }
+    if (message.event === 'execution' || (message.event === 'message' && payload.node_results)) {
+      return this.applySnapshot(payload as ExecutionContext);
+    }
+    return [];
+  }
+
+  applyNode(node: NodeExecutionResult): ExecutionStreamEvent[] {
+    const previous = this.nodeStatus.get(node.node_id);
+    if (previous === node.status) {
+      return [];
+    }
+
+    this.nodeStatus.set(node.node_id, node.status);
+    if (this.execution) {
+      this.execution = {
+        ...this.execution,
+        node_results: { ...this.execution.node_results, [node.node_id]: node },
+      };
+    }
+
+    return [{
+      type: 'node',
+      execution_id: this.executionId,
+      node,
+      previous_status: previous,
+    }];
+  }
+
+  applySnapshot(execution: ExecutionContext): ExecutionStreamEvent[] {
+    const events: ExecutionStreamEvent[] = [];
+    for (const node of Object.values(execution.node_results || {})) {
+      events.push(...this.applyNode(node));
+    }
+
+    this.execution = execution;
+    if (execution.status !== this.status) {
+      this.status = execution.status;
+      events.push({ type: 'execution', execution });
+    }
+    return events;
+  }
+}
+
+/**
+ * Yields node transitions and execution updates until the execution finishes
+ */
+export async function* streamExecutionEvents(
+  source: ExecutionStreamSource,
+  executionId: string,
+  options: StreamOptions = {}
+): AsyncGenerator<ExecutionStreamEvent> {
+  const mode = options.mode || 'auto';
+  const timeout = options.timeout || 300000; // 5 minutes default
+  const minInterval = options.pollInterval || 500;
+  const maxInterval = Math.max(options.maxPollInterval || 5000, minInterval);
+
+  if (options.signal?.aborted) {
+    throw new AbortError();
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+
+  const tracker = new ExecutionTracker(executionId);
+  const requestOptions: RequestOptions = { signal: controller.signal };
+
+  try {
+    if (mode !== 'polling') {
+      const body = await source.openStream(executionId, requestOptions);
+      if (!body && mode === 'sse') {
+        throw new AISpineError(
+          'Execution streaming is not supported by the server or runtime',
+          'STREAMING_NOT_SUPPORTED',
+          undefined,
+          { executionId }
+        );
+      }
+
+      if (body) {
+        try {
+          for await (const message of parseSSE(body)) {
+            if (message.event === 'done') {
+              break;
+            }
+            yield* tracker.applyMessage(message);
+            if (tracker.done) {
+              return;
+            }
+          }
+        } catch (error) {
+          // A dropped connection continues with polling in 'auto' mode
+          if (controller.signal.aborted || mode === 'sse') {
+            throw error;
+          }
+        }
+      }
+    }
+
+    // Adaptive polling: poll quickly while nodes are changing, back off while idle
+    let interval = minInterval;
+    while (!tracker.done) {
+      const events = tracker.applySnapshot(await source.getExecution(executionId, requestOptions));
+      yield* events;
+      if (tracker.done) {
+        return;
+      }
+
+      interval = events.length > 0 ? minInterval : Math.min(Math.round(interval * 1.5), maxInterval);
+      await delay(interval, controller.signal);
+    }
+  } catch (error) {
+    if (timedOut) {
+      throw new AISpineError(
+        `Execution ${executionId} did not complete within ${timeout}ms`,
+        'EXECUTION_TIMEOUT',
+        408,
+        { executionId, timeout }
+      );
+    }
+    if (options.signal?.aborted) {
+      throw error instanceof AbortError ? error : new AbortError();
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+    // Closes the event stream if the consumer stopped early
+    controller.abort();
+  }
+}
+
+/**
+ * Drives an execution event stream through StreamOptions callbacks
+ *
+ * @returns The finished execution
+ */
+export async function consumeExecutionStream(
+  events: AsyncIterable<ExecutionStreamEvent>,
+  options: StreamOptions = {}
+): Promise<ExecutionContext> {
+  const nodeStatus: Map<string, NodeExecutionResult['status']> = new Map();
+  let execution: ExecutionContext | undefined;
+
+  const percentage = () => {
+    if (execution && isExecutionComplete(execution.status)) {
+      return 100;
+    }
+    const total = Math.max(nodeStatus.size, Object.keys(execution?.node_results || {}).length);
+    const finished = Array.from(nodeStatus.values()).filter(isExecutionComplete).length;
+    return total > 0 ? Math.round((finished / total) * 100) : 0;
+  };
+
+  try {
+    for await (const event of events) {
+      if (event.type === 'node') {
+        nodeStatus.set(event.node.node_id, event.node.status);
+      } else {
+        execution = event.execution;
+      }
+
+      options.onData?.(event);
+      options.onProgress?.({
+        percentage: percentage(),
+        message: event.type === 'node'
+          ? `Node ${event.node.node_id} ${event.node.status}`
+          : `Execution ${event.execution.status}`,
+        data: event.type === 'node' ? event.node : event.execution,
+      });
+    }
+  } catch (error) {
+    options.onError?.(error instanceof Error ? error : new Error(String(error)));
+    throw error;
+  }
+
+  if (!execution) {
+    const error = new AISpineError('Execution stream ended without a result', 'STREAM_ERROR');
+    options.onError?.(error);
+    throw error;
+  }
+
+  options.onComplete?.(execution);
+  return execution;
+}
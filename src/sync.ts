@@ -0,0 +1,214 @@
+/**
+ * AI Spine SDK Flow Sync
+ *
+ * Plans and applies the changes that make your flows match a directory of flow
+ * files (see flowFile.ts for the file format)
+ */
+
+import {
+  Flow,
+  FlowCreateRequest,
+  FlowDefinition,
+  FlowFieldChange,
+  FlowSyncChange,
+  FlowSyncOptions,
+} from './types';
+import { ValidationError } from './errors';
+import { parseFlowFile, resolveFlowFile } from './flowFile';
+import { diffValues } from './diff';
+
+export interface LocalFlow {
+  /** Path of the file the flow was read from */
+  file: string;
+  flow: FlowCreateRequest;
+}
+
+export interface RemoteFlows {
+  /** Flows returned by getMyFlows() */
+  mine: FlowDefinition[];
+  /** Flows returned by listFlows(), including system flows and flows of other users */
+  visible: Flow[];
+  /** Current user, from getMyFlows() */
+  userId: string;
+}
+
+const FLOW_FILE_EXTENSIONS = /\.(ya?ml|json)$/i;
+
+/**
+ * Reads every .yaml, .yml and .json flow file in a directory (not recursive)
+ *
+ * @throws ValidationError naming the file when one can't be parsed or two files share a flow_id
+ */
+export async function loadFlowDirectory(dir: string, env: Record<string, string | undefined>): Promise<LocalFlow[]> {
+  const files = await readFlowDirectory(dir, text => resolveFlowFile(parseFlowFile(text), env));
+  return files.map(({ file, data }) => ({ file, flow: data }));
+}
+
+/**
+ * Reads the flow files in a directory with a custom loader, e.g. parseFlowFile
+ * when `${NAME}` references should stay unresolved
+ *
+ * @throws ValidationError naming the file when one can't be loaded or two files share a flow_id
+ */
+export async function readFlowDirectory<T extends { flow_id: string }>(
+  dir: string,
+  load: (text: string) => T
+): Promise<Array<{ file: string; data: T }>> {
+  // Loaded lazily so browser bundles don't need the Node.js modules
+  const [{ promises: fs }, path] = await Promise.all([import('fs'), import('path')]);
+
+  const names = (await fs.readdir(dir)).filter(name => FLOW_FILE_EXTENSIONS.test(name)).sort();
+  const files: Array<{ file: string; data: T }> = [];
+  for (const name of names) {
+    const file = path.join(dir, name);
+    let data: T;
+    try {
+      data = load(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw new ValidationError(`${file}: ${error.message}`, error.validationErrors, { ...error.details, file });
+      }
+      throw error;
+    }
+
+    const duplicate = files.find(existing => existing.data.flow_id === data.flow_id);
+    if (duplicate) {
+      throw new ValidationError(`${file}: flow "${data.flow_id}" is already defined in ${duplicate.file}`, [], { file });
+    }
+    files.push({ file, data });
+  }
+  return files;
+}
+
+/**
+ * Lists the field-level differences between a remote flow and its local definition
+ *
+ * Nodes are matched by id, so reordering nodes is not a change. Missing fields,
+ * null, empty lists and empty objects are treated as equal.
+ */
+export function diffFlowFields(remote: Flow, local: FlowCreateRequest): FlowFieldChange[] {
+  const changes: FlowFieldChange[] = [];
+  for (const field of ['name', 'description', 'entry_point', 'exit_points', 'metadata'] as const) {
+    diffValues(field, remote[field], local[field], changes);
+  }
+
+  const remoteNodes = Object.fromEntries(remote.nodes.map(node => [node.id, node]));
+  const localNodes = Object.fromEntries(local.nodes.map(node => [node.id, node]));
+  const ids = Array.from(new Set([...Object.keys(remoteNodes), ...Object.keys(localNodes)]));
+  for (const id of ids) {
+    if (!remoteNodes[id] || !localNodes[id]) {
+      // Whole node added or removed
+      changes.push({
+        path: `nodes.${id}`,
+        ...(remoteNodes[id] ? { before: remoteNodes[id].type } : {}),
+        ...(localNodes[id] ? { after: localNodes[id].type } : {}),
+      });
+      continue;
+    }
+    diffValues(`nodes.${id}`, remoteNodes[id], localNodes[id], changes);
+  }
+  return changes;
+}
+
+function protectionReason(flow: Flow, userId: string, listedAsMine: boolean): string | undefined {
+  if (flow.created_by === 'system' || (!flow.created_by && !listedAsMine)) {
+    return 'system flow';
+  }
+  if (flow.created_by && flow.created_by !== userId) {
+    return `owned by ${flow.created_by}`;
+  }
+  return undefined;
+}
+
+/**
+ * Compares local flow definitions with the remote flows
+ *
+ * Flows that exist remotely but aren't yours (system flows, flows of other
+ * users) are marked 'protected' and never changed or deleted. Your flows
+ * without a local file are only deleted with `prune: true`.
+ */
+export function planFlowSync(local: LocalFlow[], remote: RemoteFlows, options: Pick<FlowSyncOptions, 'prune'> = {}): FlowSyncChange[] {
+  const prune = options.prune === true;
+  const mine = new Map(remote.mine.map(flow => [flow.flow_id, flow]));
+  const visible = new Map(remote.visible.map(flow => [flow.flow_id, flow]));
+  const plan: FlowSyncChange[] = [];
+
+  for (const { file, flow } of local) {
+    const existing = mine.get(flow.flow_id) || visible.get(flow.flow_id);
+    if (!existing) {
+      plan.push({ action: 'create', flow_id: flow.flow_id, file, changes: [] });
+      continue;
+    }
+
+    const reason = protectionReason(existing, remote.userId, mine.has(flow.flow_id));
+    if (reason) {
+      plan.push({ action: 'protected', flow_id: flow.flow_id, file, changes: [], reason });
+      continue;
+    }
+
+    const changes = diffFlowFields(existing, flow);
+    plan.push({ action: changes.length > 0 ? 'update' : 'unchanged', flow_id: flow.flow_id, file, changes });
+  }
+
+  if (prune) {
+    const localIds = new Set(local.map(({ flow }) => flow.flow_id));
+    for (const flow of remote.mine) {
+      if (localIds.has(flow.flow_id)) {
+        continue;
+      }
+      const reason = protectionReason(flow, remote.userId, true);
+      plan.push(reason
+        ? { action: 'protected', flow_id: flow.flow_id, changes: [], reason }
+        : { action: 'delete', flow_id: flow.flow_id, changes: [] });
+    }
+  }
+
+  return plan;
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Renders a sync plan as text, one line per flow and per changed field
+ *
+ * @example
+ * ```text
+ * Plan: 1 to create, 1 to update, 0 to delete, 2 unchanged, 1 protected
+ * + create    support-bot (flows/support-bot.yaml)
+ * ~ update    booking (flows/booking.yaml)
+ *     nodes.book.config.timeout: 30000 -> 60000
+ * ! protected credit_analysis (flows/credit.yaml): system flow
+ * ```
+ */
+export function formatFlowSyncPlan(plan: FlowSyncChange[]): string {
+  const count = (action: FlowSyncChange['action']) => plan.filter(change => change.action === action).length;
+  const lines = [
+    `Plan: ${count('create')} to create, ${count('update')} to update, ${count('delete')} to delete, `
+      + `${count('unchanged')} unchanged, ${count('protected')} protected`,
+  ];
+  const symbols: Record<FlowSyncChange['action'], string> = {
+    create: '+',
+    update: '~',
+    delete: '-',
+    unchanged: '=',
+    protected: '!',
+  };
+
+  for (const change of plan) {
+    if (change.action === 'unchanged') {
+      continue;
+    }
+    const file = change.file ? ` (${change.file})` : '';
+    const reason = change.reason ? `: ${change.reason}` : '';
+    lines.push(`${symbols[change.action]} ${change.action.padEnd(9)} ${change.flow_id}${file}${reason}`);
+    for (const field of change.changes) {
+      const before = 'before' in field ? formatValue(field.before) : '(none)';
+      const after = 'after' in field ? formatValue(field.after) : '(removed)';
+      lines.push(`    ${field.path}: ${before} -> ${after}`);
+    }
+  }
+  return lines.join('\n');
+}
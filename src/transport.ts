@@ -0,0 +1,279 @@
+/**
+ * AI Spine HTTP Transports
+ *
+ * Pluggable transports used by AISpineClient to perform HTTP requests
+ */
+
+import type { AxiosInstance, AxiosError } from 'axios';
+import { Transport, TransportRequest, TransportResponse } from './types';
+
+/**
+ * Error raised by transports for network failures, timeouts and non-2xx responses.
+ * AISpineClient maps it to the matching AISpineError subclass.
+ */
+export class TransportError extends Error {
+  public readonly code?: string;
+  public readonly response?: TransportResponse;
+
+  constructor(message: string, code?: string, response?: TransportResponse) {
+    super(message);
+    this.name = 'TransportError';
+    this.code = code;
+    this.response = response;
+  }
+}
+
+/**
+ * Transport backed by axios (default)
+ *
+ * axios is loaded on the first request, so bundles for runtimes that use
+ * another transport don't pull it in.
+ */
+export class AxiosTransport implements Transport {
+  private http?: Promise<AxiosInstance>;
+
+  constructor(instance?: AxiosInstance) {
+    this.http = instance ? Promise.resolve(instance) : undefined;
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const http = await this.instance();
+
+    try {
+      const response = await http.request<T>({
+        method: request.method,
+        baseURL: request.baseURL,
+        url: request.url,
+        params: request.params,
+        data: request.data,
+        headers: request.headers,
+        timeout: request.timeout,
+        signal: request.signal,
+        responseType: request.responseType === 'stream' ? 'stream' : undefined,
+      });
+
+      if (request.responseType === 'stream' && !isAsyncIterable(response.data)) {
+        throw new TransportError('Streaming responses are not supported by axios in this runtime', 'ERR_NOT_SUPPORT');
+      }
+
+      return {
+        data: response.data,
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers as Record<string, string>,
+      };
+    } catch (error) {
+      if (error instanceof TransportError) {
+        throw error;
+      }
+
+      const axiosError = error as AxiosError;
+      const response = axiosError.response
+        ? {
+            data: axiosError.response.data,
+            status: axiosError.response.status,
+            statusText: axiosError.response.statusText,
+            headers: axiosError.response.headers as Record<string, string>,
+          }
+        : undefined;
+
+      throw new TransportError(axiosError.message, axiosError.code, response);
+    }
+  }
+
+  private instance(): Promise<AxiosInstance> {
+    if (!this.http) {
+      this.http = import('axios').then(
+        module => module.default.create(),
+        error => {
+          this.http = undefined;
+          throw new TransportError(
+            `axios could not be loaded (${error instanceof Error ? error.message : String(error)}); use transport: 'fetch' instead`,
+            'ERR_NOT_SUPPORT'
+          );
+        }
+      );
+    }
+    return this.http;
+  }
+}
+
+export interface FetchTransportOptions {
+  /** fetch implementation to use (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Transport backed by the Fetch API, for edge runtimes, Deno and browsers
+ */
+export class FetchTransport implements Transport {
+  private readonly fetchFn?: typeof fetch;
+
+  constructor(options: FetchTransportOptions = {}) {
+    this.fetchFn = options.fetch;
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const fetchFn = this.fetchFn || (typeof fetch !== 'undefined' ? fetch : undefined);
+    if (!fetchFn) {
+      throw new TransportError('fetch is not available in this runtime', 'ERR_NOT_SUPPORT');
+    }
+
+    if (request.signal?.aborted) {
+      throw new TransportError('canceled', 'ERR_CANCELED');
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = request.timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, request.timeout)
+      : undefined;
+    const onAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let response: TransportResponse<T>;
+    let streaming = false;
+    try {
+      const res = await fetchFn(buildUrl(request), {
+        method: request.method,
+        headers: request.headers,
+        body: request.data !== undefined ? JSON.stringify(request.data) : undefined,
+        signal: controller.signal,
+      });
+
+      const headers: Record<string, string> = {};
+      res.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      const body = request.responseType === 'stream' && res.ok ? res.body : null;
+      streaming = body !== null;
+      response = {
+        data: body
+          ? iterateBody(body, () => request.signal?.removeEventListener('abort', onAbort)) as AsyncIterable<Uint8Array> as T
+          : parseBody(await res.text()),
+        status: res.status,
+        statusText: res.statusText,
+        headers,
+      };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new TransportError('canceled', 'ERR_CANCELED');
+      }
+      if (timedOut) {
+        throw new TransportError(`timeout of ${request.timeout}ms exceeded`, 'ECONNABORTED');
+      }
+      throw new TransportError(
+        error instanceof Error ? error.message : 'Network Error',
+        'ERR_NETWORK'
+      );
+    } finally {
+      // The timeout covers the response headers only for streams
+      if (timer) {
+        clearTimeout(timer);
+      }
+      // Streams keep listening for aborts until the body is consumed
+      if (!streaming) {
+        request.signal?.removeEventListener('abort', onAbort);
+      }
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new TransportError(
+        `Request failed with status code ${response.status}`,
+        'ERR_BAD_RESPONSE',
+        response
+      );
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Resolves the `transport` config option to a Transport instance
+ */
+export function createTransport(option: 'axios' | 'fetch' | Transport = 'axios'): Transport {
+  if (option === 'fetch') {
+    return new FetchTransport();
+  }
+  if (option === 'axios') {
+    return new AxiosTransport();
+  }
+  return option;
+}
+
+/**
+ * Builds the absolute request URL including query parameters
+ */
+export function buildUrl(request: Pick<TransportRequest, 'baseURL' | 'url' | 'params'>): string {
+  const url = /^https?:\/\//i.test(request.url)
+    ? request.url
+    : `${request.baseURL.replace(/\/+$/, '')}/${request.url.replace(/^\/+/, '')}`;
+
+  if (!request.params) {
+    return url;
+  }
+
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(request.params)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      if (item instanceof Date) {
+        query.append(key, item.toISOString());
+      } else if (typeof item === 'object') {
+        query.append(key, JSON.stringify(item));
+      } else {
+        query.append(key, String(item));
+      }
+    }
+  }
+
+  const queryString = query.toString();
+  if (!queryString) {
+    return url;
+  }
+  return `${url}${url.includes('?') ? '&' : '?'}${queryString}`;
+}
+
+/**
+ * Checks whether a value can be consumed with `for await`
+ */
+export function isAsyncIterable<T = unknown>(value: any): value is AsyncIterable<T> {
+  return value != null && typeof value[Symbol.asyncIterator] === 'function';
+}
+
+async function* iterateBody(body: ReadableStream<Uint8Array>, onDone: () => void): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      if (value) {
+        yield value;
+      }
+    }
+  } finally {
+    onDone();
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+function parseBody(text: string): any {
+  if (!text) {
+    return text;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
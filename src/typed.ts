@@ -0,0 +1,74 @@
+/**
+ * AI Spine SDK Typed Flows
+ *
+ * Flow handles with typed input and output, optionally checked at runtime
+ */
+
+import type { AISpine } from './spine';
+import { ExecutionContext, RequestOptions, TypedFlowOptions } from './types';
+import { ExecutionHandle } from './execution';
+import { ValidationError } from './errors';
+import { checkFlowData, validateExecutionId } from './utils';
+
+type WaitOptions = Parameters<AISpine['waitForExecution']>[1];
+
+/**
+ * A flow whose input and output types are fixed, created with spine.defineFlow()
+ *
+ * The input validator runs before an execution is started; the output validator
+ * runs when the output of a completed execution is read through a handle from
+ * this flow. Both reject with a ValidationError.
+ */
+export class TypedFlow<TIn extends Record<string, any> = Record<string, any>, TOut = Record<string, any>> {
+  constructor(
+    private readonly spine: AISpine,
+    public readonly flowId: string,
+    private readonly validators: TypedFlowOptions<TIn, TOut> = {}
+  ) {}
+
+  /**
+   * Start an execution
+   *
+   * @throws ValidationError if the input fails the input validator
+   */
+  async execute(input: TIn, options: RequestOptions = {}): Promise<ExecutionHandle<TIn, TOut>> {
+    const checked = this.validators.input
+      ? checkFlowData(this.validators.input, input, 'input', `Input for flow ${this.flowId} failed validation`)
+      : input;
+
+    const response = await this.spine.executeFlow<TIn, TOut>(this.flowId, checked, options);
+    return new ExecutionHandle<TIn, TOut>(this.spine, response, this.flowId, this.validators.output);
+  }
+
+  /**
+   * Start an execution and wait for its output
+   *
+   * @throws ExecutionError if the execution failed or was cancelled
+   */
+  async run(input: TIn, waitOptions: WaitOptions = {}, options: RequestOptions = {}): Promise<TOut> {
+    const handle = await this.execute(input, options);
+    return handle.output(waitOptions);
+  }
+
+  /**
+   * Typed handle for an existing execution of this flow
+   */
+  attach(executionId: string): ExecutionHandle<TIn, TOut> {
+    if (!validateExecutionId(executionId)) {
+      throw new ValidationError('Invalid execution ID format');
+    }
+    return new ExecutionHandle<TIn, TOut>(
+      this.spine,
+      { execution_id: executionId, status: 'pending' },
+      this.flowId,
+      this.validators.output
+    );
+  }
+
+  /**
+   * Wait for an existing execution of this flow to finish
+   */
+  async wait(executionId: string, options: WaitOptions = {}): Promise<ExecutionContext<TIn, TOut>> {
+    return this.attach(executionId).wait(options);
+  }
+}
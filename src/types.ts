@@ -4,6 +4,9 @@
  * Type definitions for the AI Spine JavaScript SDK
  */
 
+import type { AISpineError } from './errors';
+import type { BUILT_IN_AGENT_CAPABILITIES } from './capabilities';
+
 // Configuration Types
 export interface AISpineConfig {
   /** API key for authentication (optional for user management endpoints) */
@@ -20,8 +23,165 @@ export interface AISpineConfig {
   debug?: boolean;
   /** Callback when credits are low */
   onCreditsLow?: (credits: number) => void;
+  /**
+   * HTTP transport used for API requests: 'axios' (default), 'fetch',
+   * or a custom Transport implementation
+   */
+  transport?: 'axios' | 'fetch' | Transport;
+  /** Default retry policy for all requests */
+  retryPolicy?: RetryPolicy;
+  /** In-process cache for idempotency keys, or false to disable it */
+  idempotencyCache?: IdempotencyCacheOptions | false;
+  /** Default polling strategy for waitForExecution */
+  polling?: PollingOptions;
+  /** Agent capabilities accepted on top of the built-in ones */
+  capabilities?: CapabilityRegistryOptions;
+}
+
+export interface IdempotencyCacheOptions {
+  /** How long a result is reused for the same key, in milliseconds (default: 24 hours) */
+  ttl?: number;
+  /** Maximum number of cached keys (default: 1000) */
+  maxEntries?: number;
+}
+
+// Retry Types
+export type RetryJitter = 'none' | 'full' | 'decorrelated';
+
+export interface RetryContext {
+  /** Zero-based index of the attempt that just failed */
+  attempt: number;
+  method: HttpMethod;
+  url: string;
+  /** Milliseconds since the first attempt started */
+  elapsed: number;
+  /** Whether the request may be repeated safely (method rule or idempotency key) */
+  idempotent: boolean;
+}
+
+export interface RetryPolicy {
+  /** Maximum number of retries (defaults to `retries`) */
+  maxRetries?: number;
+  /** Decides whether an error is retryable (defaults to network, timeout, 408, 429 and 5xx errors) */
+  retryOn?: (error: AISpineError, context: RetryContext) => boolean;
+  /** HTTP methods retried without an Idempotency-Key header (default: GET, PUT, DELETE) */
+  retryMethods?: HttpMethod[];
+  /** Base backoff delay in milliseconds (default: 1000) */
+  baseDelay?: number;
+  /** Maximum backoff delay in milliseconds (default: 10000) */
+  maxDelay?: number;
+  /** Jitter strategy applied to the backoff delay (default: 'full') */
+  jitter?: RetryJitter;
+  /** Stop retrying once this many milliseconds have elapsed in total */
+  maxElapsedTime?: number;
+  /** Wait for RateLimitError.retryAfter instead of the backoff delay (default: true) */
+  respectRetryAfter?: boolean;
+}
+
+// Polling Types
+export interface PollingContext {
+  /** Number of status checks made so far */
+  polls: number;
+  /** Milliseconds since polling started */
+  elapsed: number;
+  /** Execution returned by the latest status check */
+  execution: ExecutionContext;
+  /** Whether the execution or any node changed status since the previous check */
+  changed: boolean;
+  /** Flow definition, loaded when the strategy sets `needsFlow` */
+  flow?: Flow;
+}
+
+export interface PollingStrategy {
+  /** Milliseconds to wait before the next status check */
+  nextDelay(context: PollingContext): number;
+  /** Load the flow definition so nextDelay can use FlowNode hints */
+  needsFlow?: boolean;
+  /** Longest delay nextDelay returns; also caps the backoff of rate limited status checks */
+  maxInterval?: number;
+}
+
+export interface PollingOptions {
+  /** 'fixed' (default), 'exponential', 'node-aware' or a custom strategy */
+  strategy?: 'fixed' | 'exponential' | 'node-aware' | PollingStrategy;
+  /** Fixed interval, or the first delay of the adaptive strategies, in milliseconds */
+  interval?: number;
+  /** Longest delay of the adaptive strategies in milliseconds (default: 10000) */
+  maxInterval?: number;
+  /** Growth factor of the exponential strategy (default: 2) */
+  factor?: number;
+}
+
+// Multi-execution Wait Types
+export type WaitMode = 'all' | 'any' | 'allSettled';
+
+export interface WaitForExecutionsOptions extends RequestOptions {
+  /** 'all' (default) resolves when every execution finished, 'any' with the first one, 'allSettled' never rejects per id */
+  mode?: WaitMode;
+  /** Maximum wait time in milliseconds (default: 5 minutes) */
+  timeout?: number;
+  /** Fixed poll interval in milliseconds */
+  interval?: number;
+  /** Polling strategy (defaults to the `polling` option of AISpineConfig) */
+  polling?: PollingOptions;
+  /** Called with every execution status that is fetched */
+  onProgress?: (execution: ExecutionContext) => void;
+}
+
+export type ExecutionSettledResult =
+  | { execution_id: string; status: 'fulfilled'; value: ExecutionContext }
+  | { execution_id: string; status: 'rejected'; reason: AISpineError };
+
+// Transport Types
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface TransportRequest {
+  method: HttpMethod;
+  /** Base URL the path is resolved against */
+  baseURL: string;
+  /** Request path, e.g. '/api/v1/flows' */
+  url: string;
+  /** Query string parameters */
+  params?: Record<string, any>;
+  /** Request body (serialized as JSON) */
+  data?: any;
+  headers: Record<string, string>;
+  /** Request timeout in milliseconds */
+  timeout: number;
+  /** Signal that cancels the request */
+  signal?: AbortSignal;
+  /**
+   * 'json' (default) parses the body; 'stream' resolves `data` with an
+   * AsyncIterable of body chunks for successful responses
+   */
+  responseType?: 'json' | 'stream';
+}
+
+export interface TransportResponse<T = any> {
+  data: T;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * A transport performs a single HTTP request. It resolves with the response
+ * for 2xx statuses and rejects with a TransportError otherwise.
+ */
+export interface Transport {
+  request<T = any>(request: TransportRequest): Promise<TransportResponse<T>>;
 }
 
+// Middleware Types
+export type MiddlewareNext = (request: TransportRequest) => Promise<TransportResponse>;
+
+/**
+ * Request/response middleware. Call `next(request)` to continue the pipeline
+ * (optionally with a rewritten request), or resolve without calling it to
+ * short-circuit with a synthetic response. `next` rejects with an AISpineError.
+ */
+export type Middleware = (request: TransportRequest, next: MiddlewareNext) => Promise<TransportResponse>;
+
 // User Account Types
 export interface UserInfo {
   id: string;
@@ -108,13 +268,24 @@ export interface AgentEnvironmentSchema {
 }
 
 // Agent Capability Types
-export type AgentCapability = 
-  | 'conversation'           // Para agentes conversacionales
-  | 'information_gathering'   // Para recolectar información
-  | 'credit_analysis'        // Para análisis crediticio
-  | 'risk_assessment'        // Para evaluación de riesgos
-  | 'document_processing'    // Para procesar documentos
-  | 'decision_making';       // Para toma de decisiones
+/** Capabilities every server supports, from BUILT_IN_AGENT_CAPABILITIES */
+export type BuiltInAgentCapability = typeof BUILT_IN_AGENT_CAPABILITIES[number];
+
+/**
+ * A built-in capability, or one added through the `capabilities` config,
+ * registerCapability() or refreshCapabilities()
+ */
+export type AgentCapability = BuiltInAgentCapability | (string & {});
+
+export interface CapabilityRegistryOptions {
+  /** Capabilities to accept besides the built-in ones */
+  custom?: string[];
+  /**
+   * Fetch the server's capabilities once before rejecting an unknown one in
+   * registerAgent (default: false)
+   */
+  refresh?: boolean;
+}
 
 // Core Entity Types
 export interface Agent {
@@ -220,16 +391,145 @@ export interface FlowDeleteResponse {
   status: 'deleted';
 }
 
+// Flow File Types
+export type FlowFileFormat = 'yaml' | 'json';
+
+/**
+ * Portable flow definition written by exportFlow and read by importFlow
+ *
+ * Environment values in node config may be `${NAME}` references that are
+ * resolved when the file is imported. Secrets are always exported as references.
+ */
+export interface FlowFile {
+  /** File format identifier, currently 'ai-spine-flow/v1' */
+  format: string;
+  flow_id: string;
+  name: string;
+  description: string;
+  entry_point?: string;
+  exit_points?: string[];
+  nodes: FlowNode[];
+  metadata?: Record<string, any>;
+}
+
+export interface FlowImportOptions {
+  /** Values for `${NAME}` references (default: process.env where available) */
+  env?: Record<string, string | undefined>;
+}
+
+// Flow Sync Types
+export type FlowSyncAction = 'create' | 'update' | 'delete' | 'unchanged' | 'protected';
+
+export interface FlowFieldChange {
+  /** Changed field, e.g. 'description' or 'nodes.book.config.timeout' */
+  path: string;
+  /** Remote value (undefined when the field is added); environment values are masked */
+  before?: any;
+  /** Local value (undefined when the field is removed); environment values are masked */
+  after?: any;
+}
+
+// Flow Diff Types
+export interface FlowEdge {
+  /** Node that must finish first */
+  from: string;
+  /** Node that depends on it */
+  to: string;
+}
+
+export interface TextDiffLine {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+export interface FlowNodeDiff {
+  id: string;
+  /** Changed type, agent_id and config fields (paths relative to the node) */
+  changes: FlowFieldChange[];
+  /** Line diff of config.system_prompt when it changed */
+  systemPrompt?: TextDiffLine[];
+}
+
+export interface FlowDiff {
+  from: { flow_id: string; version?: number };
+  to: { flow_id: string; version?: number };
+  /** Whether the flows differ at all */
+  changed: boolean;
+  /** Changed name, description and metadata fields */
+  fields: FlowFieldChange[];
+  /** Nodes only in the new flow, with environment values masked */
+  nodesAdded: FlowNode[];
+  /** Nodes only in the old flow, with environment values masked */
+  nodesRemoved: FlowNode[];
+  nodesModified: FlowNodeDiff[];
+  edgesAdded: FlowEdge[];
+  edgesRemoved: FlowEdge[];
+  entryPoint?: { before?: string; after?: string };
+  exitPointsAdded: string[];
+  exitPointsRemoved: string[];
+}
+
+// Flow Rendering Types
+export type FlowDiagramFormat = 'mermaid' | 'dot';
+
+export interface RenderFlowOptions {
+  /** Diagram language (default: 'mermaid') */
+  format?: FlowDiagramFormat;
+  /** Layout direction (default: 'TB', top to bottom) */
+  direction?: 'TB' | 'LR';
+  /** Colors nodes by their node_results status and shows durations */
+  execution?: ExecutionContext;
+}
+
+export interface FlowSyncChange {
+  action: FlowSyncAction;
+  flow_id: string;
+  /** Flow file the local definition was read from */
+  file?: string;
+  /** Field-level differences for updates */
+  changes: FlowFieldChange[];
+  /** Why a protected flow is left alone */
+  reason?: string;
+}
+
+export interface FlowSyncOptions extends FlowImportOptions {
+  /** Only compute the plan (default: false) */
+  dryRun?: boolean;
+  /** Delete your flows that have no file in the directory (default: false) */
+  prune?: boolean;
+  /** Receives the formatted plan and a line per applied change */
+  log?: (message: string) => void;
+}
+
+export interface FlowSyncResult {
+  dryRun: boolean;
+  /** Every flow considered, in plan order */
+  plan: FlowSyncChange[];
+  /** Changes sent to the API (empty for dry runs) */
+  applied: FlowSyncChange[];
+}
+
 export interface FlowExecutionRequest {
   flow_id: string;
   input_data: Record<string, any>;
+  /** Completed node results to reuse instead of running those nodes again */
+  node_results?: Record<string, NodeExecutionResult>;
   metadata?: Record<string, any>;
 }
 
+export interface ExecutionRerunOptions {
+  /** Node to restart from; it and every node downstream of it run again */
+  fromNode?: string;
+  /** Values merged over the original input_data */
+  inputOverrides?: Record<string, any>;
+}
+
+export type ExecutionStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
 export interface NodeExecutionResult {
   node_id: string;
   execution_id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: ExecutionStatus;
   input_data: Record<string, any>;
   output_data?: Record<string, any>;
   error_message?: string;
@@ -238,12 +538,12 @@ export interface NodeExecutionResult {
   duration?: number;
 }
 
-export interface ExecutionContext {
+export interface ExecutionContext<TIn = Record<string, any>, TOut = Record<string, any>> {
   execution_id: string;
   flow_id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
-  input_data: Record<string, any>;
-  output_data?: Record<string, any>;
+  status: ExecutionStatus;
+  input_data: TIn;
+  output_data?: TOut;
   node_results: Record<string, NodeExecutionResult>;
   error_message?: string;
   started_at: string;
@@ -252,9 +552,28 @@ export interface ExecutionContext {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Runtime check for flow input or output data
+ *
+ * Either a predicate (returning false rejects the value; throwing also rejects
+ * it with the thrown message) or a schema object with a `parse` method, such as
+ * a zod schema, whose return value replaces the checked value.
+ */
+export type FlowDataValidator<T> =
+  | ((value: unknown) => value is T)
+  | ((value: unknown) => boolean | void)
+  | { parse(value: unknown): T };
+
+export interface TypedFlowOptions<TIn, TOut> {
+  /** Checked before the execution is started */
+  input?: FlowDataValidator<TIn>;
+  /** Checked when a completed execution's output is read */
+  output?: FlowDataValidator<TOut>;
+}
+
 export interface ExecutionResponse {
   execution_id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: ExecutionStatus;
   message?: string;
 }
 
@@ -277,6 +596,72 @@ export interface Metrics {
   last_execution?: string;
 }
 
+// Code Generation Types
+export interface TypeGenerationSource {
+  flows: Array<Pick<Flow, 'flow_id' | 'name' | 'description' | 'nodes'>>;
+  agents: Array<Pick<Agent, 'agent_id' | 'name' | 'environment_schema'>>;
+}
+
+export interface TypeGenerationOptions {
+  /** Module the generated file imports SDK types from (default: 'ai-spine-sdk') */
+  importPath?: string;
+}
+
+export interface GenerateTypesOptions extends TypeGenerationOptions {
+  /** Read flows from this directory of flow files instead of listFlows() */
+  flowsDir?: string;
+}
+
+// Flow Lint Types
+export type FlowLintRuleId =
+  | 'processor-system-prompt'
+  | 'timeout-budget'
+  | 'conversation-max-turns'
+  | 'no-hardcoded-secrets'
+  | 'unused-agent'
+  | 'duplicate-prompt';
+
+export type FlowLintSeverity = 'error' | 'warning';
+
+/** A severity, 'off', or a severity with rule options */
+export type FlowLintRuleSetting =
+  | FlowLintSeverity
+  | 'off'
+  | [FlowLintSeverity | 'off', Record<string, any>];
+
+export type FlowLintRules = Partial<Record<FlowLintRuleId, FlowLintRuleSetting>>;
+
+export interface FlowLintOptions {
+  /** Apply autofixes and return the fixed flow as `output` */
+  fix?: boolean;
+  /** Agents used by the flow, needed by rules that look at capabilities or environment schemas */
+  agents?: Array<Pick<Agent, 'agent_id' | 'capabilities' | 'environment_schema'>>;
+}
+
+export interface FlowLintMessage {
+  rule: FlowLintRuleId;
+  severity: FlowLintSeverity;
+  message: string;
+  node_id?: string;
+  /** Offending field, e.g. 'nodes.book.config.timeout' */
+  path?: string;
+  /** Whether lintFlow can fix the problem with `fix: true` */
+  fixable: boolean;
+}
+
+export interface FlowLintResult<F = Flow> {
+  flow_id: string;
+  /** Problems found (with `fix: true`, only the ones that could not be fixed) */
+  messages: FlowLintMessage[];
+  errorCount: number;
+  warningCount: number;
+  fixableCount: number;
+  /** Fixed copy of the flow, when `fix: true` */
+  output?: F;
+}
+
+export type FlowLintReportFormat = 'text' | 'json';
+
 // SDK Response Types
 export interface SDKResponse<T = any> {
   data: T;
@@ -304,14 +689,33 @@ export interface RequestOptions {
   timeout?: number;
   retries?: number;
   headers?: Record<string, string>;
+  /** Retry policy overrides for this request */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Idempotency key sent as the Idempotency-Key header and reused across retries.
+   * Pass `true` to generate one automatically.
+   */
+  idempotencyKey?: string | true;
+  /** Signal that cancels the request, including pending retries */
+  signal?: AbortSignal;
 }
 
 // Streaming Types
 export interface StreamOptions {
   onProgress?: (progress: StreamProgress) => void;
-  onData?: (data: any) => void;
+  onData?: (data: ExecutionStreamEvent) => void;
   onError?: (error: Error) => void;
-  onComplete?: (result: any) => void;
+  onComplete?: (result: ExecutionContext) => void;
+  /** 'auto' (default) streams over SSE and falls back to polling; 'sse' fails instead of falling back */
+  mode?: 'auto' | 'sse' | 'polling';
+  /** Shortest poll interval of the polling fallback in milliseconds (default: 500) */
+  pollInterval?: number;
+  /** Longest poll interval of the polling fallback in milliseconds (default: 5000) */
+  maxPollInterval?: number;
+  /** Maximum time to follow the execution in milliseconds (default: 5 minutes) */
+  timeout?: number;
+  /** Signal that stops streaming */
+  signal?: AbortSignal;
 }
 
 export interface StreamProgress {
@@ -320,6 +724,39 @@ export interface StreamProgress {
   data?: any;
 }
 
+export interface NodeTransitionEvent {
+  type: 'node';
+  execution_id: string;
+  node: NodeExecutionResult;
+  /** Status before this transition (undefined when the node is first seen) */
+  previous_status?: NodeExecutionResult['status'];
+}
+
+export interface ExecutionUpdateEvent {
+  type: 'execution';
+  execution: ExecutionContext;
+}
+
+export type ExecutionStreamEvent = NodeTransitionEvent | ExecutionUpdateEvent;
+
+// Execution Handle Types
+export interface SerializedExecutionHandle {
+  execution_id: string;
+  flow_id?: string;
+  status: ExecutionResponse['status'];
+  message?: string;
+}
+
+export interface ExecutionHandleEvents {
+  'node.started': NodeTransitionEvent;
+  'node.completed': NodeTransitionEvent;
+  'node.failed': NodeTransitionEvent;
+  'execution.updated': ExecutionUpdateEvent;
+  'error': AISpineError;
+}
+
+export type ExecutionHandleEventType = keyof ExecutionHandleEvents;
+
 // Template Types (for future marketplace feature)
 export interface Template {
   template_id: string;
@@ -349,10 +786,12 @@ export interface BatchResponse<T = any> {
   error?: string;
 }
 
-export interface BatchOptions {
+export interface BatchOptions<T = any> {
   concurrency?: number;
+  /** Signal that stops the batch; queued items are not started */
+  signal?: AbortSignal;
   onProgress?: (completed: number, total: number) => void;
-  onItemComplete?: (result: BatchResponse) => void;
+  onItemComplete?: (result: BatchResponse<T>) => void;
 }
 
 // Health Check Types
@@ -435,7 +874,18 @@ export interface WebhookEndpoint {
 export interface ValidationError {
   field: string;
   message: string;
-  code: 'required' | 'invalid_type' | 'invalid_value' | 'missing_schema';
+  code:
+    | 'required'
+    | 'invalid_type'
+    | 'invalid_value'
+    | 'missing_schema'
+    // Flow graph problems
+    | 'duplicate_node'
+    | 'missing_node'
+    | 'cycle'
+    | 'unreachable'
+    | 'orphan_node'
+    | 'invalid_placement';
 }
 
 export interface ValidationResult {
@@ -443,6 +893,37 @@ export interface ValidationResult {
   errors: ValidationError[];
 }
 
+// Flow Preflight Types
+export interface FlowPreflightOverrides {
+  /** Values for every node, e.g. secrets injected at run time */
+  environment?: Record<string, string | number | boolean>;
+  /** Values for single nodes, keyed by node id; these win over `environment` */
+  nodes?: Record<string, Record<string, string | number | boolean>>;
+}
+
+export interface FlowPreflightNodeResult {
+  node_id: string;
+  agent_id: string;
+  valid: boolean;
+  /** Missing or mistyped variables (field is the variable name), or an unknown agent */
+  errors: ValidationError[];
+}
+
+export interface FlowPreflightResult {
+  flow_id: string;
+  valid: boolean;
+  /** One result per node with an agent_id, in flow order */
+  nodes: FlowPreflightNodeResult[];
+}
+
+export interface ExecuteFlowOptions extends RequestOptions {
+  /**
+   * Run preflightFlow() first and reject with a ValidationError if it fails.
+   * Overrides are never sent with the execution, so call preflightFlow() directly to check them.
+   */
+  preflight?: boolean;
+}
+
 // Agent Execution Types
 export interface AgentExecutionRequest {
   input: Record<string, any>;
@@ -463,6 +944,237 @@ export interface AgentExecutionResponse {
   error_message?: string;
 }
 
+// Agent Server Types
+export interface AgentHandlerContext {
+  /** config.environment with schema defaults applied */
+  environment: Record<string, string | number | boolean>;
+  /** Aborted when the request times out or the caller disconnects */
+  signal: AbortSignal;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Agent logic served by createAgentServer: receives the request and returns the
+ * output; thrown errors become `status: 'error'` responses
+ */
+export type AgentHandler = (
+  request: AgentExecutionRequest,
+  context: AgentHandlerContext
+) => Record<string, any> | Promise<Record<string, any>>;
+
+export interface AgentServerOptions {
+  handler: AgentHandler;
+  /** Schema config.environment is checked against before the handler runs */
+  environmentSchema?: AgentEnvironmentSchema;
+  /** Reported by the health route */
+  agentId?: string;
+  /** Execution route (default: '/') */
+  path?: string;
+  /** Health route (default: '/health') */
+  healthPath?: string;
+  /** Timeout in milliseconds when the request has no config.timeout */
+  defaultTimeout?: number;
+  /** Largest accepted request body in bytes (default: 1 MB) */
+  maxBodySize?: number;
+}
+
+/**
+ * The parts of Node's http.IncomingMessage the agent server reads
+ */
+export interface AgentServerRequest {
+  url?: string;
+  method?: string;
+  /** Body already read by a body parser such as express.json() */
+  body?: unknown;
+  /** Whether the body stream was consumed */
+  readonly readableEnded?: boolean;
+  on(event: 'data', listener: (chunk: Uint8Array) => void): unknown;
+  on(event: 'end', listener: () => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+}
+
+/**
+ * The parts of Node's http.ServerResponse the agent server writes
+ */
+export interface AgentServerResponse {
+  readonly writableEnded: boolean;
+  readonly destroyed: boolean;
+  setHeader(name: string, value: string): unknown;
+  writeHead(statusCode: number, headers: Record<string, string>): unknown;
+  end(chunk: string): unknown;
+  on(event: 'close', listener: () => void): unknown;
+}
+
+/**
+ * The parts of Node's http.Server the agent server uses
+ */
+export interface AgentHttpServer {
+  listen(port: number, host: string | undefined, callback: () => void): unknown;
+  address(): { port: number } | string | null;
+  close(callback: (error?: Error) => void): unknown;
+  once(event: 'error', listener: (error: Error) => void): unknown;
+  off(event: 'error', listener: (error: Error) => void): unknown;
+}
+
+export interface AgentHealthResponse {
+  status: 'healthy';
+  agent_id?: string;
+  environment_schema?: AgentEnvironmentSchema;
+  timestamp: string;
+}
+
+// Agent Contract Types
+export type AgentContractCase =
+  | 'minimal-input'
+  | 'missing-required-environment'
+  | 'wrong-environment-types'
+  | 'oversized-payload'
+  | 'timeout';
+
+export interface AgentContractFixtures {
+  /** Smallest input the agent accepts */
+  input: Record<string, any>;
+  /** Valid config.environment */
+  environment?: Record<string, string | number | boolean>;
+  /** Agent schema, used to build the environment cases (skipped without it) */
+  environmentSchema?: AgentEnvironmentSchema;
+  /** Input that takes longer than `timeout` to process (default: `input`) */
+  slowInput?: Record<string, any>;
+  /** config.timeout sent in the timeout case, in milliseconds (default: 50) */
+  timeout?: number;
+  /** Size of the oversized payload in bytes (default: 2 MB) */
+  payloadSize?: number;
+}
+
+export interface AgentContractOptions {
+  /** HTTP transport used to call the agent (default: 'axios') */
+  transport?: 'axios' | 'fetch' | Transport;
+  /** Headers sent with every case, e.g. for agent authentication */
+  headers?: Record<string, string>;
+  /** How long to wait for each response in milliseconds (default: 10000) */
+  requestTimeout?: number;
+  /** Cases to run (default: all) */
+  cases?: AgentContractCase[];
+}
+
+export interface AgentContractCaseResult {
+  case: AgentContractCase;
+  status: 'passed' | 'failed' | 'skipped';
+  /** Failed assertions, or why the case was skipped */
+  messages: string[];
+  /** HTTP status of the agent's response */
+  http_status?: number;
+  response?: unknown;
+  duration: number;
+}
+
+export interface AgentContractReport {
+  endpoint: string;
+  passed: boolean;
+  passedCount: number;
+  failedCount: number;
+  skippedCount: number;
+  results: AgentContractCaseResult[];
+}
+
+// Agent Monitor Types
+/** 'unknown' until the first check completes */
+export type AgentHealthState = 'up' | 'degraded' | 'down' | 'unknown';
+
+export type AgentMonitorEventType =
+  | 'agent.down'
+  | 'agent.recovered'
+  | 'agent.degraded'
+  | '*'; // All events
+
+export interface AgentHealthCheck {
+  agent_id: string;
+  /** When the check started (ISO 8601) */
+  timestamp: string;
+  /** Agent is active and, with the 'endpoint' probe, its endpoint answered */
+  available: boolean;
+  /** Duration of testAgent with the 'endpoint' probe, of getAgent otherwise, in milliseconds */
+  latency: number;
+  /** Status reported by getAgent */
+  agent_status?: Agent['status'];
+  /** Why the agent is unavailable */
+  message?: string;
+}
+
+export interface AgentMonitorEvent {
+  event: Exclude<AgentMonitorEventType, '*'>;
+  agent_id: string;
+  previous: AgentHealthState;
+  current: AgentHealthState;
+  /** Check that caused the change */
+  check: AgentHealthCheck;
+  timestamp: string;
+}
+
+export type AgentMonitorEventHandler = (event: AgentMonitorEvent) => void | Promise<void>;
+
+export interface AgentMonitorOptions {
+  /** Time between rounds of checks in milliseconds (default: 30000) */
+  interval?: number;
+  /**
+   * 'agent' reads the agent's status with getAgent; 'endpoint' also calls
+   * testAgent with its endpoint (default: 'endpoint')
+   */
+  probe?: 'agent' | 'endpoint';
+  /** Latency in milliseconds above which an available agent is degraded (default: 2000) */
+  degradedLatency?: number;
+  /** Consecutive failed checks before an agent is down (default: 1) */
+  failureThreshold?: number;
+  /** Checks kept per agent (default: 100) */
+  historySize?: number;
+  /** Options passed to getAgent and testAgent */
+  requestOptions?: RequestOptions;
+}
+
+export interface AgentUptimeSummary {
+  agent_id: string;
+  state: AgentHealthState;
+  /** Checks in the history */
+  checks: number;
+  /** Share of available checks, from 0 to 1 (0 without checks) */
+  uptime: number;
+  /** Average latency of available checks in milliseconds */
+  average_latency?: number;
+  /** Highest latency of available checks in milliseconds */
+  max_latency?: number;
+  last_check?: string;
+  /** Last check at which the agent was available */
+  last_available?: string;
+  /** When the agent entered its current state */
+  since?: string;
+}
+
+// Local Runner Types
+export interface LocalAgentContext {
+  execution_id: string;
+  flow_id: string;
+  node: FlowNode;
+  /** Aborted when the node times out or the run is aborted */
+  signal: AbortSignal;
+}
+
+export type LocalAgentHandler = (
+  request: AgentExecutionRequest,
+  context: LocalAgentContext
+) => AgentExecutionResponse | Promise<AgentExecutionResponse>;
+
+export interface LocalFlowRunnerOptions {
+  /** Timeout for nodes without config.timeout, in milliseconds (default: none) */
+  defaultTimeout?: number;
+}
+
+export interface LocalRunOptions {
+  /** Aborts running agents; the run rejects with AbortError */
+  signal?: AbortSignal;
+  /** Stored on the resulting ExecutionContext */
+  metadata?: Record<string, any>;
+}
+
 export interface WebhookEventData {
   execution?: ExecutionContext;
   agent?: Agent;
@@ -4,8 +4,14 @@
  * Helper functions and utilities for the SDK
  */
 
-import { ValidationError as ValidationErrorType } from './types';
-import { ValidationError } from './errors';
+import {
+  AgentEnvironmentSchema,
+  FlowCreateRequest,
+  FlowDataValidator,
+  FlowNode,
+  ValidationError as ValidationErrorType,
+} from './types';
+import { AbortError, ValidationError } from './errors';
 
 /**
  * Validates an API key format
@@ -163,6 +169,259 @@ export function validateAgentConfig(config: any): ValidationErrorType[] {
   return errors;
 }
 
+/**
+ * Validates environment variables against an agent environment schema
+ * (required fields and value types; password fields are strings)
+ */
+export function validateEnvironmentValues(
+  environment: Record<string, unknown>,
+  schema: AgentEnvironmentSchema
+): ValidationErrorType[] {
+  const errors: ValidationErrorType[] = [];
+
+  for (const [fieldName, fieldConfig] of Object.entries(schema)) {
+    const value = environment[fieldName];
+
+    if (fieldConfig.required && (value === undefined || value === null || value === '')) {
+      errors.push({
+        field: fieldName,
+        message: `${fieldName} is required`,
+        code: 'required'
+      });
+      continue;
+    }
+
+    // Skip validation if field is not provided and not required
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    const expectedType = fieldConfig.type === 'password' ? 'string' : fieldConfig.type;
+    if (typeof value !== expectedType) {
+      errors.push({
+        field: fieldName,
+        message: `${fieldName} must be a ${expectedType}`,
+        code: 'invalid_type'
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates the node graph of a flow definition
+ *
+ * Reports duplicate node ids, depends_on references to missing nodes, cycles,
+ * a missing entry_point, unreachable exit_points, orphan nodes and misplaced
+ * input/output nodes. Each error's `field` is the path of the offending value,
+ * e.g. `nodes[2].depends_on[0]`. Entry point, exit point and orphan checks
+ * only run when `entry_point` is given, so partial updates can be validated.
+ */
+export function validateFlowDefinition(
+  flow: Partial<Pick<FlowCreateRequest, 'nodes' | 'entry_point' | 'exit_points'>>
+): ValidationErrorType[] {
+  const errors: ValidationErrorType[] = [];
+
+  if (flow.nodes === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(flow.nodes)) {
+    errors.push({
+      field: 'nodes',
+      message: 'Nodes must be an array',
+      code: 'invalid_type',
+      value: flow.nodes,
+    });
+    return errors;
+  }
+  if (flow.nodes.length === 0) {
+    errors.push({
+      field: 'nodes',
+      message: 'A flow needs at least one node',
+      code: 'required',
+      value: flow.nodes,
+    });
+    return errors;
+  }
+
+  // Node ids
+  const nodes: Map<string, { node: FlowNode; index: number }> = new Map();
+  flow.nodes.forEach((node, index) => {
+    if (!node || !node.id) {
+      errors.push({
+        field: `nodes[${index}].id`,
+        message: 'Node id is required',
+        code: 'required',
+        value: node?.id,
+      });
+    } else if (nodes.has(node.id)) {
+      errors.push({
+        field: `nodes[${index}].id`,
+        message: `Duplicate node id "${node.id}" (first defined at nodes[${nodes.get(node.id)!.index}])`,
+        code: 'duplicate_node',
+        value: node.id,
+      });
+    } else {
+      nodes.set(node.id, { node, index });
+    }
+  });
+
+  // Dependencies and input/output placement
+  const dependents: Map<string, string[]> = new Map();
+  for (const { node, index } of nodes.values()) {
+    if (node.depends_on !== undefined && !Array.isArray(node.depends_on)) {
+      errors.push({
+        field: `nodes[${index}].depends_on`,
+        message: 'depends_on must be an array of node ids',
+        code: 'invalid_type',
+        value: node.depends_on,
+      });
+      continue;
+    }
+
+    if (node.type === 'input' && node.depends_on && node.depends_on.length > 0) {
+      errors.push({
+        field: `nodes[${index}].depends_on`,
+        message: `Input node "${node.id}" cannot depend on other nodes`,
+        code: 'invalid_placement',
+        value: node.depends_on,
+      });
+    }
+
+    (node.depends_on || []).forEach((dependency, position) => {
+      const target = nodes.get(dependency);
+      if (!target) {
+        errors.push({
+          field: `nodes[${index}].depends_on[${position}]`,
+          message: `Node "${node.id}" depends on missing node "${dependency}"`,
+          code: 'missing_node',
+          value: dependency,
+        });
+        return;
+      }
+      if (target.node.type === 'output') {
+        errors.push({
+          field: `nodes[${index}].depends_on[${position}]`,
+          message: `Node "${node.id}" cannot depend on output node "${dependency}"`,
+          code: 'invalid_placement',
+          value: dependency,
+        });
+      }
+      dependents.set(dependency, [...(dependents.get(dependency) || []), node.id]);
+    });
+  }
+
+  // Cycles (depth-first search over depends_on)
+  const state: Map<string, 'visiting' | 'done'> = new Map();
+  const stack: string[] = [];
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    const { node, index } = nodes.get(id)!;
+    for (const dependency of Array.isArray(node.depends_on) ? node.depends_on : []) {
+      if (!nodes.has(dependency)) {
+        continue;
+      }
+      if (state.get(dependency) === 'visiting') {
+        const cycle = [...stack.slice(stack.indexOf(dependency)), dependency];
+        errors.push({
+          field: `nodes[${index}].depends_on`,
+          message: `Dependency cycle: ${cycle.join(' -> ')}`,
+          code: 'cycle',
+          value: cycle,
+        });
+      } else if (!state.has(dependency)) {
+        visit(dependency);
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+  };
+  for (const id of nodes.keys()) {
+    if (!state.has(id)) {
+      visit(id);
+    }
+  }
+
+  if (flow.entry_point === undefined) {
+    return errors;
+  }
+
+  // Entry point
+  const entry = nodes.get(flow.entry_point);
+  if (!entry) {
+    errors.push({
+      field: 'entry_point',
+      message: `Entry point "${flow.entry_point}" is not a node of this flow`,
+      code: 'missing_node',
+      value: flow.entry_point,
+    });
+    return errors;
+  }
+  if (entry.node.type !== 'input') {
+    errors.push({
+      field: 'entry_point',
+      message: `Entry point "${flow.entry_point}" must be an input node`,
+      code: 'invalid_placement',
+      value: flow.entry_point,
+    });
+  }
+
+  // Nodes reachable from the entry point by following dependents
+  const reachable = new Set<string>([flow.entry_point]);
+  const queue = [flow.entry_point];
+  while (queue.length > 0) {
+    for (const dependent of dependents.get(queue.shift()!) || []) {
+      if (!reachable.has(dependent)) {
+        reachable.add(dependent);
+        queue.push(dependent);
+      }
+    }
+  }
+
+  // Exit points
+  (flow.exit_points || []).forEach((exitPoint, position) => {
+    const exit = nodes.get(exitPoint);
+    if (!exit) {
+      errors.push({
+        field: `exit_points[${position}]`,
+        message: `Exit point "${exitPoint}" is not a node of this flow`,
+        code: 'missing_node',
+        value: exitPoint,
+      });
+    } else if (!reachable.has(exitPoint)) {
+      errors.push({
+        field: `exit_points[${position}]`,
+        message: `Exit point "${exitPoint}" cannot be reached from entry point "${flow.entry_point}"`,
+        code: 'unreachable',
+        value: exitPoint,
+      });
+    } else if (exit.node.type !== 'output') {
+      errors.push({
+        field: `exit_points[${position}]`,
+        message: `Exit point "${exitPoint}" must be an output node`,
+        code: 'invalid_placement',
+        value: exitPoint,
+      });
+    }
+  });
+
+  // Orphans
+  for (const { node, index } of nodes.values()) {
+    if (!reachable.has(node.id)) {
+      errors.push({
+        field: `nodes[${index}]`,
+        message: `Node "${node.id}" is not connected to entry point "${flow.entry_point}"`,
+        code: 'orphan_node',
+        value: node.id,
+      });
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Throws a ValidationError if there are validation errors
  */
@@ -172,6 +431,34 @@ export function throwIfValidationErrors(errors: ValidationErrorType[], message:
   }
 }
 
+/**
+ * Runs a FlowDataValidator and returns the checked value
+ *
+ * A predicate returning false, or any validator that throws, rejects the value
+ * with a ValidationError for `field`; schema objects return their parsed value.
+ */
+export function checkFlowData<T>(
+  validator: FlowDataValidator<T>,
+  value: unknown,
+  field: string,
+  message: string,
+  details?: Record<string, unknown>
+): T {
+  let reason: string;
+  try {
+    if (typeof validator !== 'function') {
+      return validator.parse(value);
+    }
+    if (validator(value) !== false) {
+      return value as T;
+    }
+    reason = 'Rejected by validator';
+  } catch (error) {
+    reason = error instanceof Error ? error.message : String(error);
+  }
+  throw new ValidationError(message, [{ field, message: reason, code: 'invalid_value', value }], details);
+}
+
 /**
  * Sanitizes input data by removing undefined values and functions
  */
@@ -203,10 +490,50 @@ export function sanitizeInput(input: any): any {
 }
 
 /**
- * Creates a delay promise
+ * Generates a random idempotency key (UUID v4)
  */
-export function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function generateIdempotencyKey(): string {
+  if (typeof globalThis.crypto !== 'undefined' && typeof globalThis.crypto.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+}
+
+/**
+ * Creates a delay promise, rejecting with AbortError if the signal is aborted
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Throws an AbortError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError();
+  }
 }
 
 /**
@@ -252,7 +579,7 @@ export function formatTimestamp(timestamp: string | Date, humanReadable: boolean
  * Checks if an execution is in a final state
  */
 export function isExecutionComplete(status: string): boolean {
-  return status === 'completed' || status === 'failed';
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
 }
 
 /**
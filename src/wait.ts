@@ -0,0 +1,266 @@
+/**
+ * AI Spine SDK Multi-execution Wait
+ *
+ * Waits for many executions with one shared poll loop. Executions of the same
+ * flow are checked together through the executions listing.
+ */
+
+import {
+  ExecutionContext,
+  ExecutionSettledResult,
+  Flow,
+  PollingOptions,
+  RequestOptions,
+  WaitForExecutionsOptions,
+} from './types';
+import { AISpineError, AbortError, RateLimitError, ValidationError } from './errors';
+import { DEFAULT_POLL_INTERVAL, fixedPolling, hasExecutionChanged, rateLimitedDelay, resolvePollingStrategy } from './polling';
+import { delay, isExecutionComplete, throwIfAborted, validateExecutionId } from './utils';
+
+export interface ExecutionWaitSource {
+  getExecution(executionId: string, options: RequestOptions): Promise<ExecutionContext>;
+  listExecutions(filters: { flow_id?: string; limit?: number }, options: RequestOptions): Promise<ExecutionContext[]>;
+  getFlow(flowId: string, options: RequestOptions): Promise<Flow>;
+  /** Default polling options from AISpineConfig */
+  polling?: PollingOptions;
+}
+
+// Executions fetched per listing request when batching a flow's status checks
+const LIST_LIMIT = 100;
+
+function toAISpineError(error: unknown): AISpineError {
+  return error instanceof AISpineError
+    ? error
+    : new AISpineError(error instanceof Error ? error.message : String(error), 'UNKNOWN_ERROR');
+}
+
+/**
+ * Waits for several executions and settles each of them
+ *
+ * Stops early in 'all' mode after the first error and in 'any' mode after the
+ * first finished execution; the returned results only cover settled ids.
+ */
+async function settleExecutions(
+  source: ExecutionWaitSource,
+  executionIds: string[],
+  options: WaitForExecutionsOptions
+): Promise<{ results: Map<string, ExecutionSettledResult>; firstFulfilled?: ExecutionContext; firstRejected?: AISpineError }> {
+  const mode = options.mode || 'all';
+  const timeout = options.timeout || 300000; // 5 minutes default
+  const strategy = options.polling
+    ? resolvePollingStrategy(options.polling)
+    : options.interval
+      ? fixedPolling(options.interval)
+      : resolvePollingStrategy(source.polling);
+
+  const ids = Array.from(new Set(executionIds));
+  const results: Map<string, ExecutionSettledResult> = new Map();
+  const latest: Map<string, ExecutionContext> = new Map();
+  const previous: Map<string, ExecutionContext> = new Map();
+  const flows: Map<string, Flow | undefined> = new Map();
+  let firstFulfilled: ExecutionContext | undefined;
+  let firstRejected: AISpineError | undefined;
+
+  const settle = (result: ExecutionSettledResult) => {
+    if (results.has(result.execution_id)) {
+      return;
+    }
+    results.set(result.execution_id, result);
+    if (result.status === 'fulfilled') {
+      firstFulfilled = firstFulfilled || result.value;
+    } else {
+      firstRejected = firstRejected || result.reason;
+    }
+  };
+
+  const done = () => {
+    if (results.size === ids.length) {
+      return true;
+    }
+    if (mode === 'all') {
+      return !!firstRejected;
+    }
+    return mode === 'any' && !!firstFulfilled;
+  };
+
+  const startTime = Date.now();
+  let polls = 0;
+  let nextDelay = DEFAULT_POLL_INTERVAL;
+
+  while (!done()) {
+    throwIfAborted(options.signal);
+
+    const pending = ids.filter(id => !results.has(id));
+    if (Date.now() - startTime >= timeout) {
+      const error = new AISpineError(
+        `${pending.length} execution(s) did not complete within ${timeout}ms`,
+        'EXECUTION_TIMEOUT',
+        408,
+        { executionIds: pending, timeout, polls }
+      );
+      if (mode !== 'allSettled') {
+        throw error;
+      }
+      pending.forEach(id => settle({ execution_id: id, status: 'rejected', reason: error }));
+      break;
+    }
+
+    polls++;
+    let rateLimited: RateLimitError | undefined;
+    const handleError = (error: unknown): AISpineError | undefined => {
+      if (error instanceof AbortError) {
+        throw error;
+      }
+      if (error instanceof RateLimitError) {
+        rateLimited = error;
+        return undefined;
+      }
+      return toAISpineError(error);
+    };
+
+    // Check executions of the same flow with a single listing request
+    const fetched: Map<string, ExecutionContext> = new Map();
+    const byFlow: Map<string, string[]> = new Map();
+    for (const id of pending) {
+      const flowId = latest.get(id)?.flow_id;
+      if (flowId) {
+        byFlow.set(flowId, [...(byFlow.get(flowId) || []), id]);
+      }
+    }
+    for (const [flowId, group] of byFlow) {
+      if (group.length < 2) {
+        continue;
+      }
+      try {
+        const executions = await source.listExecutions({ flow_id: flowId, limit: Math.max(LIST_LIMIT, group.length) }, options);
+        for (const execution of executions) {
+          if (group.includes(execution.execution_id)) {
+            fetched.set(execution.execution_id, execution);
+          }
+        }
+      } catch (error) {
+        // Ids missing from the listing are checked one by one below
+        handleError(error);
+      }
+    }
+
+    if (!rateLimited) {
+      await Promise.all(pending.filter(id => !fetched.has(id)).map(async id => {
+        try {
+          fetched.set(id, await source.getExecution(id, options));
+        } catch (error) {
+          const reason = handleError(error);
+          if (reason) {
+            settle({ execution_id: id, status: 'rejected', reason });
+          }
+        }
+      }));
+    }
+
+    for (const [id, execution] of fetched) {
+      latest.set(id, execution);
+      options.onProgress?.(execution);
+      if (isExecutionComplete(execution.status)) {
+        settle({ execution_id: id, status: 'fulfilled', value: execution });
+      }
+    }
+
+    if (done()) {
+      break;
+    }
+
+    if (rateLimited) {
+      nextDelay = rateLimitedDelay(rateLimited.retryAfter, nextDelay, strategy, timeout - (Date.now() - startTime));
+    } else {
+      const delays: number[] = [];
+      for (const id of ids.filter(id => !results.has(id) && fetched.has(id))) {
+        const execution = fetched.get(id)!;
+        if (strategy.needsFlow && !flows.has(execution.flow_id)) {
+          // Hints are optional; poll without them if the flow can't be loaded
+          flows.set(execution.flow_id, await source.getFlow(execution.flow_id, options).catch(() => undefined));
+        }
+        delays.push(strategy.nextDelay({
+          polls,
+          elapsed: Date.now() - startTime,
+          execution,
+          changed: hasExecutionChanged(previous.get(id), execution),
+          flow: flows.get(execution.flow_id),
+        }));
+        previous.set(id, execution);
+      }
+      if (delays.length > 0) {
+        nextDelay = Math.min(...delays);
+      }
+    }
+
+    await delay(nextDelay, options.signal);
+  }
+
+  return { results, firstFulfilled, firstRejected };
+}
+
+/**
+ * Waits for several executions with one shared poll loop
+ *
+ * @returns Results in the order of executionIds ('all' and 'allSettled') or the first finished execution ('any')
+ */
+export function waitForExecutions(
+  source: ExecutionWaitSource,
+  executionIds: string[],
+  options?: WaitForExecutionsOptions & { mode?: 'all' }
+): Promise<ExecutionContext[]>;
+export function waitForExecutions(
+  source: ExecutionWaitSource,
+  executionIds: string[],
+  options: WaitForExecutionsOptions & { mode: 'any' }
+): Promise<ExecutionContext>;
+export function waitForExecutions(
+  source: ExecutionWaitSource,
+  executionIds: string[],
+  options: WaitForExecutionsOptions & { mode: 'allSettled' }
+): Promise<ExecutionSettledResult[]>;
+export function waitForExecutions(
+  source: ExecutionWaitSource,
+  executionIds: string[],
+  options?: WaitForExecutionsOptions
+): Promise<ExecutionContext[] | ExecutionContext | ExecutionSettledResult[]>;
+export async function waitForExecutions(
+  source: ExecutionWaitSource,
+  executionIds: string[],
+  options: WaitForExecutionsOptions = {}
+): Promise<ExecutionContext[] | ExecutionContext | ExecutionSettledResult[]> {
+  const mode = options.mode || 'all';
+
+  const invalid = executionIds.filter(id => !validateExecutionId(id));
+  if (invalid.length > 0) {
+    throw new ValidationError('Invalid execution ID format', invalid.map(id => ({
+      field: 'executionIds',
+      message: 'Invalid execution ID format',
+      code: 'invalid_value',
+      value: id,
+    })));
+  }
+  if (mode === 'any' && executionIds.length === 0) {
+    throw new ValidationError('At least one execution ID is required');
+  }
+
+  const { results, firstFulfilled, firstRejected } = await settleExecutions(source, executionIds, options);
+
+  if (mode === 'allSettled') {
+    return executionIds.map(id => results.get(id)!);
+  }
+
+  if (mode === 'any') {
+    if (firstFulfilled) {
+      return firstFulfilled;
+    }
+    const errors = Object.fromEntries(Array.from(results.values())
+      .map(result => [result.execution_id, result.status === 'rejected' ? result.reason : undefined]));
+    throw new AISpineError('None of the executions could be waited for', 'WAIT_FAILED', undefined, { errors });
+  }
+
+  if (firstRejected) {
+    throw firstRejected;
+  }
+  return executionIds.map(id => (results.get(id) as { value: ExecutionContext }).value);
+}
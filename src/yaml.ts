@@ -0,0 +1,430 @@
+/**
+ * AI Spine SDK YAML
+ *
+ * Minimal YAML reader and writer for flow files. Supports the block-style subset
+ * used by the flow file format: mappings, sequences, plain and quoted scalars,
+ * literal/folded block scalars (`|`, `>`), simple flow collections (`[a, b]`,
+ * `{ a: 1 }`) and comments. Anchors, tags and multi-document streams are not
+ * supported.
+ */
+
+import { ValidationError } from './errors';
+
+interface Line {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+const RESERVED = /^(true|false|yes|no|on|off|null|~|-?\d[\d_]*(\.\d*)?([eE][+-]?\d+)?|\.inf|-\.inf|\.nan)$/i;
+
+function parseError(message: string, line?: number): ValidationError {
+  return new ValidationError(
+    line !== undefined ? `Invalid YAML at line ${line}: ${message}` : `Invalid YAML: ${message}`,
+    [],
+    { line }
+  );
+}
+
+// Writing
+
+function stringifyScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+
+  const text = String(value);
+  if (/^[A-Za-z_][A-Za-z0-9_ ./-]*$/.test(text) && !/ $/.test(text) && !RESERVED.test(text)) {
+    return text;
+  }
+  return JSON.stringify(text);
+}
+
+function isMultiline(value: unknown): value is string {
+  return typeof value === 'string' && value.includes('\n') && /[^\n]/.test(value) && !/[^\S\n]\n|[\r\t]/.test(value);
+}
+
+/**
+ * Literal block scalar; the header carries an indentation indicator when the
+ * first line starts with a space, and keeps (`+`) or strips (`-`) trailing newlines
+ */
+function stringifyBlockScalar(value: string, indent: number): string {
+  const body = value.replace(/\n+$/, '');
+  const trailing = value.length - body.length;
+  const lines = body.split('\n');
+  const indicator = lines.find(line => line)!.startsWith(' ') ? '2' : '';
+  const chomp = trailing === 0 ? '-' : trailing > 1 ? '+' : '';
+  const pad = ' '.repeat(indent);
+  return `|${indicator}${chomp}\n` + [...lines, ...new Array(Math.max(trailing - 1, 0)).fill('')]
+    .map(line => (line ? pad + line : ''))
+    .join('\n');
+}
+
+function stringifyValue(value: unknown, indent: number): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return ' []';
+    }
+    return '\n' + stringifyNode(value, indent);
+  }
+  if (value && typeof value === 'object') {
+    if (Object.keys(value).length === 0) {
+      return ' {}';
+    }
+    return '\n' + stringifyNode(value, indent);
+  }
+  if (isMultiline(value)) {
+    return ' ' + stringifyBlockScalar(value, indent);
+  }
+  return ' ' + stringifyScalar(value);
+}
+
+function stringifyNode(value: unknown, indent: number): string {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    return value.map(item => {
+      if (item && typeof item === 'object' && !Array.isArray(item) && Object.keys(item).length > 0) {
+        // First key shares the line with the dash
+        return pad + '- ' + stringifyNode(item, indent + 2).slice(indent + 2);
+      }
+      return pad + '-' + stringifyValue(item, indent + 2);
+    }).join('\n');
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .map(([key, item]) => pad + stringifyScalar(key) + ':' + stringifyValue(item, indent + 2))
+    .join('\n');
+}
+
+/**
+ * Serializes plain objects, arrays and scalars as block-style YAML
+ */
+export function stringifyYaml(value: Record<string, unknown>): string {
+  return stringifyNode(value, 0) + '\n';
+}
+
+// Reading
+
+function stripComment(text: string): string {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/**
+ * Finds the `:` separating a mapping key from its value, outside quotes
+ */
+function findKeySeparator(text: string): number {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if ((char === '"' || char === '\'') && i === 0) {
+      quote = char;
+    } else if (char === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i;
+    } else if (char === '[' || char === '{') {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+function splitFlowItems(text: string, line: number): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        current += char + text[++i];
+        continue;
+      }
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (quote || depth !== 0) {
+    throw parseError('unterminated flow collection', line);
+  }
+  if (current.trim()) {
+    items.push(current.trim());
+  }
+  return items;
+}
+
+function parseScalar(text: string, line: number): unknown {
+  const value = text.trim();
+
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw parseError(`invalid double-quoted string ${value}`, line);
+    }
+  }
+  if (value.startsWith('\'')) {
+    if (!value.endsWith('\'') || value.length < 2) {
+      throw parseError(`invalid single-quoted string ${value}`, line);
+    }
+    return value.slice(1, -1).replace(/''/g, '\'');
+  }
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) {
+      throw parseError('unterminated flow sequence', line);
+    }
+    return splitFlowItems(value.slice(1, -1), line).map(item => parseScalar(item, line));
+  }
+  if (value.startsWith('{')) {
+    if (!value.endsWith('}')) {
+      throw parseError('unterminated flow mapping', line);
+    }
+    const result: Record<string, unknown> = {};
+    for (const item of splitFlowItems(value.slice(1, -1), line)) {
+      const separator = findKeySeparator(item);
+      if (separator === -1) {
+        throw parseError(`expected "key: value" in ${value}`, line);
+      }
+      result[String(parseScalar(item.slice(0, separator), line))] = parseScalar(item.slice(separator + 1), line);
+    }
+    return result;
+  }
+  if (/^[&*!|>%@`]/.test(value)) {
+    throw parseError(`unsupported YAML syntax "${value}"`, line);
+  }
+
+  if (value === '' || value === '~' || value === 'null') {
+    return null;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  if (value === 'false') {
+    return false;
+  }
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+class YamlReader {
+  private readonly lines: Line[] = [];
+  private readonly raw: string[];
+  private position = 0;
+
+  constructor(text: string) {
+    this.raw = text.replace(/\r\n?/g, '\n').split('\n');
+    // The final line break ends the last line rather than starting an empty one
+    if (this.raw.length > 1 && this.raw[this.raw.length - 1] === '') {
+      this.raw.pop();
+    }
+    this.raw.forEach((rawLine, index) => {
+      const content = stripComment(rawLine);
+      if (!content.trim() || content.trim() === '---') {
+        return;
+      }
+      const indentation = /^ */.exec(content)![0].length;
+      if (content[indentation] === '\t') {
+        throw parseError('tabs are not allowed for indentation', index + 1);
+      }
+      this.lines.push({ indent: indentation, text: content.slice(indentation), number: index + 1 });
+    });
+  }
+
+  read(): unknown {
+    if (this.lines.length === 0) {
+      return null;
+    }
+    const value = this.parseBlock(this.lines[0].indent);
+    if (this.position < this.lines.length) {
+      const line = this.lines[this.position];
+      throw parseError('unexpected indentation', line.number);
+    }
+    return value;
+  }
+
+  private peek(): Line | undefined {
+    return this.lines[this.position];
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.peek()!;
+    if (line.text === '-' || line.text.startsWith('- ')) {
+      return this.parseSequence(indent);
+    }
+    if (findKeySeparator(line.text) !== -1) {
+      return this.parseMapping(indent);
+    }
+    this.position++;
+    return parseScalar(line.text, line.number);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    let line = this.peek();
+    while (line && line.indent === indent && (line.text === '-' || line.text.startsWith('- '))) {
+      const rest = line.text.slice(1).trimStart();
+      if (!rest) {
+        this.position++;
+        const next = this.peek();
+        items.push(next && next.indent > indent ? this.parseBlock(next.indent) : null);
+      } else if (findKeySeparator(rest) !== -1 || rest.startsWith('- ')) {
+        // "- key: value" starts a mapping (or nested sequence) at the column after the dash
+        const column = indent + (line.text.length - rest.length);
+        this.lines[this.position] = { indent: column, text: rest, number: line.number };
+        items.push(this.parseBlock(column));
+      } else {
+        this.position++;
+        items.push(this.parseValue(rest, indent, line.number));
+      }
+      line = this.peek();
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    let line = this.peek();
+    while (line && line.indent === indent && !(line.text === '-' || line.text.startsWith('- '))) {
+      const separator = findKeySeparator(line.text);
+      if (separator === -1) {
+        throw parseError(`expected "key: value", got "${line.text}"`, line.number);
+      }
+      const key = String(parseScalar(line.text.slice(0, separator), line.number));
+      if (Object.prototype.hasOwnProperty.call(result, key)) {
+        throw parseError(`duplicate key "${key}"`, line.number);
+      }
+      const rest = line.text.slice(separator + 1).trim();
+      this.position++;
+
+      if (rest) {
+        result[key] = this.parseValue(rest, indent, line.number);
+      } else {
+        const next = this.peek();
+        const nestedSequence = next && next.indent === indent && (next.text === '-' || next.text.startsWith('- '));
+        result[key] = next && (next.indent > indent || nestedSequence) ? this.parseBlock(next.indent) : null;
+      }
+      line = this.peek();
+    }
+    if (line && line.indent > indent) {
+      throw parseError('unexpected indentation', line.number);
+    }
+    return result;
+  }
+
+  private parseValue(text: string, indent: number, lineNumber: number): unknown {
+    // Chomping and indentation indicators may come in either order
+    const blockScalar = /^([|>])(?:([1-9]?)([+-]?)|([+-])([1-9]))$/.exec(text);
+    if (blockScalar) {
+      const indentation = Number(blockScalar[2] || blockScalar[5]) || undefined;
+      return this.readBlockScalar(indent, lineNumber, blockScalar[1] === '>', blockScalar[3] || blockScalar[4] || '', indentation);
+    }
+    return parseScalar(text, lineNumber);
+  }
+
+  /**
+   * Reads a literal (|) or folded (>) block scalar from the raw lines
+   *
+   * @param indentation - Indentation indicator: content indent relative to `indent`
+   */
+  private readBlockScalar(
+    indent: number,
+    lineNumber: number,
+    folded: boolean,
+    chomping: string,
+    indentation?: number
+  ): string {
+    const body: string[] = [];
+    let contentIndent: number | undefined = indentation !== undefined ? indent + indentation : undefined;
+    let index = lineNumber; // raw index of the line after the indicator
+    for (; index < this.raw.length; index++) {
+      const rawLine = this.raw[index];
+      if (!rawLine.trim()) {
+        body.push('');
+        continue;
+      }
+      const lineIndent = /^ */.exec(rawLine)![0].length;
+      if (lineIndent <= indent) {
+        break;
+      }
+      contentIndent = contentIndent ?? lineIndent;
+      if (lineIndent < contentIndent) {
+        break;
+      }
+      body.push(rawLine.slice(contentIndent));
+    }
+
+    // Skip the parsed lines that belong to the block
+    while (this.position < this.lines.length && this.lines[this.position].number <= index) {
+      this.position++;
+    }
+
+    let trailing = 0;
+    while (body.length > 0 && body[body.length - 1] === '') {
+      body.pop();
+      trailing++;
+    }
+    let text = folded
+      ? body.reduce((result, line, i) => {
+        if (i === 0) {
+          return line;
+        }
+        return result + (line === '' ? '\n' : (result.endsWith('\n') ? '' : ' ') + line);
+      }, '')
+      : body.join('\n');
+
+    if (chomping === '+') {
+      text += '\n'.repeat(trailing + (text ? 1 : 0));
+    } else if (chomping !== '-' && text) {
+      text += '\n';
+    }
+    return text;
+  }
+}
+
+/**
+ * Parses a YAML document written in the supported subset
+ *
+ * @throws ValidationError with the line number when the document can't be parsed
+ */
+export function parseYaml(text: string): unknown {
+  return new YamlReader(text).read();
+}